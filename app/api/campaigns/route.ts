@@ -0,0 +1,85 @@
+import { authenticateNotifyCaller } from "@/lib/notify-auth";
+import {
+  parseCampaignDefinition,
+  runDueCampaigns,
+  scheduleCampaign,
+  type CampaignDefinition,
+} from "@/lib/notification-campaigns";
+import { NextResponse } from "next/server";
+
+// Called by the campaign cron (see vercel.json) to send whatever is due
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return NextResponse.json(
+      { error: "CRON_SECRET is not configured" },
+      { status: 503 },
+    );
+  }
+  if (request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const campaigns = await runDueCampaigns();
+    return NextResponse.json(
+      {
+        sent: campaigns.map(({ id, result }) => ({ id, result })),
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/campaigns { id, title, body, audience, sendAt?, targetUrl? }: schedule a campaign, internal callers only
+export async function POST(request: Request) {
+  const auth = await authenticateNotifyCaller(request);
+  if (!auth.authenticated) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  if (auth.caller.kind !== "internal") {
+    return NextResponse.json(
+      { error: "Only internal callers can schedule campaigns" },
+      { status: 403 },
+    );
+  }
+
+  let campaign: CampaignDefinition;
+  try {
+    campaign = parseCampaignDefinition(await request.json());
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    if (!(await scheduleCampaign(campaign))) {
+      return NextResponse.json(
+        { error: "A campaign with this id already exists" },
+        { status: 409 },
+      );
+    }
+    return NextResponse.json(
+      { success: true, id: campaign.id, sendAt: campaign.sendAt },
+      { status: 201 },
+    );
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
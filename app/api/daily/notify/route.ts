@@ -0,0 +1,28 @@
+import { announceDailyChallenge } from "@/lib/daily-challenge";
+import { NextResponse } from "next/server";
+
+// Called by the daily cron (see vercel.json) just after midnight UTC
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return NextResponse.json(
+      { error: "CRON_SECRET is not configured" },
+      { status: 503 },
+    );
+  }
+  if (request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const announcement = await announceDailyChallenge();
+    return NextResponse.json(announcement, { status: 200 });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { rankedDailySeed } from "@/lib/daily-challenge";
+import { utcDay } from "@/lib/game/daily";
+import { quickAuthToken, useTestQuickAuth } from "@/lib/testing/quick-auth";
+import { GET, POST } from "./route";
+
+function daily(method: "GET" | "POST", token?: string): Promise<Response> {
+  const request = new Request("https://example.com/api/daily", {
+    method,
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+  return method === "GET" ? GET(request) : POST(request);
+}
+
+useTestQuickAuth();
+
+beforeEach(() => {
+  vi.stubEnv("DAILY_SEED_SECRET", "test-secret");
+});
+
+describe("/api/daily", () => {
+  it("won't claim an attempt without a signed-in player", async () => {
+    expect((await daily("POST")).status).toBe(401);
+    expect((await daily("POST", "forged")).status).toBe(401);
+  });
+
+  it("hands out the ranked forest once, to the player who claims it", async () => {
+    const ranked = rankedDailySeed(utcDay());
+
+    const claim = await daily("POST", quickAuthToken(10));
+    expect(claim.status).toBe(200);
+    expect((await claim.json()).seed).toBe(ranked);
+    expect((await daily("POST", quickAuthToken(10))).status).toBe(409);
+
+    const status = await (await daily("GET", quickAuthToken(10))).json();
+    expect(status.seed).toBe(ranked);
+    expect(status.attempt.startedAt).toBeGreaterThan(0);
+  });
+
+  it("only shows the practice forest before an attempt is claimed", async () => {
+    const ranked = rankedDailySeed(utcDay());
+    const anonymous = await (await daily("GET")).json();
+    expect(anonymous.seed).not.toBe(ranked);
+    expect(anonymous.attempt).toBeNull();
+
+    const unclaimed = await (await daily("GET", quickAuthToken(11))).json();
+    expect(unclaimed.seed).toBe(anonymous.seed);
+  });
+});
@@ -0,0 +1,76 @@
+import {
+  getDailyAttempt,
+  rankedDailySeed,
+  startDailyAttempt,
+} from "@/lib/daily-challenge";
+import { getDailyChallenge } from "@/lib/game/daily";
+import { authenticatePlayer, bearerToken } from "@/lib/player-auth";
+import { NextResponse } from "next/server";
+
+// GET /api/daily, with a Quick Auth bearer token for the player's attempt: today's challenge
+export async function GET(request: Request) {
+  const { day, level, practiceSeed } = getDailyChallenge();
+
+  let fid: number | null = null;
+  if (bearerToken(request)) {
+    const auth = await authenticatePlayer(request);
+    if (!auth.authenticated) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    fid = auth.fid;
+  }
+
+  try {
+    const attempt = fid ? await getDailyAttempt(day, fid) : null;
+    // Once the attempt is claimed the player has the ranked forest anyway, so practice on it
+    const seed = (attempt && rankedDailySeed(day)) || practiceSeed;
+    return NextResponse.json(
+      { day, levelId: level.id, seed, attempt },
+      { status: 200 },
+    );
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/daily with a Quick Auth bearer token: claim today's single ranked attempt
+export async function POST(request: Request) {
+  const auth = await authenticatePlayer(request);
+  if (!auth.authenticated) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const { day, level } = getDailyChallenge();
+  const seed = rankedDailySeed(day);
+  if (!seed) {
+    return NextResponse.json(
+      { error: "DAILY_SEED_SECRET is not configured" },
+      { status: 503 },
+    );
+  }
+
+  try {
+    if (!(await startDailyAttempt(day, auth.fid))) {
+      return NextResponse.json(
+        { error: "Today's ranked attempt has already been used" },
+        { status: 409 },
+      );
+    }
+    return NextResponse.json(
+      { success: true, day, levelId: level.id, seed },
+      { status: 200 },
+    );
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { authenticateNotifyCaller } from "@/lib/notify-auth";
+import {
+  getDelivery,
+  listDeliveries,
+  type Delivery,
+} from "@/lib/notification-deliveries";
+import { NextResponse } from "next/server";
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+// Only the given fid's status, for looking up one player's history
+function forFid(delivery: Delivery, fid: number): Delivery | null {
+  const status = delivery.recipients[fid];
+  return status ? { ...delivery, recipients: { [fid]: status } } : null;
+}
+
+// GET /api/deliveries?notificationId=... for one delivery, or ?limit=&fid= for the most recent; internal callers only
+export async function GET(request: Request) {
+  const auth = await authenticateNotifyCaller(request);
+  if (!auth.authenticated) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  if (auth.caller.kind !== "internal") {
+    return NextResponse.json(
+      { error: "Only internal callers can inspect deliveries" },
+      { status: 403 },
+    );
+  }
+
+  const params = new URL(request.url).searchParams;
+  const notificationId = params.get("notificationId");
+  const fid = params.has("fid") ? Number(params.get("fid")) : null;
+  const limit = params.has("limit")
+    ? Number(params.get("limit"))
+    : DEFAULT_LIMIT;
+  if (fid !== null && !(Number.isInteger(fid) && fid > 0)) {
+    return NextResponse.json(
+      { error: "fid must be a positive integer" },
+      { status: 400 },
+    );
+  }
+  if (!(Number.isInteger(limit) && limit > 0 && limit <= MAX_LIMIT)) {
+    return NextResponse.json(
+      { error: `limit must be between 1 and ${MAX_LIMIT}` },
+      { status: 400 },
+    );
+  }
+
+  try {
+    if (notificationId) {
+      const delivery = await getDelivery(notificationId);
+      const found = delivery && fid !== null ? forFid(delivery, fid) : delivery;
+      if (!found) {
+        return NextResponse.json(
+          { error: "No delivery with this notificationId" },
+          { status: 404 },
+        );
+      }
+      return NextResponse.json(found, { status: 200 });
+    }
+
+    const deliveries = await listDeliveries(limit);
+    return NextResponse.json(
+      {
+        deliveries:
+          fid === null
+            ? deliveries
+            : deliveries
+                .map((delivery) => forFid(delivery, fid))
+                .filter((delivery) => delivery !== null),
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
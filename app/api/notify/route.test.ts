@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createMemoryStore,
+  getKeyValueStore,
+  setKeyValueStore,
+  storeKey,
+} from "@/lib/kv-store";
+import { setUserNotificationDetails } from "@/lib/notification";
+import type { NotifyAuditEntry } from "@/lib/notify-audit";
+import { createAdminToken } from "@/lib/notify-auth";
+import { quickAuthToken, useTestQuickAuth } from "@/lib/testing/quick-auth";
+import { POST } from "./route";
+
+// Dots and all, so it can't be told apart from a token by its shape
+const SECRET = "shared.secret.value";
+const PLAYER_FID = 7;
+
+const details = {
+  url: "https://client.example.com/notify",
+  token: "player-notification-token",
+};
+
+function notify(
+  fid: number,
+  token?: string,
+  headers: Record<string, string> = {},
+): Promise<Response> {
+  return POST(
+    new Request("https://example.com/api/notify", {
+      method: "POST",
+      headers: {
+        ...headers,
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify({
+        fid,
+        notification: { title: "Fire!", body: "A new fire is burning" },
+      }),
+    }),
+  );
+}
+
+async function auditLog(): Promise<NotifyAuditEntry[]> {
+  return await getKeyValueStore().lrange<NotifyAuditEntry>(
+    storeKey("notify", "audit"),
+    0,
+    -1,
+  );
+}
+
+const fetchMock = vi.fn(async () =>
+  Response.json({
+    result: {
+      successfulTokens: [details.token],
+      invalidTokens: [],
+      rateLimitedTokens: [],
+    },
+  }),
+);
+
+useTestQuickAuth();
+
+beforeEach(() => {
+  vi.stubEnv("NOTIFY_API_SECRET", SECRET);
+  vi.spyOn(console, "info").mockImplementation(() => {});
+  setKeyValueStore(createMemoryStore());
+  fetchMock.mockClear();
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("POST /api/notify", () => {
+  it("sends for the shared secret, even one containing dots", async () => {
+    await setUserNotificationDetails(PLAYER_FID, details);
+
+    const response = await notify(PLAYER_FID, SECRET);
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledOnce();
+    expect((await notify(PLAYER_FID, `${SECRET}x`)).status).toBe(401);
+  });
+
+  it("accepts admin tokens signed with the secret until they expire", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const token = createAdminToken("broadcast", 60, SECRET);
+    expect((await notify(PLAYER_FID, token)).status).toBe(404);
+
+    vi.advanceTimersByTime(61 * 1000);
+    const expired = await notify(PLAYER_FID, token);
+    expect(expired.status).toBe(401);
+    expect((await expired.json()).error).toBe("Admin token has expired");
+  });
+
+  it("refuses admin tokens with a forged signature or too long a life", async () => {
+    const [payload] = createAdminToken("broadcast", 60, SECRET).split(".");
+    const forged = `${payload}.${createAdminToken("broadcast", 60, "other").split(".")[1]}`;
+    expect((await notify(PLAYER_FID, forged)).status).toBe(401);
+    expect(
+      (await notify(PLAYER_FID, createAdminToken("x", 60, "other"))).status,
+    ).toBe(401);
+
+    const longLived = createAdminToken("broadcast", 2 * 24 * 60 * 60, SECRET);
+    expect((await notify(PLAYER_FID, longLived)).status).toBe(401);
+  });
+
+  it("only lets Quick Auth players notify themselves", async () => {
+    const token = quickAuthToken(PLAYER_FID);
+    expect((await notify(PLAYER_FID, token)).status).toBe(404);
+    expect((await notify(PLAYER_FID + 1, token)).status).toBe(403);
+    expect((await notify(PLAYER_FID, "fid-x")).status).toBe(401);
+    expect((await notify(PLAYER_FID)).status).toBe(401);
+  });
+
+  it("allows players five notifications an hour", async () => {
+    const token = quickAuthToken(PLAYER_FID);
+    for (let i = 0; i < 5; i++) {
+      expect((await notify(PLAYER_FID, token)).status).toBe(404);
+    }
+
+    const throttled = await notify(PLAYER_FID, token);
+    expect(throttled.status).toBe(429);
+    expect(Number(throttled.headers.get("Retry-After"))).toBeGreaterThan(0);
+  });
+
+  it("allows internal callers a thousand notifications an hour", async () => {
+    for (let fid = 1; fid <= 1000; fid++) {
+      expect((await notify(fid, SECRET)).status).toBe(404);
+    }
+    expect((await notify(1001, SECRET)).status).toBe(429);
+    // Another internal caller has its own allowance
+    const token = createAdminToken("broadcast", 60, SECRET);
+    expect((await notify(1001, token)).status).toBe(404);
+  });
+
+  it("sends any one fid at most ten notifications an hour", async () => {
+    for (let i = 0; i < 10; i++) {
+      const token = createAdminToken(`script-${i}`, 60, SECRET);
+      expect((await notify(PLAYER_FID, token)).status).toBe(404);
+    }
+    expect((await notify(PLAYER_FID, SECRET)).status).toBe(429);
+    expect((await notify(PLAYER_FID + 1, SECRET)).status).toBe(404);
+  });
+
+  it("audit logs every request, newest first", async () => {
+    await setUserNotificationDetails(PLAYER_FID, details);
+    await notify(PLAYER_FID, "forged", { "x-forwarded-for": "203.0.113.5" });
+    await notify(PLAYER_FID + 1, quickAuthToken(PLAYER_FID));
+    await notify(PLAYER_FID, createAdminToken("broadcast", 60, SECRET));
+
+    expect(await auditLog()).toEqual([
+      expect.objectContaining({
+        caller: "internal:broadcast",
+        fid: PLAYER_FID,
+        title: "Fire!",
+        outcome: "sent",
+        status: 200,
+      }),
+      expect.objectContaining({
+        caller: `fid:${PLAYER_FID}`,
+        fid: PLAYER_FID + 1,
+        outcome: "forbidden",
+        status: 403,
+      }),
+      expect.objectContaining({
+        caller: null,
+        outcome: "unauthenticated",
+        status: 401,
+        ip: "203.0.113.5",
+      }),
+    ]);
+  });
+});
@@ -1,32 +1,164 @@
+import {
+  authenticateNotifyCaller,
+  canNotify,
+  describeNotifyCaller,
+  parseNotifyRequest,
+  type NotifyRequest,
+} from "@/lib/notify-auth";
+import { recordNotifyAudit, type NotifyAuditEntry } from "@/lib/notify-audit";
 import { sendFrameNotification } from "@/lib/notification-client";
+import { consumeRateLimit, type RateLimit } from "@/lib/rate-limit";
 import { NextResponse } from "next/server";
 
+// Per hour: internal callers get room for batches, players a few reminders to themselves
+const INTERNAL_CALLER_LIMIT: RateLimit = { limit: 1000, windowSeconds: 3600 };
+const USER_CALLER_LIMIT: RateLimit = { limit: 5, windowSeconds: 3600 };
+// However many callers there are, no fid gets more than this many per hour
+const RECIPIENT_LIMIT: RateLimit = { limit: 10, windowSeconds: 3600 };
+
+// POST /api/notify { fid, notification: { title, body } } with a bearer token
 export async function POST(request: Request) {
-  try {
-    const body = await request.json();
-    const { fid, notification } = body;
-
-    const result = await sendFrameNotification({
-      fid,
-      title: notification.title,
-      body: notification.body,
-      notificationDetails: notification.notificationDetails,
+  const audit = async (
+    entry: Omit<NotifyAuditEntry, "at" | "ip">,
+    body: object,
+    headers?: HeadersInit,
+  ): Promise<NextResponse> => {
+    await recordNotifyAudit({
+      ...entry,
+      at: Date.now(),
+      ip: request.headers.get("x-forwarded-for")?.split(",")[0].trim() ?? null,
     });
+    return NextResponse.json(body, { status: entry.status, headers });
+  };
+
+  const auth = await authenticateNotifyCaller(request);
+  if (!auth.authenticated) {
+    return audit(
+      {
+        caller: null,
+        fid: null,
+        title: null,
+        outcome: "unauthenticated",
+        status: auth.status,
+        detail: auth.error,
+      },
+      { error: auth.error },
+    );
+  }
+  const caller = describeNotifyCaller(auth.caller);
+
+  let notification: NotifyRequest;
+  try {
+    notification = parseNotifyRequest(await request.json());
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return audit(
+      {
+        caller,
+        fid: null,
+        title: null,
+        outcome: "invalid",
+        status: 400,
+        detail: message,
+      },
+      { error: message },
+    );
+  }
+  const { fid, title, body } = notification;
+
+  if (!canNotify(auth.caller, fid)) {
+    const message = "Players can only notify themselves";
+    return audit(
+      {
+        caller,
+        fid,
+        title,
+        outcome: "forbidden",
+        status: 403,
+        detail: message,
+      },
+      { error: message },
+    );
+  }
+
+  try {
+    for (const [name, limit] of [
+      [
+        `notify:caller:${caller}`,
+        auth.caller.kind === "internal"
+          ? INTERNAL_CALLER_LIMIT
+          : USER_CALLER_LIMIT,
+      ],
+      [`notify:fid:${fid}`, RECIPIENT_LIMIT],
+    ] as const) {
+      const rateLimit = await consumeRateLimit(name, limit);
+      if (!rateLimit.allowed) {
+        return audit(
+          {
+            caller,
+            fid,
+            title,
+            outcome: "throttled",
+            status: 429,
+            detail: name,
+          },
+          { error: "Too many notifications, try again later" },
+          { "Retry-After": String(rateLimit.retryAfter) },
+        );
+      }
+    }
+
+    const result = await sendFrameNotification({ fid, title, body });
 
     if (result.state === "error") {
-      return NextResponse.json(
-        { error: result.error },
-        { status: 500 },
+      return audit(
+        {
+          caller,
+          fid,
+          title,
+          outcome: "error",
+          status: 500,
+          detail: result.error,
+        },
+        { error: result.error, notificationId: result.notificationId },
+      );
+    }
+    if (result.state === "no_token") {
+      return audit(
+        { caller, fid, title, outcome: "no_token", status: 404 },
+        { error: "This fid has not enabled notifications" },
+      );
+    }
+    if (result.state === "invalid_token") {
+      return audit(
+        { caller, fid, title, outcome: "invalid_token", status: 410 },
+        {
+          error:
+            "The Farcaster client reported this fid's token invalid; it has been removed",
+        },
+      );
+    }
+    if (result.state === "retrying") {
+      return audit(
+        { caller, fid, title, outcome: "queued", status: 202 },
+        {
+          success: true,
+          queued: true,
+          notificationId: result.notificationId,
+          nextAttemptAt: result.nextAttemptAt,
+        },
       );
     }
 
-    return NextResponse.json({ success: true }, { status: 200 });
+    return audit(
+      { caller, fid, title, outcome: "sent", status: 200 },
+      { success: true, notificationId: result.notificationId },
+    );
   } catch (error) {
-    return NextResponse.json(
-      {
-        error: error instanceof Error ? error.message : "Unknown error",
-      },
-      { status: 400 },
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return audit(
+      { caller, fid, title, outcome: "error", status: 500, detail: message },
+      { error: message },
     );
   }
 }
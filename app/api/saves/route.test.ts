@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { createSimulation } from "@/lib/game/engine";
+import { CAMPAIGN_LEVELS } from "@/lib/game/levels";
+import { createSavedGame } from "@/lib/game/save";
+import { quickAuthToken, useTestQuickAuth } from "@/lib/testing/quick-auth";
+import { DELETE, GET, POST } from "./route";
+
+const level = CAMPAIGN_LEVELS[0];
+const save = createSavedGame(
+  createSimulation(level, level.seed),
+  [],
+  new Map(),
+  false,
+);
+
+function saves(
+  method: "GET" | "POST" | "DELETE",
+  token?: string,
+  body?: unknown,
+): Promise<Response> {
+  const request = new Request("https://example.com/api/saves", {
+    method,
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (method === "GET") return GET(request);
+  return method === "POST" ? POST(request) : DELETE(request);
+}
+
+useTestQuickAuth();
+
+describe("/api/saves", () => {
+  it("needs a signed-in player for every method", async () => {
+    expect((await saves("GET")).status).toBe(401);
+    expect((await saves("POST", undefined, { save })).status).toBe(401);
+    expect((await saves("DELETE", "forged")).status).toBe(401);
+  });
+
+  it("keeps each player's save to themselves", async () => {
+    // A fid in the body is ignored; the save belongs to the token's player
+    const stored = await saves("POST", quickAuthToken(20), { fid: 21, save });
+    expect(stored.status).toBe(200);
+
+    expect(
+      (await (await saves("GET", quickAuthToken(21))).json()).save,
+    ).toBeNull();
+    expect(
+      (await (await saves("GET", quickAuthToken(20))).json()).save,
+    ).toEqual(save);
+
+    expect((await saves("DELETE", quickAuthToken(21))).status).toBe(200);
+    expect(
+      (await (await saves("GET", quickAuthToken(20))).json()).save,
+    ).toEqual(save);
+    expect((await saves("DELETE", quickAuthToken(20))).status).toBe(200);
+    expect(
+      (await (await saves("GET", quickAuthToken(20))).json()).save,
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,89 @@
+import { parseSavedGame, type SavedGame } from "@/lib/game/save";
+import { authenticatePlayer } from "@/lib/player-auth";
+import {
+  deleteSavedGame,
+  getSavedGame,
+  storeSavedGame,
+} from "@/lib/saved-games";
+import { NextResponse } from "next/server";
+
+// Generous for a long round's input log, small enough to keep out junk
+const MAX_SAVE_BYTES = 512 * 1024;
+
+// GET /api/saves with a Quick Auth bearer token: the player's saved round, if any
+export async function GET(request: Request) {
+  const auth = await authenticatePlayer(request);
+  if (!auth.authenticated) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    return NextResponse.json(
+      { save: await getSavedGame(auth.fid) },
+      { status: 200 },
+    );
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+// POST /api/saves { save } with a Quick Auth bearer token: replace the player's saved round
+export async function POST(request: Request) {
+  const auth = await authenticatePlayer(request);
+  if (!auth.authenticated) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  let save: SavedGame;
+  try {
+    const text = await request.text();
+    if (text.length > MAX_SAVE_BYTES) {
+      return NextResponse.json({ error: "Save is too large" }, { status: 413 });
+    }
+    save = parseSavedGame(JSON.parse(text).save);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await storeSavedGame(auth.fid, save);
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+// DELETE /api/saves with a Quick Auth bearer token: forget the saved round once it is finished or abandoned
+export async function DELETE(request: Request) {
+  const auth = await authenticatePlayer(request);
+  if (!auth.authenticated) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    await deleteSavedGame(auth.fid);
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { startDailyAttempt } from "@/lib/daily-challenge";
+import { createMemoryStore, setKeyValueStore } from "@/lib/kv-store";
+import { getLeaderboardEntry, parseScoreClaim } from "@/lib/leaderboard";
+import { quickAuthToken, useTestQuickAuth } from "@/lib/testing/quick-auth";
+import { POST } from "./route";
+
+const SIGNED_IN_FID = 42;
+const playerToken = quickAuthToken(SIGNED_IN_FID);
+
+const run = {
+  levelId: "first-sparks",
+  seed: "first-sparks",
+  points: 1000,
+  stars: 3,
+  timeElapsed: 60,
+  treesSavedPercent: 100,
+  inputs: [0, 30],
+};
+
+// A run that clears First Sparks in 172 ticks
+const winningRun = {
+  ...run,
+  points: 1160,
+  timeElapsed: 172 / 30,
+  inputs: [
+    16, 15, 80, 4, 64, 11, 32, 35, 33, 7, 1, 6, 65, 15, 16, 29, 17, 7, 1, 7, 17,
+    1, 1, 20, 65, 15,
+  ],
+};
+
+// A 294-tick win on the ranked Daily Fire of 2026-03-08 under "test-secret"
+const DAILY_DAY = "2026-03-08";
+const dailyRun = {
+  levelId: "free-play",
+  seed: "daily-2026-03-08-66ff17163a9d",
+  points: 1203,
+  stars: 3,
+  timeElapsed: 294 / 30,
+  treesSavedPercent: 100,
+  inputs: [
+    32, 5, 33, 3, 97, 5, 65, 10, 32, 10, 33, 6, 97, 2, 65, 17, 64, 3, 32, 16,
+    33, 7, 1, 1, 65, 10, 16, 4, 17, 8, 1, 9, 17, 2, 16, 1, 80, 4, 64, 3, 33, 3,
+    97, 4, 65, 2, 97, 1, 65, 2, 16, 37, 17, 7, 1, 45, 17, 1, 1, 44, 65, 22,
+  ],
+};
+
+function submit(body: object, token?: string): Promise<Response> {
+  return POST(
+    new Request("https://example.com/api/scores", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify(body),
+    }),
+  );
+}
+
+useTestQuickAuth();
+
+beforeEach(() => {
+  setKeyValueStore(createMemoryStore());
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("POST /api/scores", () => {
+  it("refuses runs without a signed-in player", async () => {
+    expect((await submit(run)).status).toBe(401);
+  });
+
+  it("refuses runs with an invalid token", async () => {
+    expect((await submit(run, "forged")).status).toBe(401);
+  });
+
+  it("refuses runs claimed for another fid", async () => {
+    const response = await submit({ ...run, fid: 7 }, playerToken);
+    expect(response.status).toBe(400);
+  });
+
+  it("verifies runs from the signed-in player", async () => {
+    // The run doesn't reproduce the claimed score, so it is checked and refused
+    const response = await submit(run, playerToken);
+    expect(response.status).toBe(422);
+  });
+
+  it("ranks a run the replay reproduces", async () => {
+    const response = await submit(winningRun, playerToken);
+    expect(response.status).toBe(200);
+    expect((await response.json()).ranks["all-time"]).toBe(1);
+
+    const entry = await getLeaderboardEntry(
+      { kind: "level", levelId: "first-sparks" },
+      "all-time",
+      SIGNED_IN_FID,
+    );
+    expect(entry).toMatchObject({ points: 1160, stars: 3, rank: 1 });
+  });
+
+  it("refuses a Daily Fire run longer than the attempt has been open", async () => {
+    vi.stubEnv("DAILY_SEED_SECRET", "test-secret");
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date(`${DAILY_DAY}T12:00:00Z`));
+    await startDailyAttempt(DAILY_DAY, SIGNED_IN_FID);
+
+    // Submitted the moment the attempt starts, the ten-second run can't have been played
+    const early = await submit(dailyRun, playerToken);
+    expect(early.status).toBe(422);
+    expect((await early.json()).error).toMatch(/longer than/);
+
+    vi.setSystemTime(new Date(`${DAILY_DAY}T12:00:10Z`));
+    expect((await submit(dailyRun, playerToken)).status).toBe(200);
+  });
+});
+
+describe("parseScoreClaim", () => {
+  it("ranks the run under the authenticated fid", () => {
+    const { submission } = parseScoreClaim(run, SIGNED_IN_FID);
+    expect(submission.fid).toBe(SIGNED_IN_FID);
+  });
+});
@@ -0,0 +1,151 @@
+import { completeDailyAttempt, rankedDailySeed } from "@/lib/daily-challenge";
+import { dailyDayFromSeed, utcDay } from "@/lib/game/daily";
+import {
+  getLeaderboard,
+  getLeaderboardEntry,
+  isLeaderboardPeriod,
+  MAX_LEADERBOARD_LIMIT,
+  parseScoreClaim,
+  scopeForRun,
+  submitScore,
+  type LeaderboardEntry,
+  type LeaderboardScope,
+  type ScoreClaim,
+} from "@/lib/leaderboard";
+import { scheduleRecordBeaten } from "@/lib/notification-campaigns";
+import { FREE_PLAY_LEVEL_ID, getLevel } from "@/lib/game/levels";
+import { normalizeSeed } from "@/lib/game/seed";
+import { verifyRun } from "@/lib/game/verify";
+import { authenticatePlayer } from "@/lib/player-auth";
+import { NextResponse } from "next/server";
+
+// Let the all-time leader know someone took their record; never fails the submission
+async function notifyBeatenLeader(
+  scope: LeaderboardScope,
+  leader: LeaderboardEntry,
+  submitterFid: number,
+): Promise<void> {
+  try {
+    await scheduleRecordBeaten({ scope, leader, submitterFid });
+  } catch (error) {
+    console.error("Failed to schedule record beaten notification:", error);
+  }
+}
+
+// POST /api/scores with a Quick Auth bearer token: rank a run for the signed-in player
+export async function POST(request: Request) {
+  const auth = await authenticatePlayer(request);
+  if (!auth.authenticated) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  let claim: ScoreClaim;
+  try {
+    claim = parseScoreClaim(await request.json(), auth.fid);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 400 },
+    );
+  }
+
+  // Re-simulate the run and only rank results the replay reproduces
+  const { submission, inputs } = claim;
+  const level = getLevel(submission.levelId)!;
+  const verification = verifyRun(level, submission.seed, inputs, submission, {
+    hardcore: submission.hardcore,
+  });
+  if (!verification.valid) {
+    return NextResponse.json({ error: verification.reason }, { status: 422 });
+  }
+
+  try {
+    // Daily Fire seeds only rank today's single attempt
+    const dailyDay = dailyDayFromSeed(submission.seed);
+    if (dailyDay !== null) {
+      if (dailyDay !== utcDay()) {
+        return NextResponse.json(
+          { error: "This Daily Fire is over" },
+          { status: 409 },
+        );
+      }
+      if (submission.seed !== rankedDailySeed(dailyDay)) {
+        return NextResponse.json(
+          { error: "Only the ranked Daily Fire forest is ranked" },
+          { status: 409 },
+        );
+      }
+      const completion = await completeDailyAttempt(
+        dailyDay,
+        submission.fid,
+        verification.score.timeElapsed,
+      );
+      if (!completion.completed) {
+        return NextResponse.json(
+          { error: completion.error },
+          { status: completion.code === "too_long" ? 422 : 409 },
+        );
+      }
+    }
+
+    const scope = scopeForRun(submission.levelId, submission.seed);
+    const [leader] = await getLeaderboard(scope, "all-time", 1);
+    const ranks = await submitScore({
+      ...submission,
+      timeElapsed: verification.score.timeElapsed,
+      treesSavedPercent: verification.score.treesSavedPercent,
+    });
+    if (ranks["all-time"] === 1 && leader) {
+      await notifyBeatenLeader(scope, leader, auth.fid);
+    }
+    return NextResponse.json({ success: true, ranks }, { status: 200 });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+// GET /api/scores?level=<id>&period=daily|weekly|all-time[&seed=<seed>][&limit=10][&fid=<fid>]
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const period = params.get("period") ?? "all-time";
+  if (!isLeaderboardPeriod(period)) {
+    return NextResponse.json({ error: "Unknown period" }, { status: 400 });
+  }
+
+  const level = getLevel(params.get("level") ?? FREE_PLAY_LEVEL_ID);
+  const seed = level?.seed || normalizeSeed(params.get("seed"));
+  if (!level || !seed) {
+    return NextResponse.json(
+      { error: "A known level, or a seed for free play, is required" },
+      { status: 400 },
+    );
+  }
+
+  const limit = Math.min(
+    MAX_LEADERBOARD_LIMIT,
+    Math.max(1, Number.parseInt(params.get("limit") ?? "10", 10) || 10),
+  );
+  const fid = Number.parseInt(params.get("fid") ?? "", 10);
+  const scope = scopeForRun(level.id, seed);
+
+  try {
+    const entries = await getLeaderboard(scope, period, limit);
+    const player =
+      fid > 0 ? await getLeaderboardEntry(scope, period, fid) : null;
+    return NextResponse.json({ period, entries, player }, { status: 200 });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,199 @@
+import { generateKeyPairSync, sign } from "crypto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  onchainKeyRegistryReader,
+  setKeyRegistryReader,
+} from "@/lib/key-registry";
+import { createMemoryStore, setKeyValueStore } from "@/lib/kv-store";
+import { getUserNotificationDetails } from "@/lib/notification";
+import { claimEventOrder } from "@/lib/webhook-events";
+import { POST } from "./route";
+
+const FID = 7;
+const { publicKey, privateKey } = generateKeyPairSync("ed25519");
+const appKey = `0x${Buffer.from(
+  publicKey.export({ format: "jwk" }).x!,
+  "base64url",
+).toString("hex")}` as const;
+
+const details = {
+  url: "https://client.example.com/notify",
+  token: "token-1",
+};
+
+// A JSON Farcaster Signature over the payload, as a client sends it
+function signedEvent(payload: object) {
+  const encode = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+  const header = encode({ fid: FID, type: "app_key", key: appKey });
+  const body = encode(payload);
+  const signature = sign(
+    null,
+    Buffer.from(`${header}.${body}`),
+    privateKey,
+  ).toString("base64url");
+  return { header, payload: body, signature };
+}
+
+function deliver(event: object): Promise<Response> {
+  return POST(
+    new Request("https://example.com/api/webhook", {
+      method: "POST",
+      body: JSON.stringify(event),
+    }),
+  );
+}
+
+const fetchMock = vi.fn(async () =>
+  Response.json({
+    result: {
+      successfulTokens: [details.token],
+      invalidTokens: [],
+      rateLimitedTokens: [],
+    },
+  }),
+);
+
+beforeEach(() => {
+  setKeyValueStore(createMemoryStore());
+  setKeyRegistryReader(async (fid, key) => fid === FID && key === appKey);
+  fetchMock.mockClear();
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+  setKeyRegistryReader(onchainKeyRegistryReader);
+  vi.unstubAllGlobals();
+});
+
+describe("/api/webhook", () => {
+  it("rejects a payload that wasn't signed by the header's key", async () => {
+    const event = signedEvent({ event: "frame_removed" });
+    const forged = {
+      ...event,
+      payload: Buffer.from(
+        JSON.stringify({
+          event: "notifications_enabled",
+          notificationDetails: details,
+        }),
+      ).toString("base64url"),
+    };
+    const response = await deliver(forged);
+    expect(response.status).toBe(401);
+    expect((await response.json()).code).toBe("invalid_signature");
+  });
+
+  it("applies a player's repeated actions, each signed at its own time", async () => {
+    const now = Date.now();
+    const removed = (timestamp: number) =>
+      signedEvent({ event: "frame_removed", timestamp });
+    const added = signedEvent({
+      event: "frame_added",
+      notificationDetails: details,
+      timestamp: now - 2000,
+    });
+
+    // Remove, add back and remove again
+    expect(await (await deliver(removed(now - 3000))).json()).toEqual({
+      success: true,
+    });
+    expect(await (await deliver(added)).json()).toEqual({ success: true });
+    expect(await getUserNotificationDetails(FID)).toEqual(details);
+    expect(await (await deliver(removed(now - 1000))).json()).toEqual({
+      success: true,
+    });
+    expect(await getUserNotificationDetails(FID)).toBeNull();
+  });
+
+  it("won't handle a replayed event without a timestamp again", async () => {
+    const added = signedEvent({
+      event: "frame_added",
+      notificationDetails: details,
+    });
+    const removed = signedEvent({ event: "frame_removed" });
+
+    expect((await deliver(added)).status).toBe(200);
+    expect((await deliver(removed)).status).toBe(200);
+    const replay = await deliver(added);
+    expect(replay.status).toBe(200);
+    expect((await replay.json()).duplicate).toBe(true);
+    expect(await getUserNotificationDetails(FID)).toBeNull();
+  });
+
+  it("handles concurrent deliveries of one event once", async () => {
+    const enabled = signedEvent({
+      event: "notifications_enabled",
+      notificationDetails: details,
+    });
+    const bodies = await Promise.all(
+      [deliver(enabled), deliver(enabled)].map(async (response) =>
+        (await response).json(),
+      ),
+    );
+    expect(bodies.filter((body) => body.duplicate)).toHaveLength(1);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("welcomes the player once when a client retries an event", async () => {
+    const enabled = signedEvent({
+      event: "notifications_enabled",
+      notificationDetails: details,
+      timestamp: Date.now(),
+    });
+
+    expect((await deliver(enabled)).status).toBe(200);
+    expect((await deliver(enabled)).status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("won't let an older event undo a newer one", async () => {
+    const now = Date.now();
+    const enabled = (timestamp: number) =>
+      signedEvent({
+        event: "notifications_enabled",
+        notificationDetails: details,
+        timestamp,
+      });
+    const disabled = signedEvent({
+      event: "notifications_disabled",
+      timestamp: now,
+    });
+
+    expect((await deliver(enabled(now - 2000))).status).toBe(200);
+    expect((await deliver(disabled)).status).toBe(200);
+
+    // Signed before the newest event but delivered after it
+    const late = await deliver(enabled(now - 1000));
+    expect(late.status).toBe(200);
+    expect((await late.json()).superseded).toBe(true);
+
+    const replay = await deliver(enabled(now - 2000));
+    expect((await replay.json()).duplicate).toBe(true);
+    expect(await getUserNotificationDetails(FID)).toBeNull();
+  });
+
+  it("refuses events signed too long ago", async () => {
+    const response = await deliver(
+      signedEvent({
+        event: "frame_removed",
+        timestamp: Date.now() - 60 * 60 * 1000,
+      }),
+    );
+    expect(response.status).toBe(400);
+    expect((await response.json()).code).toBe("stale_event");
+  });
+});
+
+describe("claimEventOrder", () => {
+  it("lets only the later of two racing events through", async () => {
+    const now = Date.now();
+    expect(
+      await Promise.all([
+        claimEventOrder(FID, now),
+        claimEventOrder(FID, now - 1),
+      ]),
+    ).toEqual([true, false]);
+    // Another event from the same moment still goes through
+    expect(await claimEventOrder(FID, now)).toBe(true);
+  });
+});
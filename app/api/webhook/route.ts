@@ -1,123 +1,132 @@
+import { verifyJfs } from "@/lib/jfs";
+import { isActiveAppKey } from "@/lib/key-registry";
 import {
+  getUserNotificationDetails,
   setUserNotificationDetails,
   deleteUserNotificationDetails,
 } from "@/lib/notification";
 import { sendFrameNotification } from "@/lib/notification-client";
-import { http } from "viem";
-import { createPublicClient } from "viem";
-import { optimism } from "viem/chains";
+import {
+  claimEventOrder,
+  claimWebhookEvent,
+  eventNonce,
+  parseWebhookEvent,
+  releaseWebhookEvent,
+} from "@/lib/webhook-events";
+import type { MiniAppNotificationDetails } from "@farcaster/frame-sdk";
 
 const appName = process.env.NEXT_PUBLIC_ONCHAINKIT_PROJECT_NAME;
 
-const KEY_REGISTRY_ADDRESS = "0x00000000Fc1237824fb747aBDE0FF18990E59b7e";
-
-const KEY_REGISTRY_ABI = [
-  {
-    inputs: [
-      { name: "fid", type: "uint256" },
-      { name: "key", type: "bytes" },
-    ],
-    name: "keyDataOf",
-    outputs: [
-      {
-        components: [
-          { name: "state", type: "uint8" },
-          { name: "keyType", type: "uint32" },
-        ],
-        name: "",
-        type: "tuple",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-] as const;
-
-async function verifyFidOwnership(fid: number, appKey: `0x${string}`) {
-  const client = createPublicClient({
-    chain: optimism,
-    transport: http(),
-  });
-
-  try {
-    const result = await client.readContract({
-      address: KEY_REGISTRY_ADDRESS,
-      abi: KEY_REGISTRY_ABI,
-      functionName: "keyDataOf",
-      args: [BigInt(fid), appKey],
-    });
-
-    return result.state === 1 && result.keyType === 1;
-  } catch (error) {
-    console.error("Key Registry verification failed:", error);
-    return false;
-  }
+// Client errors carry a stable code alongside the message
+function rejection(status: number, code: string, error: string): Response {
+  return Response.json({ success: false, code, error }, { status });
 }
 
-function decode(encoded: string) {
-  return JSON.parse(Buffer.from(encoded, "base64url").toString("utf-8"));
+// Store the details and welcome the player, unless a delivery of this event already did
+async function subscribe(
+  fid: number,
+  notificationDetails: MiniAppNotificationDetails,
+  body: string,
+): Promise<void> {
+  const current = await getUserNotificationDetails(fid);
+  if (
+    current?.token === notificationDetails.token &&
+    current.url === notificationDetails.url
+  ) {
+    return;
+  }
+  await setUserNotificationDetails(fid, notificationDetails);
+  await sendFrameNotification({ fid, title: `Welcome to ${appName}`, body });
 }
 
 export async function POST(request: Request) {
-  const requestJson = await request.json();
-
-  const { header: encodedHeader, payload: encodedPayload } = requestJson;
+  let requestJson: unknown;
+  try {
+    requestJson = await request.json();
+  } catch {
+    return rejection(400, "invalid_json", "Body must be JSON");
+  }
 
-  const headerData = decode(encodedHeader);
-  const event = decode(encodedPayload);
+  const jfs = verifyJfs(requestJson);
+  if (!jfs.valid) {
+    return rejection(
+      jfs.code === "invalid_signature" ? 401 : 400,
+      jfs.code,
+      jfs.error,
+    );
+  }
 
-  const { fid, key } = headerData;
+  const parsed = parseWebhookEvent(jfs.payload);
+  if (!parsed.valid) {
+    return rejection(400, parsed.code, parsed.error);
+  }
+  const { event, timestamp } = parsed;
+  const { fid, key } = jfs.header;
 
-  const valid = await verifyFidOwnership(fid, key);
+  if (!(await isActiveAppKey(fid, key))) {
+    return rejection(401, "inactive_key", "Invalid FID ownership");
+  }
 
-  if (!valid) {
-    return Response.json(
-      { success: false, error: "Invalid FID ownership" },
-      { status: 401 },
-    );
+  // Acknowledged either way, so the client stops redelivering
+  const nonce = eventNonce(jfs.signature);
+  if (!(await claimWebhookEvent(nonce, timestamp))) {
+    return Response.json({ success: true, duplicate: true });
+  }
+  // A replayed older event must not undo a newer one, such as re-adding after a removal
+  if (timestamp !== undefined && !(await claimEventOrder(fid, timestamp))) {
+    return Response.json({ success: true, superseded: true });
   }
 
-  switch (event.event) {
-    case "frame_added":
-      console.log(
-        "frame_added",
-        "event.notificationDetails",
-        event.notificationDetails,
-      );
-      if (event.notificationDetails) {
-        await setUserNotificationDetails(fid, event.notificationDetails);
-        await sendFrameNotification({
-          fid,
-          title: `Welcome to ${appName}`,
-          body: `Thank you for adding ${appName}`,
-        });
-      } else {
+  try {
+    switch (event.event) {
+      case "frame_added":
+        console.log(
+          "frame_added",
+          "event.notificationDetails",
+          event.notificationDetails,
+        );
+        if (event.notificationDetails) {
+          await subscribe(
+            fid,
+            event.notificationDetails,
+            `Thank you for adding ${appName}`,
+          );
+        } else {
+          await deleteUserNotificationDetails(fid);
+        }
+
+        break;
+      case "frame_removed": {
+        console.log("frame_removed");
         await deleteUserNotificationDetails(fid);
+        break;
       }
+      case "notifications_enabled": {
+        console.log("notifications_enabled", event.notificationDetails);
+        await subscribe(
+          fid,
+          event.notificationDetails,
+          `Thank you for enabling notifications for ${appName}`,
+        );
 
-      break;
-    case "frame_removed": {
-      console.log("frame_removed");
-      await deleteUserNotificationDetails(fid);
-      break;
-    }
-    case "notifications_enabled": {
-      console.log("notifications_enabled", event.notificationDetails);
-      await setUserNotificationDetails(fid, event.notificationDetails);
-      await sendFrameNotification({
-        fid,
-        title: `Welcome to ${appName}`,
-        body: `Thank you for enabling notifications for ${appName}`,
-      });
-
-      break;
-    }
-    case "notifications_disabled": {
-      console.log("notifications_disabled");
-      await deleteUserNotificationDetails(fid);
+        break;
+      }
+      case "notifications_disabled": {
+        console.log("notifications_disabled");
+        await deleteUserNotificationDetails(fid);
 
-      break;
+        break;
+      }
     }
+  } catch (error) {
+    await releaseWebhookEvent(nonce);
+    return Response.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
   }
 
   return Response.json({ success: true });
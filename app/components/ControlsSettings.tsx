@@ -0,0 +1,76 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  bindingLabel,
+  bindKey,
+  DEFAULT_BINDINGS,
+  INPUT_ACTIONS,
+  type InputAction,
+  type KeyBindings,
+} from "@/lib/input/bindings";
+
+type ControlsSettingsProps = {
+  bindings: KeyBindings;
+  onChange: (bindings: KeyBindings) => void;
+};
+
+export function ControlsSettings({
+  bindings,
+  onChange,
+}: ControlsSettingsProps) {
+  // The action waiting for its new key, if any
+  const [listening, setListening] = useState<InputAction | null>(null);
+
+  useEffect(() => {
+    if (!listening) return;
+
+    // Capture the key before the game's own key handling sees it
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key !== "Escape") {
+        onChange(bindKey(bindings, listening, e.key.toLowerCase()));
+      }
+      setListening(null);
+    };
+
+    window.addEventListener("keydown", handleKeyDown, { capture: true });
+    return () =>
+      window.removeEventListener("keydown", handleKeyDown, { capture: true });
+  }, [listening, bindings, onChange]);
+
+  return (
+    <details className="rounded border p-2 text-sm">
+      <summary className="cursor-pointer font-semibold">⌨️ Controls</summary>
+      <p className="mt-1 text-xs text-gray-500">
+        Click a key to rebind it. Gamepads use the left stick to move, the right
+        stick to turn, A or the right trigger to use a tool, X to head for
+        water, the bumpers to switch tools and Start to pause.
+      </p>
+      <div className="mt-2 space-y-1">
+        {INPUT_ACTIONS.map(({ action, label }) => (
+          <div key={action} className="flex items-center justify-between">
+            <span>{label}</span>
+            <button
+              type="button"
+              onClick={() => setListening(action)}
+              className="min-w-20 rounded border px-2 py-0.5 text-xs hover:bg-orange-50"
+            >
+              {listening === action
+                ? "Press a key… (Esc cancels)"
+                : bindingLabel(bindings, action)}
+            </button>
+          </div>
+        ))}
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        className="mt-2 w-full"
+        onClick={() => onChange(DEFAULT_BINDINGS)}
+      >
+        Reset to defaults
+      </Button>
+    </details>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { MAX_COOP_PLAYERS } from "@/lib/game/coop";
+import { normalizeSeed } from "@/lib/game/seed";
+import type { LobbyPlayer, RoomPhase } from "@/lib/multiplayer/protocol";
+
+export type CoopRoomView = {
+  roomId: string;
+  // Set once the room has welcomed us
+  playerId: string | null;
+  phase: RoomPhase;
+  hostId: string | null;
+  players: LobbyPlayer[];
+  error: string | null;
+};
+
+type CoopLobbyProps = {
+  room: CoopRoomView | null;
+  onJoin: (roomId: string) => void;
+  onStart: () => void;
+  onLeave: () => void;
+};
+
+export function CoopLobby({ room, onJoin, onStart, onLeave }: CoopLobbyProps) {
+  const [code, setCode] = useState("");
+
+  if (!room) {
+    const roomId = normalizeSeed(code);
+    return (
+      <div className="rounded border border-sky-300 bg-sky-50 p-3 text-sm space-y-2">
+        <h3 className="font-semibold">🚒 Co-op</h3>
+        <p className="text-xs text-gray-600">
+          Fight the same fire with up to {MAX_COOP_PLAYERS - 1} friends. A new
+          room uses the level and forest selected below.
+        </p>
+        <div className="flex gap-2">
+          <input
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="Room code"
+            className="min-w-0 flex-1 rounded border px-2 font-mono"
+          />
+          <Button
+            onClick={() => roomId && onJoin(roomId)}
+            disabled={!roomId}
+            variant="outline"
+            size="sm"
+          >
+            Join
+          </Button>
+        </div>
+        <Button
+          onClick={() => onJoin(Math.random().toString(36).slice(2, 7))}
+          className="w-full bg-sky-500 hover:bg-sky-600"
+        >
+          Create room
+        </Button>
+      </div>
+    );
+  }
+
+  const isHost = !!room.playerId && room.playerId === room.hostId;
+
+  return (
+    <div className="rounded border border-sky-300 bg-sky-50 p-3 text-sm space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">🚒 Co-op room</h3>
+        <span className="font-mono text-xs text-gray-500">{room.roomId}</span>
+      </div>
+      {room.error && <p className="text-xs text-red-600">{room.error}</p>}
+
+      {room.playerId ? (
+        <ul className="space-y-1">
+          {room.players.map((player) => (
+            <li key={player.id} className="flex justify-between text-xs">
+              <span>
+                {player.name}
+                {player.id === room.playerId && " (you)"}
+              </span>
+              {player.id === room.hostId && (
+                <span className="text-gray-500">host</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        !room.error && <p className="text-xs text-gray-500">Connecting…</p>
+      )}
+
+      {room.playerId && (
+        <p className="text-xs text-gray-500">
+          {isHost
+            ? "Share the room code, then start when your crew is in."
+            : "Waiting for the host to start the round."}
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        {isHost && (
+          <Button
+            onClick={onStart}
+            disabled={room.phase === "playing"}
+            className="flex-1 bg-sky-500 hover:bg-sky-600"
+          >
+            Start round
+          </Button>
+        )}
+        <Button onClick={onLeave} variant="outline" className="flex-1">
+          Leave
+        </Button>
+      </div>
+    </div>
+  );
+}
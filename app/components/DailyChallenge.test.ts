@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { fetchDailyStatus } from "./DailyChallenge";
+
+const status = {
+  day: "2026-03-01",
+  seed: "daily-2026-03-01-abc",
+  attempt: null,
+};
+
+// Like the real SDK, fetch reads the token through `this`
+const { quickAuth } = vi.hoisted(() => ({
+  quickAuth: {
+    token: "player-token",
+    async fetch(this: { token: string }, url: string, init?: RequestInit) {
+      return Response.json({ token: this.token, url, init });
+    },
+  },
+}));
+
+vi.mock("@farcaster/miniapp-sdk", () => ({ sdk: { quickAuth } }));
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("fetchDailyStatus", () => {
+  it("asks with the player's Quick Auth token when signed in", async () => {
+    const body = await fetchDailyStatus(42);
+    expect(body).toMatchObject({ token: "player-token", url: "/api/daily" });
+  });
+
+  it("asks without a token otherwise", async () => {
+    const fetchMock = vi.fn(async () => Response.json(status));
+    vi.stubGlobal("fetch", fetchMock);
+    expect(await fetchDailyStatus(undefined)).toEqual(status);
+    expect(fetchMock).toHaveBeenCalledOnce();
+  });
+
+  it("surfaces the server's error", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        Response.json({ error: "Daily Fire is closed" }, { status: 503 }),
+      ),
+    );
+    await expect(fetchDailyStatus(undefined)).rejects.toThrow(
+      "Daily Fire is closed",
+    );
+  });
+});
@@ -0,0 +1,123 @@
+import { useEffect, useState } from "react";
+import { sdk } from "@farcaster/miniapp-sdk";
+import { Button } from "@/components/ui/button";
+import type { DailyAttempt } from "@/lib/daily-challenge";
+
+type DailyChallengeProps = {
+  // Only players signed in through Farcaster get a ranked attempt
+  fid?: number;
+  onPlay: (seed: string, ranked: boolean) => void;
+};
+
+export type DailyStatus = {
+  day: string;
+  seed: string;
+  attempt: DailyAttempt | null;
+};
+
+// Signed-in players see their attempt, and the ranked forest once it's claimed
+export async function fetchDailyStatus(
+  fid: number | undefined,
+  signal?: AbortSignal,
+): Promise<DailyStatus> {
+  // Called on sdk.quickAuth, which the SDK's fetch needs as `this`
+  const response = fid
+    ? await sdk.quickAuth.fetch("/api/daily", { signal })
+    : await fetch("/api/daily", { signal });
+  const body = await response.json();
+  if (!response.ok) throw new Error(body.error ?? "Request failed");
+  return body;
+}
+
+export function DailyChallenge({ fid, onPlay }: DailyChallengeProps) {
+  const [status, setStatus] = useState<DailyStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [starting, setStarting] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    fetchDailyStatus(fid, controller.signal)
+      .then(setStatus)
+      .catch((fetchError: unknown) => {
+        if (controller.signal.aborted) return;
+        setError(
+          fetchError instanceof Error ? fetchError.message : "Request failed",
+        );
+      });
+
+    return () => controller.abort();
+  }, [fid]);
+
+  const startRanked = async () => {
+    if (!status || !fid) return;
+    setStarting(true);
+    setError(null);
+    try {
+      const response = await sdk.quickAuth.fetch("/api/daily", {
+        method: "POST",
+      });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error ?? "Request failed");
+      onPlay(body.seed, true);
+    } catch (startError) {
+      setError(
+        startError instanceof Error ? startError.message : "Request failed",
+      );
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  if (!status) {
+    return (
+      <div className="rounded border border-orange-300 bg-orange-50 p-3 text-sm">
+        <h3 className="font-semibold">🔥 Daily Fire</h3>
+        <p className="text-xs text-gray-500">{error ?? "Loading…"}</p>
+      </div>
+    );
+  }
+
+  const canRank = !!fid && !status.attempt;
+
+  return (
+    <div className="rounded border border-orange-300 bg-orange-50 p-3 text-sm space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">🔥 Daily Fire</h3>
+        <span className="text-xs text-gray-500">{status.day} (UTC)</span>
+      </div>
+      <p className="text-xs text-gray-600">
+        Everyone fights the same forest today. Your first attempt is the one
+        that counts on the daily leaderboard.
+      </p>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {canRank ? (
+        <Button
+          onClick={startRanked}
+          disabled={starting}
+          className="w-full bg-orange-500 hover:bg-orange-600"
+        >
+          Start ranked attempt
+        </Button>
+      ) : (
+        <>
+          <p className="text-xs text-gray-500">
+            {fid
+              ? status.attempt?.submittedAt
+                ? "You've posted today's ranked score. Come back tomorrow!"
+                : "You've used today's ranked attempt."
+              : "Open the game in Farcaster to play a ranked attempt."}
+          </p>
+          <Button
+            onClick={() => onPlay(status.seed, false)}
+            variant="outline"
+            className="w-full"
+          >
+            Practice (unranked)
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
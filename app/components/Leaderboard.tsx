@@ -0,0 +1,135 @@
+import { useEffect, useState } from "react";
+import type { LeaderboardEntry, LeaderboardPeriod } from "@/lib/leaderboard";
+
+type LeaderboardProps = {
+  levelId: string;
+  seed: string;
+  // Highlights this player and shows their rank even outside the top entries
+  fid?: number;
+  // Bump to refetch, e.g. once the player's own run has been submitted
+  refreshKey?: number;
+};
+
+type LeaderboardResponse = {
+  entries: LeaderboardEntry[];
+  player: LeaderboardEntry | null;
+};
+
+const PERIOD_LABELS: Record<LeaderboardPeriod, string> = {
+  daily: "Today",
+  weekly: "This week",
+  "all-time": "All time",
+};
+
+function entryName(entry: LeaderboardEntry): string {
+  return entry.username ? `@${entry.username}` : `fid ${entry.fid}`;
+}
+
+export function Leaderboard({
+  levelId,
+  seed,
+  fid,
+  refreshKey = 0,
+}: LeaderboardProps) {
+  const [period, setPeriod] = useState<LeaderboardPeriod>("daily");
+  const [board, setBoard] = useState<LeaderboardResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const params = new URLSearchParams({ level: levelId, seed, period });
+    if (fid) params.set("fid", String(fid));
+
+    setError(null);
+    fetch(`/api/scores?${params}`, { signal: controller.signal })
+      .then(async (response) => {
+        const body = await response.json();
+        if (!response.ok) throw new Error(body.error ?? "Request failed");
+        setBoard(body);
+      })
+      .catch((fetchError: unknown) => {
+        if (controller.signal.aborted) return;
+        setBoard(null);
+        setError(
+          fetchError instanceof Error ? fetchError.message : "Request failed",
+        );
+      });
+
+    return () => controller.abort();
+  }, [levelId, seed, period, fid, refreshKey]);
+
+  const playerOffBoard =
+    board?.player &&
+    !board.entries.some((entry) => entry.fid === board.player?.fid);
+
+  return (
+    <div className="rounded border p-3 text-sm text-left space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">🏆 Leaderboard</h3>
+        <div className="flex gap-1">
+          {(Object.keys(PERIOD_LABELS) as LeaderboardPeriod[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setPeriod(option)}
+              className={`rounded px-2 py-0.5 text-xs ${
+                option === period
+                  ? "bg-orange-500 text-white"
+                  : "bg-gray-100 text-gray-600"
+              }`}
+            >
+              {PERIOD_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      {!error && !board && <p className="text-xs text-gray-500">Loading…</p>}
+      {board && !board.entries.length && (
+        <p className="text-xs text-gray-500">
+          No scores yet — clear the fires to claim the top spot.
+        </p>
+      )}
+
+      {board && board.entries.length > 0 && (
+        <ol className="space-y-1">
+          {board.entries.map((entry) => (
+            <li
+              key={entry.fid}
+              className={`flex justify-between ${
+                entry.fid === fid ? "font-semibold text-orange-600" : ""
+              }`}
+            >
+              <span>
+                {entry.rank}. {entryName(entry)}{" "}
+                <span className="text-xs">{"⭐".repeat(entry.stars)}</span>
+                {entry.hardcore && (
+                  <span className="text-xs" title="Hardcore">
+                    {" "}
+                    💀
+                  </span>
+                )}
+              </span>
+              <span>{entry.points}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {playerOffBoard && board?.player && (
+        <p className="border-t pt-1 flex justify-between font-semibold text-orange-600">
+          <span>
+            {board.player.rank}. {entryName(board.player)}
+          </span>
+          <span>{board.player.points}</span>
+        </p>
+      )}
+      {!fid && (
+        <p className="text-xs text-gray-400">
+          Open the game in Farcaster to post your own scores.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { Button } from "@/components/ui/button";
+import {
+  CAMPAIGN_LEVELS,
+  FREE_PLAY_LEVEL,
+  type LevelDefinition,
+} from "@/lib/game/levels";
+import { isLevelUnlocked, type CampaignProgress } from "@/lib/game/progress";
+
+type LevelSelectProps = {
+  progress: CampaignProgress;
+  onSelect: (level: LevelDefinition) => void;
+};
+
+function formatTimeLimit(level: LevelDefinition): string {
+  return level.timeLimit === null
+    ? "No time limit"
+    : `${Math.round(level.timeLimit / 60)} min limit`;
+}
+
+export function LevelSelect({ progress, onSelect }: LevelSelectProps) {
+  return (
+    <div className="space-y-2">
+      {CAMPAIGN_LEVELS.map((level, index) => {
+        const unlocked = isLevelUnlocked(progress, level.id);
+        const result = progress[level.id];
+
+        return (
+          <button
+            key={level.id}
+            type="button"
+            disabled={!unlocked}
+            onClick={() => onSelect(level)}
+            className="w-full text-left rounded border p-3 transition-colors hover:bg-orange-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <div className="flex items-center justify-between">
+              <span className="font-semibold">
+                {index + 1}. {level.name}
+              </span>
+              <span className="text-sm">
+                {unlocked
+                  ? [1, 2, 3]
+                      .map((star) =>
+                        star <= (result?.bestStars ?? 0) ? "⭐" : "☆",
+                      )
+                      .join("")
+                  : "🔒"}
+              </span>
+            </div>
+            <p className="text-xs text-gray-600">{level.description}</p>
+            <p className="text-xs text-gray-400">
+              {formatTimeLimit(level)}
+              {level.objectives.minTreesSavedPercent !== undefined &&
+                ` • Save ${level.objectives.minTreesSavedPercent}% of trees`}
+            </p>
+          </button>
+        );
+      })}
+
+      <Button
+        onClick={() => onSelect(FREE_PLAY_LEVEL)}
+        variant="outline"
+        className="w-full"
+      >
+        🌲 {FREE_PLAY_LEVEL.name} — {FREE_PLAY_LEVEL.description}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+import { useEffect, useRef } from "react";
+import { GRID_SIZE } from "@/lib/game/constants";
+import type { SimulationState } from "@/lib/game/engine";
+import { cellKey } from "@/lib/game/fire-simulation";
+import type { PlayerSnapshot } from "@/lib/multiplayer/protocol";
+
+type MinimapProps = {
+  state: SimulationState;
+  // Other firefighters in a co-op round
+  teammates: PlayerSnapshot[];
+  expanded: boolean;
+  onToggleExpanded: () => void;
+};
+
+// Side of the corner map, in CSS pixels
+const COMPACT_SIZE = 144;
+
+const GROUND_COLORS = {
+  bare: "#7a6648",
+  water: "#2f6fb0",
+  burnt: "#2b2118",
+};
+
+// Dark red for smouldering cells through orange to yellow for the hottest
+function heatColor(intensity: number): string {
+  const heat = Math.max(0, Math.min(1, intensity));
+  return `hsl(${Math.round(heat * 55)}, 100%, ${Math.round(35 + heat * 25)}%)`;
+}
+
+// Draw the world top-down with north (-z) up, scaled to fill a square canvas
+function drawMinimap(
+  context: CanvasRenderingContext2D,
+  size: number,
+  state: SimulationState,
+  teammates: PlayerSnapshot[],
+): void {
+  const { worldSize } = state.level;
+  const scale = size / worldSize;
+  const toMap = (value: number): number => (value + worldSize / 2) * scale;
+  const cellSize = GRID_SIZE * scale;
+
+  // Ground, shaded lighter on higher terrain
+  const { heights, samplesPerSide } = state.terrain;
+  const highest = Math.max(...heights) || 1;
+  for (let j = 0; j < samplesPerSide - 1; j++) {
+    for (let i = 0; i < samplesPerSide - 1; i++) {
+      const height = heights[j * samplesPerSide + i] / highest;
+      context.fillStyle = `hsl(100, 35%, ${Math.round(18 + height * 14)}%)`;
+      context.fillRect(
+        i * cellSize,
+        j * cellSize,
+        cellSize + 0.5,
+        cellSize + 0.5,
+      );
+    }
+  }
+
+  // Fuel that isn't plain ground
+  for (const [key, cell] of state.fuel) {
+    const color = cell.burnt
+      ? GROUND_COLORS.burnt
+      : cell.type === "bare" || cell.type === "water"
+        ? GROUND_COLORS[cell.type]
+        : null;
+    if (!color) continue;
+    const [i, j] = key.split("-").map(Number);
+    context.fillStyle = color;
+    context.fillRect(
+      toMap(i * GRID_SIZE),
+      toMap(j * GRID_SIZE),
+      cellSize + 0.5,
+      cellSize + 0.5,
+    );
+  }
+
+  // Standing trees
+  context.fillStyle = "#1f7a1f";
+  for (const tree of state.trees) {
+    if (state.fuel.get(cellKey(tree.x, tree.z))?.burnt) continue;
+    context.beginPath();
+    context.arc(
+      toMap(tree.x),
+      toMap(tree.z),
+      Math.max(1.5, tree.radius * scale),
+      0,
+      Math.PI * 2,
+    );
+    context.fill();
+  }
+
+  // Refill stations
+  context.strokeStyle = "#4a90e2";
+  context.fillStyle = "rgba(74, 144, 226, 0.4)";
+  context.lineWidth = 1.5;
+  for (const station of state.refillStations) {
+    context.beginPath();
+    context.arc(
+      toMap(station.position.x),
+      toMap(station.position.z),
+      station.radius * scale,
+      0,
+      Math.PI * 2,
+    );
+    context.fill();
+    context.stroke();
+  }
+
+  // The fire front and embers in flight
+  for (const fire of state.fires.values()) {
+    context.fillStyle = heatColor(fire.intensity);
+    context.fillRect(toMap(fire.x), toMap(fire.z), cellSize, cellSize);
+  }
+  context.fillStyle = "#ffb347";
+  for (const ember of state.embers) {
+    context.fillRect(toMap(ember.x) - 1, toMap(ember.z) - 1, 2, 2);
+  }
+
+  // Teammates, then the player on top, as arrows pointing where they face
+  const drawMarker = (
+    x: number,
+    z: number,
+    rotation: number,
+    color: string,
+  ): void => {
+    const radius = Math.max(4, size / 40);
+    context.save();
+    context.translate(toMap(x), toMap(z));
+    // Rotation 0 faces -z, which is up on the map
+    context.rotate(rotation);
+    context.beginPath();
+    context.moveTo(0, -radius * 1.4);
+    context.lineTo(radius, radius);
+    context.lineTo(0, radius * 0.4);
+    context.lineTo(-radius, radius);
+    context.closePath();
+    context.fillStyle = color;
+    context.fill();
+    context.strokeStyle = "#000";
+    context.lineWidth = 1;
+    context.stroke();
+    context.restore();
+  };
+  for (const teammate of teammates) {
+    if (teammate.caught) continue;
+    drawMarker(
+      teammate.position.x,
+      teammate.position.z,
+      teammate.rotation,
+      "#35a7ff",
+    );
+  }
+  drawMarker(
+    state.player.position.x,
+    state.player.position.z,
+    state.player.rotation,
+    "#ffffff",
+  );
+
+  // Wind arrow in the top right corner, longer in stronger wind
+  const center = { x: size - 18, y: 18 };
+  const length = Math.min(14, 5 + state.windSpeed * 4);
+  const angle = Math.atan2(state.windDirection.z, state.windDirection.x);
+  context.save();
+  context.translate(center.x, center.y);
+  context.fillStyle = "rgba(0, 0, 0, 0.5)";
+  context.beginPath();
+  context.arc(0, 0, 15, 0, Math.PI * 2);
+  context.fill();
+  context.rotate(angle);
+  context.strokeStyle = "#facc15";
+  context.fillStyle = "#facc15";
+  context.lineWidth = 2;
+  context.beginPath();
+  context.moveTo(-length / 2, 0);
+  context.lineTo(length / 2, 0);
+  context.stroke();
+  context.beginPath();
+  context.moveTo(length / 2 + 3, 0);
+  context.lineTo(length / 2 - 2, -4);
+  context.lineTo(length / 2 - 2, 4);
+  context.closePath();
+  context.fill();
+  context.restore();
+}
+
+export function Minimap({
+  state,
+  teammates,
+  expanded,
+  onToggleExpanded,
+}: MinimapProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const size = expanded
+    ? Math.floor(Math.min(window.innerWidth, window.innerHeight) * 0.9)
+    : COMPACT_SIZE;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context) return;
+
+    // Draw at device resolution so the map stays crisp on high-DPI screens
+    const pixelRatio = window.devicePixelRatio || 1;
+    canvas.width = size * pixelRatio;
+    canvas.height = size * pixelRatio;
+    context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    drawMinimap(context, size, state, teammates);
+  }, [state, teammates, size]);
+
+  const map = (
+    <canvas
+      ref={canvasRef}
+      style={{ width: size, height: size }}
+      className="block rounded-lg border-2 border-black border-opacity-60"
+    />
+  );
+
+  if (expanded) {
+    return (
+      <button
+        type="button"
+        onClick={onToggleExpanded}
+        className="fixed inset-0 z-40 flex flex-col items-center justify-center gap-2 bg-black bg-opacity-70 text-white"
+        aria-label="Close tactical map"
+      >
+        {map}
+        <span className="text-xs text-gray-300">
+          🔥 fire · 🌲 trees · 🔵 refill stations · ➤ you · tap to close
+        </span>
+      </button>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={onToggleExpanded}
+      className="absolute top-4 left-4"
+      aria-label="Open tactical map"
+      title="Tactical map"
+    >
+      {map}
+    </button>
+  );
+}
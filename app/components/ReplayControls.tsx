@@ -0,0 +1,113 @@
+import { Button } from "@/components/ui/button";
+import { SIM_TIMESTEP } from "@/lib/game/constants";
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4] as const;
+
+type ReplayControlsProps = {
+  tick: number;
+  totalTicks: number;
+  playing: boolean;
+  speed: number;
+  freeCamera: boolean;
+  desyncTick: number | null;
+  onTogglePlay: () => void;
+  onSpeedChange: (speed: number) => void;
+  onSeek: (tick: number) => void;
+  onToggleFreeCamera: () => void;
+  onExport: () => void;
+  onExit: () => void;
+};
+
+function formatTick(tick: number): string {
+  const seconds = Math.floor(tick * SIM_TIMESTEP);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+export function ReplayControls({
+  tick,
+  totalTicks,
+  playing,
+  speed,
+  freeCamera,
+  desyncTick,
+  onTogglePlay,
+  onSpeedChange,
+  onSeek,
+  onToggleFreeCamera,
+  onExport,
+  onExit,
+}: ReplayControlsProps) {
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 w-full max-w-xl px-4">
+      <div className="bg-black bg-opacity-70 text-white rounded-lg p-3 space-y-2 text-sm">
+        <div className="flex items-center justify-between">
+          <span className="font-semibold">🎬 Replay</span>
+          <span className="font-mono text-xs">
+            {formatTick(tick)} / {formatTick(totalTicks)}
+          </span>
+        </div>
+
+        <input
+          type="range"
+          min={0}
+          max={totalTicks}
+          value={tick}
+          onChange={(event) => onSeek(Number(event.target.value))}
+          className="w-full accent-orange-500"
+          aria-label="Replay position"
+        />
+
+        {desyncTick !== null && (
+          <p className="text-xs text-yellow-300">
+            ⚠️ This replay stops matching the recorded run at{" "}
+            {formatTick(desyncTick)}; the game rules may have changed since.
+          </p>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button size="sm" onClick={onTogglePlay}>
+            {playing ? "⏸ Pause" : "▶ Play"}
+          </Button>
+          <div className="flex gap-1">
+            {REPLAY_SPEEDS.map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => onSpeedChange(option)}
+                className={`rounded px-2 py-1 text-xs ${
+                  option === speed ? "bg-orange-500" : "bg-white bg-opacity-20"
+                }`}
+              >
+                {option}x
+              </button>
+            ))}
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={onToggleFreeCamera}
+            className="text-black"
+          >
+            {freeCamera ? "🎥 Follow" : "🎥 Free camera"}
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={onExport}
+            className="text-black"
+          >
+            💾 Export
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={onExit}
+            className="ml-auto text-black"
+          >
+            ✕ Close
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import type { RoundScore } from "@/lib/game/scoring";
+
+type ScoreSummaryProps = {
+  score: RoundScore;
+};
+
+function formatSeconds(seconds: number): string {
+  return `${Math.round(seconds)}s`;
+}
+
+export function ScoreSummary({ score }: ScoreSummaryProps) {
+  return (
+    <div className="space-y-2">
+      <div
+        className="text-3xl tracking-widest"
+        aria-label={`${score.stars} out of 3 stars`}
+      >
+        {[1, 2, 3].map((star) => (
+          <span
+            key={star}
+            className={star <= score.stars ? "" : "opacity-25 grayscale"}
+          >
+            ⭐
+          </span>
+        ))}
+      </div>
+
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm text-left">
+        <dt className="text-gray-500">Time to clear</dt>
+        <dd className="font-semibold text-right">
+          {score.timeToClear === null ? "—" : formatSeconds(score.timeToClear)}
+        </dd>
+        <dt className="text-gray-500">Forest saved</dt>
+        <dd className="font-semibold text-right">
+          {Math.round(score.treesSavedPercent)}% ({score.treesSaved}/
+          {score.totalTrees} trees)
+        </dd>
+        <dt className="text-gray-500">Cells burned</dt>
+        <dd className="font-semibold text-right">{score.cellsBurned}</dd>
+        <dt className="text-gray-500">Water used</dt>
+        <dd className="font-semibold text-right">
+          {Math.round(score.waterUsed)}
+        </dd>
+        <dt className="text-gray-500">Score</dt>
+        <dd className="font-semibold text-right">{score.points}</dd>
+      </dl>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { TOOL_IDS, TOOLS, type ToolId } from "@/lib/game/equipment";
+
+type ToolBarProps = {
+  selected: ToolId;
+  // Each tool's resource as a percentage
+  levels: Record<ToolId, number>;
+  // Omitted while watching a replay, where the tools can't be switched
+  onSelect?: (tool: ToolId) => void;
+  // Each tool's key to show, omitted on touch screens
+  keys?: Record<ToolId, string>;
+};
+
+export function ToolBar({ selected, levels, onSelect, keys }: ToolBarProps) {
+  return (
+    <div className="flex gap-1 rounded-lg bg-black bg-opacity-60 p-1">
+      {TOOL_IDS.map((tool) => {
+        const { name, icon } = TOOLS[tool];
+        const level = Math.max(0, Math.min(100, levels[tool]));
+        return (
+          <button
+            key={tool}
+            type="button"
+            title={name}
+            disabled={!onSelect}
+            onClick={() => onSelect?.(tool)}
+            className={`relative flex h-12 w-12 flex-col items-center justify-center rounded border-2 text-xl text-white ${
+              tool === selected
+                ? "border-yellow-400 bg-white bg-opacity-20"
+                : "border-transparent"
+            }`}
+          >
+            {keys && (
+              <span className="absolute left-1 top-0 text-[10px] text-gray-300">
+                {keys[tool]}
+              </span>
+            )}
+            <span className={level > 0 ? "" : "opacity-40 grayscale"}>
+              {icon}
+            </span>
+            <span className="absolute bottom-1 left-1 right-1 h-1 rounded bg-gray-700">
+              <span
+                className={`block h-full rounded ${level >= 100 ? "bg-green-400" : "bg-blue-400"}`}
+                style={{ width: `${level}%` }}
+              />
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
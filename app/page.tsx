@@ -4,49 +4,79 @@ import React, { useEffect, useRef, useState, useCallback } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { Progress } from '@/components/ui/progress'
+import { ControlsSettings } from '@/app/components/ControlsSettings'
+import { CoopLobby, type CoopRoomView } from '@/app/components/CoopLobby'
+import { DailyChallenge } from '@/app/components/DailyChallenge'
+import { Leaderboard } from '@/app/components/Leaderboard'
+import { LevelSelect } from '@/app/components/LevelSelect'
+import { Minimap } from '@/app/components/Minimap'
+import { ReplayControls } from '@/app/components/ReplayControls'
+import { ScoreSummary } from '@/app/components/ScoreSummary'
+import { ToolBar } from '@/app/components/ToolBar'
 import * as THREE from 'three'
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js'
+import { SIM_TIMESTEP } from '@/lib/game/constants'
+import { dailyDayFromSeed } from '@/lib/game/daily'
+import { createSimulation, stepSimulation, type SimulationState } from '@/lib/game/engine'
+import { MAX_HEALTH } from '@/lib/game/health'
+import { aheadOf, DROP_RADIUS, isToolSpraying, TOOL_IDS, toolLevels, TOOLS, type ToolId } from '@/lib/game/equipment'
+import type { Ember } from '@/lib/game/embers'
+import type { FuelMap } from '@/lib/game/fuel'
+import { encodeInput, quantizeInput, recordInput, type InputLog } from '@/lib/game/input-log'
+import { FREE_PLAY_LEVEL, FREE_PLAY_LEVEL_ID, getLevel, getNextLevel, type LevelDefinition } from '@/lib/game/levels'
+import { interpolatePlayer, type PlayerInput, type PlayerState } from '@/lib/game/player'
+import { isLevelUnlocked, loadProgress, recordLevelResult, saveProgress, type CampaignProgress } from '@/lib/game/progress'
+import {
+  createReplayPlayer,
+  parseReplay,
+  REPLAY_VERSION,
+  shouldRecordChecksum,
+  simulationChecksum,
+  type Replay,
+  type ReplayPlayer
+} from '@/lib/game/replay'
+import {
+  clearLocalSave,
+  createSavedGame,
+  deserializeSimulation,
+  loadLocalSave,
+  parseSavedGame,
+  saveLocally,
+  type SavedGame
+} from '@/lib/game/save'
+import { generateSeed, normalizeSeed } from '@/lib/game/seed'
+import { terrainHeight, type GroundHeight, type Terrain } from '@/lib/game/terrain'
+import type { FireMap, RefillStation } from '@/lib/game/types'
+import { compassDirection, forecastWind } from '@/lib/game/wind'
+import { actionsForKey, bindingLabel, DEFAULT_BINDINGS, keyLabel, loadBindings, saveBindings, type InputAction, type KeyBindings } from '@/lib/input/bindings'
+import { combineInput, createMouseLook, isHeld, steerToStation, type ControlSources } from '@/lib/input/controls'
+import { createGamepadReader, type GamepadReading } from '@/lib/input/gamepad'
+import { createDropRenderer, type DropRenderer } from '@/lib/render/drop-renderer'
+import { createEmberRenderer, type EmberRenderer } from '@/lib/render/ember-renderer'
+import { createFireRenderer, type FireRenderer } from '@/lib/render/fire-renderer'
+import { createForestRenderer, type ForestRenderer } from '@/lib/render/forest-renderer'
+import { createSmokeRenderer, type SmokeRenderer } from '@/lib/render/smoke-renderer'
+import { createTeammateRenderer, type TeammateRenderer } from '@/lib/render/teammate-renderer'
+import { createTerrainGeometry } from '@/lib/render/terrain-geometry'
+import { applyRoomSnapshot } from '@/lib/multiplayer/client-state'
+import { connectLocalRoom, connectWebSocket, getLocalRoom, roomUrl, type RoomConnection } from '@/lib/multiplayer/connection'
+import type { PlayerSnapshot, ServerMessage } from '@/lib/multiplayer/protocol'
+import { SNAPSHOT_INTERVAL_TICKS } from '@/lib/multiplayer/room'
 
 import { sdk } from '@farcaster/miniapp-sdk'
 
-interface Vector3 {
-  x: number
-  y: number
-  z: number
-}
-
-interface Player {
-  position: Vector3
-  rotation: number
-  waterLevel: number
-  maxWater: number
-  isRefilling: boolean
-  mesh?: THREE.Mesh
-}
-
-interface FireCell {
-  x: number
-  z: number
-  intensity: number
-  spreadTime: number
-  mesh?: THREE.Points
-}
+type GameState = SimulationState
 
-interface RefillStation {
-  position: Vector3
-  radius: number
-  mesh?: THREE.Mesh
+interface ReplayView {
+  state: SimulationState
+  playing: boolean
+  speed: number
+  freeCamera: boolean
 }
 
-interface GameState {
-  player: Player
-  fires: Map<string, FireCell>
-  refillStations: RefillStation[]
-  gameStatus: 'playing' | 'won' | 'lost' | 'tutorial'
-  windDirection: Vector3
-  windSpeed: number
-  timeElapsed: number
-  gameSpeed: number
-  trees: { x: number; z: number; radius: number }[]
+interface FarcasterUser {
+  fid: number
+  username?: string
 }
 
 interface MobileControl {
@@ -56,15 +86,19 @@ interface MobileControl {
   active: boolean
 }
 
-const WORLD_SIZE = 40
-const GRID_SIZE = 2
 const PLAYER_HEIGHT = 1.8
-const WATER_RANGE = 8
-const REFILL_RATE = 2
-const FIRE_SPREAD_RATE = 4.0 // Even slower fire spread initially
-const INITIAL_FIRES = 5 // number of initial fires
+const MAX_SIM_STEPS_PER_FRAME = 5
 const CAMERA_DISTANCE = 10
 const CAMERA_HEIGHT = 8
+// Milliseconds between HUD re-renders while a round runs; the scene itself draws every frame
+const HUD_UPDATE_INTERVAL = 100
+// Milliseconds between saves of a running round, on this device and for the player's fid
+const LOCAL_SAVE_INTERVAL = 5000
+const REMOTE_SAVE_INTERVAL = 30000
+// Browsers drop keepalive requests with bigger bodies
+const MAX_KEEPALIVE_BYTES = 60000
+// Co-op server; without one, rooms run inside this tab for trying co-op locally
+const MULTIPLAYER_URL = process.env.NEXT_PUBLIC_MULTIPLAYER_URL
 
 export default function WildFireFighters(): JSX.Element {
   useEffect(() => {
@@ -84,6 +118,13 @@ export default function WildFireFighters(): JSX.Element {
         
         await sdk.actions.ready()
         console.log('Farcaster SDK initialized successfully - app fully loaded')
+
+        const context = await sdk.context
+        if (context?.user?.fid) {
+          const user = { fid: context.user.fid, username: context.user.username }
+          farcasterUserRef.current = user
+          setFarcasterUser(user)
+        }
       } catch (error) {
         console.error('Failed to initialize Farcaster SDK:', error)
         setTimeout(async () => {
@@ -105,38 +146,94 @@ export default function WildFireFighters(): JSX.Element {
   const rendererRef = useRef<THREE.WebGLRenderer>()
   const cameraRef = useRef<THREE.PerspectiveCamera>()
   const gameLoopRef = useRef<number>(0)
+  // Keys held down, as lower-case KeyboardEvent.key values
   const keysRef = useRef<Set<string>>(new Set())
-  const mouseRef = useRef<{ x: number; y: number; isDragging: boolean }>({ x: 0, y: 0, isDragging: false })
+  const bindingsRef = useRef<KeyBindings>(DEFAULT_BINDINGS)
+  const gamepadReaderRef = useRef(createGamepadReader())
+  // The gamepad as polled this frame
+  const gamepadRef = useRef<GamepadReading | null>(null)
+  const mouseLookRef = useRef(createMouseLook())
+  const touchShootingRef = useRef<boolean>(false)
+  // Whether the solo round is paused; the loop stops stepping it
+  const pausedRef = useRef<boolean>(false)
+  const playerMeshRef = useRef<THREE.Mesh>()
   const waterParticlesRef = useRef<THREE.Points>()
+  const fireRendererRef = useRef<FireRenderer>()
+  const forestRendererRef = useRef<ForestRenderer>()
+  const groundRef = useRef<THREE.Mesh>()
+  // Terrain of the loaded world, which the renderers stand everything on
+  const terrainRef = useRef<Terrain>()
+  const stationMeshesRef = useRef<THREE.Mesh[]>([])
+  const simAccumulatorRef = useRef<number>(0)
+  // Every tick's input this round, posted with the score so the server can replay the run
+  const inputLogRef = useRef<InputLog>([])
+  // Checksums by tick, recorded as the loop steps the live round
+  const checksumsRef = useRef<Map<number, number>>(new Map())
+  const replayPlayerRef = useRef<ReplayPlayer>()
+  const replayAccumulatorRef = useRef<number>(0)
+  const orbitControlsRef = useRef<OrbitControls>()
+  // The replay view as the loop sees it; React state only mirrors it for the controls
+  const replayViewRef = useRef<ReplayView | null>(null)
+  const teammateRendererRef = useRef<TeammateRenderer>()
+  const dropRendererRef = useRef<DropRenderer>()
+  const smokeRendererRef = useRef<SmokeRenderer>()
+  const emberRendererRef = useRef<EmberRenderer>()
+  // Bomber cooldown last shown, so a jump up marks a fresh drop
+  const lastBomberCooldownRef = useRef<number>(0)
+  const selectedToolRef = useRef<ToolId>('jet')
+  const coopConnectionRef = useRef<RoomConnection>()
+  // The untouched world for the co-op room's level and seed; snapshots are laid over it
+  const coopWorldRef = useRef<SimulationState>()
+  const coopSprayingRef = useRef<boolean>(false)
+  const lastSentInputRef = useRef<number>(-1)
+  // The round result last posted to the leaderboard
+  const submittedScoreRef = useRef<GameState['score']>(null)
   const [isMobile, setIsMobile] = useState<boolean>(false)
   const [showTutorial, setShowTutorial] = useState<boolean>(true)
+  const [progress, setProgress] = useState<CampaignProgress>({})
+  const [farcasterUser, setFarcasterUser] = useState<FarcasterUser | null>(null)
+  const farcasterUserRef = useRef<FarcasterUser | null>(null)
+  const [leaderboardVersion, setLeaderboardVersion] = useState<number>(0)
+  // Whether the current round is the player's one ranked Daily Fire attempt
+  const [rankedDaily, setRankedDaily] = useState<boolean>(false)
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null)
+  const [replayView, setReplayView] = useState<ReplayView | null>(null)
+  const [coopRoom, setCoopRoom] = useState<CoopRoomView | null>(null)
+  const [teammates, setTeammates] = useState<PlayerSnapshot[]>([])
+  const [selectedTool, setSelectedTool] = useState<ToolId>('jet')
+  // A round left unfinished last time, offered on the start screen
+  const [savedGame, setSavedGame] = useState<SavedGame | null>(null)
+  const [bindings, setBindings] = useState<KeyBindings>(DEFAULT_BINDINGS)
+  const [paused, setPaused] = useState<boolean>(false)
+  // Whether the mouse is captured for mouse-look
+  const [pointerLocked, setPointerLocked] = useState<boolean>(false)
+  // Whether the minimap is blown up into the full tactical map
+  const [mapExpanded, setMapExpanded] = useState<boolean>(false)
+  // Play new rounds with the one-touch fire rule instead of health
+  const [hardcore, setHardcore] = useState<boolean>(false)
+  const hardcoreRef = useRef<boolean>(false)
   const [fps, setFps] = useState<number>(60)
   const lastFrameTimeRef = useRef<number>(0)
   const frameCountRef = useRef<number>(0)
   const fpsUpdateTimeRef = useRef<number>(0)
 
-  const [gameState, setGameState] = useState<GameState>({
-    player: {
-      position: { x: 0, y: 0, z: 0 },
-      rotation: 0,
-      waterLevel: 100,
-      maxWater: 100,
-      isRefilling: false
-    },
-    fires: new Map(),
-    refillStations: [
-      { position: { x: -15, y: 0, z: -15 }, radius: 3 },
-      { position: { x: 15, y: 0, z: -15 }, radius: 3 },
-      { position: { x: -15, y: 0, z: 15 }, radius: 3 },
-      { position: { x: 15, y: 0, z: 15 }, radius: 3 }
-    ],
+  // Placeholder world until the mount effect loads the level from the URL
+  const [gameState, setGameState] = useState<GameState>(() => ({
+    ...createSimulation(FREE_PLAY_LEVEL, ''),
     gameStatus: 'tutorial',
-    windDirection: { x: 0.7, y: 0, z: 0.3 },
-    windSpeed: 1.2,
-    timeElapsed: 0,
-    gameSpeed: 1,
-    trees: []
-  })
+    fires: new Map()
+  }))
+  // The live round. The loop steps it here every tick; gameState is only a throttled copy for the HUD
+  const liveStateRef = useRef<GameState>(gameState)
+  const publishedStateRef = useRef<GameState>(gameState)
+  const hudUpdatedAtRef = useRef<number>(0)
+  // The player one step back, so frames between steps can be drawn part of the way along
+  const previousPlayerRef = useRef<PlayerState>(gameState.player)
+  const snapshotReceivedAtRef = useRef<number>(0)
+  // What the fire and forest renderers last drew, so they only resync on change
+  const syncedFiresRef = useRef<FireMap>()
+  const syncedFuelRef = useRef<FuelMap>()
+  const syncedEmbersRef = useRef<Ember[]>()
 
   const [mobileControls, setMobileControls] = useState<{
     joystick: MobileControl
@@ -163,6 +260,8 @@ export default function WildFireFighters(): JSX.Element {
     }
   })
 
+  const groundHeight: GroundHeight = (x, z) => (terrainRef.current ? terrainHeight(terrainRef.current, x, z) : 0)
+
   // Initialize Three.js scene
   const initScene = useCallback((): void => {
     if (!mountRef.current) return
@@ -204,13 +303,13 @@ export default function WildFireFighters(): JSX.Element {
     directionalLight.shadow.camera.bottom = -25
     scene.add(directionalLight)
 
-    // Ground
-    const groundGeometry = new THREE.PlaneGeometry(WORLD_SIZE, WORLD_SIZE)
+    // Ground (placeholder until a world is loaded and its terrain replaces the geometry)
+    const groundGeometry = new THREE.PlaneGeometry(1, 1).rotateX(-Math.PI / 2)
     const groundMaterial = new THREE.MeshLambertMaterial({ color: 0x3d6b2e })
     const ground = new THREE.Mesh(groundGeometry, groundMaterial)
-    ground.rotation.x = -Math.PI / 2
     ground.receiveShadow = true
     scene.add(ground)
+    groundRef.current = ground
 
     // Player
     const playerGeometry = new THREE.CapsuleGeometry(0.5, PLAYER_HEIGHT)
@@ -219,55 +318,7 @@ export default function WildFireFighters(): JSX.Element {
     playerMesh.position.set(0, PLAYER_HEIGHT / 2, 0)
     playerMesh.castShadow = true
     scene.add(playerMesh)
-
-    setGameState(prev => ({
-      ...prev,
-      player: { ...prev.player, mesh: playerMesh }
-    }))
-
-    // Initialize refill stations
-    gameState.refillStations.forEach((station) => {
-      const stationGeometry = new THREE.CylinderGeometry(station.radius, station.radius, 0.5, 16)
-      const stationMaterial = new THREE.MeshLambertMaterial({ color: 0x4a90e2 })
-      const stationMesh = new THREE.Mesh(stationGeometry, stationMaterial)
-      stationMesh.position.set(station.position.x, 0.1, station.position.z) // Slightly raised for visibility
-      stationMesh.castShadow = true
-      stationMesh.receiveShadow = true
-      scene.add(stationMesh)
-      station.mesh = stationMesh
-    })
-
-    // Generate initial random trees using the function
-    const trees = generateTrees(gameState.refillStations)
-    
-    // Create 3D tree meshes in the scene
-    trees.forEach(tree => {
-      const treeHeight = Math.random() * 3 + 4 // 4-7 units tall
-      const fullRadius = tree.radius / 0.8 // Convert back from collision radius
-      
-      // Tree trunk
-      const trunkGeometry = new THREE.CylinderGeometry(0.2, 0.3, 1.5, 8)
-      const trunkMaterial = new THREE.MeshLambertMaterial({ color: 0x8B4513 }) // Brown
-      const trunk = new THREE.Mesh(trunkGeometry, trunkMaterial)
-      trunk.position.set(tree.x, 0.75, tree.z)
-      trunk.castShadow = true
-      trunk.receiveShadow = true
-      trunk.userData = { isTree: true } // Mark for easy cleanup
-      scene.add(trunk)
-      
-      // Tree foliage (green cone)
-      const foliageGeometry = new THREE.ConeGeometry(fullRadius, treeHeight, 8)
-      const foliageMaterial = new THREE.MeshLambertMaterial({ color: 0x228B22 }) // Forest green
-      const foliage = new THREE.Mesh(foliageGeometry, foliageMaterial)
-      foliage.position.set(tree.x, 1.5 + treeHeight / 2, tree.z)
-      foliage.castShadow = true
-      foliage.receiveShadow = true
-      foliage.userData = { isTree: true } // Mark for easy cleanup
-      scene.add(foliage)
-    })
-    
-    // Update game state with tree positions
-    setGameState(prev => ({ ...prev, trees }))
+    playerMeshRef.current = playerMesh
 
     // Water particles system for shooting effect
     const particleGeometry = new THREE.BufferGeometry()
@@ -287,6 +338,14 @@ export default function WildFireFighters(): JSX.Element {
     scene.add(waterParticles)
     waterParticlesRef.current = waterParticles
 
+    // Fire particles and the forest are driven by the headless simulation through these adapters
+    fireRendererRef.current = createFireRenderer(scene, groundHeight)
+    forestRendererRef.current = createForestRenderer(scene, groundHeight)
+    teammateRendererRef.current = createTeammateRenderer(scene)
+    dropRendererRef.current = createDropRenderer(scene, groundHeight)
+    smokeRendererRef.current = createSmokeRenderer(scene, groundHeight)
+    emberRendererRef.current = createEmberRenderer(scene, groundHeight)
+
     // Handle window resize
     const handleResize = (): void => {
       if (!camera || !renderer) return
@@ -295,159 +354,6 @@ export default function WildFireFighters(): JSX.Element {
       renderer.setSize(window.innerWidth, window.innerHeight)
     }
     window.addEventListener('resize', handleResize)
-  }, [gameState.refillStations])
-
-  // Generate random trees with collision avoidance
-const generateTrees = useCallback((refillStations: RefillStation[]) => {
-  const trees: { x: number; z: number; radius: number }[] = []
-  const maxAttempts = 200 // Increased attempts for better coverage
-
-  for (let i = 0; i < 40 && trees.length < 40; i++) {
-    let attempts = 0
-    let placed = false
-
-    while (attempts < maxAttempts && !placed) {
-      const x = (Math.random() - 0.5) * (WORLD_SIZE - 5)
-      const z = (Math.random() - 0.5) * (WORLD_SIZE - 5)
-
-      // Check distance from refill stations
-      const nearStation = refillStations.some(station =>
-        Math.sqrt((x - station.position.x) ** 2 + (z - station.position.z) ** 2) < 5
-      )
-
-      // Check distance from center
-      const nearCenter = Math.sqrt(x ** 2 + z ** 2) < 8
-
-      // Check distance from other trees
-      const treeRadius = Math.random() * 0.8 + 1
-      const nearOtherTree = trees.some(tree =>
-        Math.sqrt((x - tree.x) ** 2 + (z - tree.z) ** 2) < (tree.radius + treeRadius + 1)
-      )
-
-      if (!nearStation && !nearCenter && !nearOtherTree) {
-        trees.push({ x, z, radius: treeRadius * 0.8 })
-        placed = true
-      }
-
-      attempts++
-    }
-  }
-
-  return trees
-}, [WORLD_SIZE])
-
-
-  // Initialize fires with realistic spherical particles
-  const initializeFires = useCallback((): Map<string, FireCell> => {
-    const fires = new Map<string, FireCell>()
-    const scene = sceneRef.current
-    if (!scene) return fires
-
-    for (let i = 0; i < INITIAL_FIRES; i++) {
-      let attempts = 0
-      let placed = false
-      let x: number = (Math.random() - 0.5) * (WORLD_SIZE - 10)
-      let z: number = (Math.random() - 0.5) * (WORLD_SIZE - 10)
-      let key: string = `${Math.floor(x / GRID_SIZE)}-${Math.floor(z / GRID_SIZE)}`
-      
-      // Try to place fire avoiding overlap and ensuring good distribution
-      while (attempts < 100 && !placed) {
-        x = (Math.random() - 0.5) * (WORLD_SIZE - 10)
-        z = (Math.random() - 0.5) * (WORLD_SIZE - 10)
-        key = `${Math.floor(x / GRID_SIZE)}-${Math.floor(z / GRID_SIZE)}`
-        
-        // Check if position is already occupied
-        if (!fires.has(key)) {
-          // Check minimum distance from other fires for better spread
-          let minDistance = Infinity
-          for (const existingFire of fires.values()) {
-            const distance = Math.sqrt((x - existingFire.x) ** 2 + (z - existingFire.z) ** 2)
-            minDistance = Math.min(minDistance, distance)
-          }
-          
-          if (fires.size === 0 || minDistance > 6) { // Minimum 6 units apart
-            placed = true
-          }
-        }
-        
-        attempts++
-      }
-      
-      // If placement failed, use fallback position
-      if (!placed) {
-        x = (Math.random() - 0.5) * (WORLD_SIZE - 10)
-        z = (Math.random() - 0.5) * (WORLD_SIZE - 10)
-        key = `${Math.floor(x / GRID_SIZE)}-${Math.floor(z / GRID_SIZE)}`
-      }
-      
-      // Create realistic fire with enhanced spherical particle system
-      const particleCount = 300
-      const fireGeometry = new THREE.BufferGeometry()
-      const positions = new Float32Array(particleCount * 3)
-      const colors = new Float32Array(particleCount * 3)
-      const sizes = new Float32Array(particleCount)
-
-      const fireIntensity = Math.random() * 0.5 + 0.5
-      
-      for (let p = 0; p < particleCount; p++) {
-        // Random positions within fire area
-        const radius = Math.random() * 1.5
-        const angle = Math.random() * Math.PI * 2
-        const height = Math.random() * 3
-        
-        positions[p * 3] = Math.cos(angle) * radius
-        positions[p * 3 + 1] = height
-        positions[p * 3 + 2] = Math.sin(angle) * radius
-        
-        // Fire colors (red to yellow gradient)
-        const colorIntensity = Math.random()
-        colors[p * 3] = fireIntensity // Red
-        colors[p * 3 + 1] = colorIntensity * fireIntensity * 0.8 // Green (for yellow)
-        colors[p * 3 + 2] = 0 // Blue
-        
-        sizes[p] = Math.random() * 3 + 1
-      }
-      
-      fireGeometry.setAttribute('position', new THREE.BufferAttribute(positions, 3))
-      fireGeometry.setAttribute('color', new THREE.BufferAttribute(colors, 3))
-      fireGeometry.setAttribute('size', new THREE.BufferAttribute(sizes, 1))
-      
-      const fireMaterial = new THREE.PointsMaterial({
-        size: 0.3,
-        vertexColors: true,
-        transparent: true,
-        opacity: 0.8,
-        blending: THREE.AdditiveBlending,
-        map: (() => {
-          const canvas = document.createElement('canvas')
-          canvas.width = 16
-          canvas.height = 16
-          const context = canvas.getContext('2d')!
-          const gradient = context.createRadialGradient(8, 8, 0, 8, 8, 8)
-          gradient.addColorStop(0, 'rgba(255,255,255,1)')
-          gradient.addColorStop(0.2, 'rgba(255,255,0,1)')
-          gradient.addColorStop(0.4, 'rgba(255,128,0,1)')
-          gradient.addColorStop(1, 'rgba(255,0,0,0)')
-          context.fillStyle = gradient
-          context.fillRect(0, 0, 16, 16)
-          const texture = new THREE.CanvasTexture(canvas)
-          return texture
-        })()
-      })
-      
-      const fireMesh = new THREE.Points(fireGeometry, fireMaterial)
-      fireMesh.position.set(x, 0, z)
-      scene.add(fireMesh)
-
-      fires.set(key, {
-        x: Math.floor(x / GRID_SIZE) * GRID_SIZE,
-        z: Math.floor(z / GRID_SIZE) * GRID_SIZE,
-        intensity: fireIntensity,
-        spreadTime: 0,
-        mesh: fireMesh
-      })
-    }
-    return fires
   }, [])
 
   // Check mobile device
@@ -460,11 +366,51 @@ const generateTrees = useCallback((refillStations: RefillStation[]) => {
     return () => window.removeEventListener('resize', checkMobile)
   }, [])
 
+  // Leave mouse-look once the round is over, so the menus can be clicked
+  useEffect(() => {
+    if (gameState.gameStatus !== 'playing' && document.pointerLockElement) {
+      document.exitPointerLock()
+    }
+  }, [gameState.gameStatus])
+
+  const selectTool = useCallback((tool: ToolId): void => {
+    selectedToolRef.current = tool
+    setSelectedTool(tool)
+  }, [])
+
+  const cycleTool = useCallback((step: number): void => {
+    const index = TOOL_IDS.indexOf(selectedToolRef.current)
+    selectTool(TOOL_IDS[(index + step + TOOL_IDS.length) % TOOL_IDS.length])
+  }, [selectTool])
+
+  // Only a solo round can be paused; co-op rounds and replays keep running
+  const setRoundPaused = useCallback((pause: boolean): void => {
+    if (pause && (liveStateRef.current.gameStatus !== 'playing' || coopConnectionRef.current || replayViewRef.current)) return
+    pausedRef.current = pause
+    setPaused(pause)
+    if (pause && document.pointerLockElement) document.exitPointerLock()
+  }, [])
+
+  // One-off actions from a key or gamepad button press; held actions are read in readInput
+  const triggerAction = useCallback((action: InputAction): void => {
+    if (action === 'nextTool') {
+      cycleTool(1)
+    } else if (action === 'previousTool') {
+      cycleTool(-1)
+    } else if (action === 'pause') {
+      setRoundPaused(!pausedRef.current)
+    } else if (action.startsWith('equip:')) {
+      selectTool(action.slice('equip:'.length) as ToolId)
+    }
+  }, [cycleTool, selectTool, setRoundPaused])
+
   // Input event handlers
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent): void => {
-      keysRef.current.add(e.key.toLowerCase())
-      if (e.key === ' ') e.preventDefault()
+      const key = e.key.toLowerCase()
+      keysRef.current.add(key)
+      if (key === ' ' || key.startsWith('arrow')) e.preventDefault()
+      if (!e.repeat) actionsForKey(bindingsRef.current, key).forEach(triggerAction)
     }
 
     const handleKeyUp = (e: KeyboardEvent): void => {
@@ -472,425 +418,225 @@ const generateTrees = useCallback((refillStations: RefillStation[]) => {
     }
 
     const handlePointerLockChange = (): void => {
-      // Handle pointer lock changes
+      const locked = document.pointerLockElement === mountRef.current
+      setPointerLocked(locked)
+      if (!locked) mouseLookRef.current.clear()
+    }
+
+    const handleMouseMove = (e: MouseEvent): void => {
+      if (document.pointerLockElement === mountRef.current) {
+        mouseLookRef.current.move(e.movementX)
+      }
     }
 
     window.addEventListener('keydown', handleKeyDown)
     window.addEventListener('keyup', handleKeyUp)
     document.addEventListener('pointerlockchange', handlePointerLockChange)
+    document.addEventListener('mousemove', handleMouseMove)
 
     return () => {
       window.removeEventListener('keydown', handleKeyDown)
       window.removeEventListener('keyup', handleKeyUp)
       document.removeEventListener('pointerlockchange', handlePointerLockChange)
+      document.removeEventListener('mousemove', handleMouseMove)
     }
-  }, [gameState.gameStatus])
+  }, [triggerAction])
 
-  // Distance calculation
-  const distance3D = (a: Vector3, b: Vector3): number => {
-    return Math.sqrt((a.x - b.x) ** 2 + (a.y - b.y) ** 2 + (a.z - b.z) ** 2)
+  const changeHardcore = (on: boolean): void => {
+    hardcoreRef.current = on
+    setHardcore(on)
   }
 
-  // Normalize vector
-  const normalize3D = (v: Vector3): Vector3 => {
-    const len = Math.sqrt(v.x * v.x + v.y * v.y + v.z * v.z)
-    return len > 0 ? { x: v.x / len, y: v.y / len, z: v.z / len } : { x: 0, y: 0, z: 0 }
+  const changeBindings = (next: KeyBindings): void => {
+    bindingsRef.current = next
+    setBindings(next)
+    saveBindings(next)
   }
 
-  // Update player movement and actions
-  const updatePlayer = (player: Player, deltaTime: number): Player => {
-    const baseSpeed = 5
-    const rotationSpeed = 0.032
-    const keys = keysRef.current
-    const newPlayer = { ...player }
-
-    // Arrow key rotation (character facing)
-    if (keys.has('arrowleft')) {
-      newPlayer.rotation += rotationSpeed * 60 * deltaTime // Turn left
-    }
-    if (keys.has('arrowright')) {
-      newPlayer.rotation -= rotationSpeed * 60 * deltaTime // Turn right
-    }
-
-    // Movement
-    const moveVector = { x: 0, z: 0 }
-    if (keys.has('w')) moveVector.z -= 1
-    if (keys.has('s')) moveVector.z += 1
-    if (keys.has('a')) moveVector.x -= 1
-    if (keys.has('d')) moveVector.x += 1
-
-    if (moveVector.x !== 0 || moveVector.z !== 0) {
-      const len = Math.sqrt(moveVector.x * moveVector.x + moveVector.z * moveVector.z)
-      moveVector.x /= len
-      moveVector.z /= len
-
-      // Rotate movement vector by player rotation
-      const cos = Math.cos(newPlayer.rotation)
-      const sin = Math.sin(newPlayer.rotation)
-      const rotatedX = moveVector.x * cos - moveVector.z * sin
-      const rotatedZ = moveVector.x * sin + moveVector.z * cos
-
-      // Calculate new position with collision and speed modifications
-      const newX = newPlayer.position.x + rotatedX * baseSpeed * deltaTime
-      const newZ = newPlayer.position.z + rotatedZ * baseSpeed * deltaTime
-      
-      // Check tree collisions - separate trunk (blocking) from foliage (slowing)
-      let trunkCollision = false
-      let inFoliage = false
-      
-      for (const tree of gameState.trees) {
-        const distanceToTree = Math.sqrt((newX - tree.x) ** 2 + (newZ - tree.z) ** 2)
-        
-        // Trunk collision (small radius, complete blocking)
-        const trunkRadius = 0.4 // Trunk collision radius
-        if (distanceToTree < trunkRadius + 1) { // Player has ~1 unit collision radius
-          trunkCollision = true
-          break
-        }
-        
-        // Foliage collision (larger radius, speed reduction)
-        const foliageRadius = tree.radius // Full tree foliage radius
-        if (distanceToTree < foliageRadius + 1) {
-          inFoliage = true
-        }
-      }
-      
-      // Apply movement based on collision type
-      if (!trunkCollision) {
-        if (inFoliage) {
-          // 50% speed reduction in foliage
-          const reducedSpeed = baseSpeed * 0.5
-          newPlayer.position.x = newPlayer.position.x + rotatedX * reducedSpeed * deltaTime
-          newPlayer.position.z = newPlayer.position.z + rotatedZ * reducedSpeed * deltaTime
-        } else {
-          // Normal speed movement
-          newPlayer.position.x = newX
-          newPlayer.position.z = newZ
-        }
-      }
-
-      // Boundary checks
-      const halfWorld = WORLD_SIZE / 2 - 2
-      newPlayer.position.x = Math.max(-halfWorld, Math.min(halfWorld, newPlayer.position.x))
-      newPlayer.position.z = Math.max(-halfWorld, Math.min(halfWorld, newPlayer.position.z))
-    }
-
-    // Update player mesh position and rotation
-    if (newPlayer.mesh) {
-      newPlayer.mesh.position.x = newPlayer.position.x
-      newPlayer.mesh.position.z = newPlayer.position.z
-      newPlayer.mesh.rotation.y = newPlayer.rotation
-    }
-
-    // Water shooting
-    if (keys.has(' ') && newPlayer.waterLevel > 0) {
-      newPlayer.waterLevel = Math.max(0, newPlayer.waterLevel - 30 * deltaTime)
-      
-      // Show water particles
-      if (waterParticlesRef.current) {
-        waterParticlesRef.current.visible = true
-        const positions = waterParticlesRef.current.geometry.attributes.position.array as Float32Array
-        
-        for (let i = 0; i < positions.length; i += 3) {
-          const angle = newPlayer.rotation + (Math.random() - 0.5) * 0.5
-          const distance = Math.random() * WATER_RANGE
-          positions[i] = newPlayer.position.x + Math.sin(angle) * distance
-          positions[i + 1] = 1 + Math.random() * 2
-          positions[i + 2] = newPlayer.position.z - Math.cos(angle) * distance
-        }
-        
-        waterParticlesRef.current.geometry.attributes.position.needsUpdate = true
-      }
-    } else {
-      // Hide water particles
-      if (waterParticlesRef.current) {
-        waterParticlesRef.current.visible = false
-      }
-    }
-
-    // Check refill stations
-    newPlayer.isRefilling = false
-    for (const station of gameState.refillStations) {
-      const distance = distance3D(newPlayer.position, station.position)
-      if (distance < station.radius) {
-        newPlayer.isRefilling = true
-        newPlayer.waterLevel = Math.min(newPlayer.maxWater, newPlayer.waterLevel + REFILL_RATE * deltaTime * 60)
-        break
-      }
-    }
-
-    // Reset mouse movement
-    mouseRef.current.x = 0
-    mouseRef.current.y = 0
-
-    return newPlayer
+  // The first key bound to an action, for the on-screen hints
+  const primaryKey = (action: InputAction): string => {
+    const key = bindings[action][0]
+    return key === undefined ? '—' : keyLabel(key)
   }
+  const toolKeys = Object.fromEntries(TOOL_IDS.map(tool => [tool, primaryKey(`equip:${tool}`)])) as Record<ToolId, string>
 
-  // Update fire spread
-  const updateFires = (fires: Map<string, FireCell>, deltaTime: number): Map<string, FireCell> => {
-    const newFires = new Map(fires)
-    const scene = sceneRef.current
-    if (!scene) return newFires
-
-    // Update existing fires
-    for (const [key, fire] of newFires) {
-      fire.spreadTime += deltaTime
-      fire.intensity = Math.min(1, fire.intensity + deltaTime * 0.1)
-      console.log(key);
-
-      // Update fire visual intensity for particle system
-      if (fire.mesh) {
-        // Update particle colors based on intensity
-        const geometry = fire.mesh.geometry as THREE.BufferGeometry
-        const colors = geometry.attributes.color.array as Float32Array
-        
-        for (let i = 0; i < colors.length; i += 3) {
-          const colorIntensity = Math.random() * fire.intensity
-          colors[i] = fire.intensity // Red
-          colors[i + 1] = colorIntensity * fire.intensity * 0.8 // Green (for yellow)
-          colors[i + 2] = 0 // Blue
-        }
-        
-        geometry.attributes.color.needsUpdate = true
-        fire.mesh.scale.set(fire.intensity, fire.intensity, fire.intensity)
-      }
-
-      // Spread fire to adjacent cells (slower rate)
-      if (fire.spreadTime > FIRE_SPREAD_RATE / gameState.gameSpeed) {
-        fire.spreadTime = 0
-        const spreadChance = fire.intensity * gameState.windSpeed * 0.2 // Reduced spread chance
-
-        // Try to spread in wind direction and random directions
-        const directions = [
-          { x: GRID_SIZE, z: 0 },
-          { x: -GRID_SIZE, z: 0 },
-          { x: 0, z: GRID_SIZE },
-          { x: 0, z: -GRID_SIZE }
-        ]
-
-        for (const dir of directions) {
-          if (Math.random() < spreadChance) {
-            const newX = fire.x + dir.x + gameState.windDirection.x * GRID_SIZE
-            const newZ = fire.z + dir.z + gameState.windDirection.z * GRID_SIZE
-            const newKey = `${Math.floor(newX / GRID_SIZE)}-${Math.floor(newZ / GRID_SIZE)}`
-
-            const halfWorld = WORLD_SIZE / 2
-            if (Math.abs(newX) < halfWorld && Math.abs(newZ) < halfWorld && !newFires.has(newKey)) {
-              // Create realistic spreading fire with enhanced spherical particles
-              const particleCount = 250
-              const fireGeometry = new THREE.BufferGeometry()
-              const positions = new Float32Array(particleCount * 3)
-              const colors = new Float32Array(particleCount * 3)
-              const sizes = new Float32Array(particleCount)
-
-              const fireIntensity = 0.3
-              
-              for (let p = 0; p < particleCount; p++) {
-                // Random positions within fire area
-                const radius = Math.random() * 1
-                const angle = Math.random() * Math.PI * 2
-                const height = Math.random() * 2
-                
-                positions[p * 3] = Math.cos(angle) * radius
-                positions[p * 3 + 1] = height
-                positions[p * 3 + 2] = Math.sin(angle) * radius
-                
-                // Fire colors (red to yellow gradient)
-                const colorIntensity = Math.random()
-                colors[p * 3] = fireIntensity // Red
-                colors[p * 3 + 1] = colorIntensity * fireIntensity * 0.8 // Green (for yellow)
-                colors[p * 3 + 2] = 0 // Blue
-                
-                sizes[p] = Math.random() * 2 + 0.5
-              }
-              
-              fireGeometry.setAttribute('position', new THREE.BufferAttribute(positions, 3))
-              fireGeometry.setAttribute('color', new THREE.BufferAttribute(colors, 3))
-              fireGeometry.setAttribute('size', new THREE.BufferAttribute(sizes, 1))
-              
-              const fireMaterial = new THREE.PointsMaterial({
-                size: 0.2,
-                vertexColors: true,
-                transparent: true,
-                opacity: 0.7,
-                blending: THREE.AdditiveBlending,
-                map: (() => {
-                  const canvas = document.createElement('canvas')
-                  canvas.width = 16
-                  canvas.height = 16
-                  const context = canvas.getContext('2d')!
-                  const gradient = context.createRadialGradient(8, 8, 0, 8, 8, 8)
-                  gradient.addColorStop(0, 'rgba(255,255,255,0.8)')
-                  gradient.addColorStop(0.3, 'rgba(255,255,0,0.6)')
-                  gradient.addColorStop(0.6, 'rgba(255,128,0,0.4)')
-                  gradient.addColorStop(1, 'rgba(255,0,0,0)')
-                  context.fillStyle = gradient
-                  context.fillRect(0, 0, 16, 16)
-                  const texture = new THREE.CanvasTexture(canvas)
-                  return texture
-                })()
-              })
-              
-              const fireMesh = new THREE.Points(fireGeometry, fireMaterial)
-              fireMesh.position.set(newX, 0, newZ)
-              scene.add(fireMesh)
-
-              newFires.set(newKey, {
-                x: Math.floor(newX / GRID_SIZE) * GRID_SIZE,
-                z: Math.floor(newZ / GRID_SIZE) * GRID_SIZE,
-                intensity: fireIntensity,
-                spreadTime: 0,
-                mesh: fireMesh
-              })
-            }
-          }
-        }
-      }
-    }
-
-    return newFires
+  // Capture the mouse for mouse-look when the game view is clicked during a round
+  const handleViewClick = (): void => {
+    if (isMobile || replayView || paused || gameState.gameStatus !== 'playing') return
+    mountRef.current?.requestPointerLock()
   }
 
-  // Check water collision with fires
-  const checkWaterFireCollision = (player: Player, fires: Map<string, FireCell>, deltaTime: number): Map<string, FireCell> => {
-    const newFires = new Map(fires)
-    const scene = sceneRef.current
-    if (!scene) return newFires
-
-    if (keysRef.current.has(' ') && player.waterLevel > 0) {
-      for (const [key, fire] of newFires) {
-        const firePos = { x: fire.x, y: 0, z: fire.z }
-        const distToFire = distance3D(player.position, firePos)
-        
-        if (distToFire < WATER_RANGE) {
-          // Check if fire is in water direction (cone)
-          const dirToFire = normalize3D({ 
-            x: firePos.x - player.position.x, 
-            y: 0, 
-            z: firePos.z - player.position.z 
-          })
-          const waterDirection = { 
-            x: Math.sin(player.rotation), 
-            y: 0, 
-            z: -Math.cos(player.rotation) 
-          }
-          
-          const dotProduct = dirToFire.x * waterDirection.x + dirToFire.z * waterDirection.z
-          
-          if (dotProduct > 0.4) { // 70-degree cone
-            fire.intensity -= 1.5 * deltaTime // Reduce intensity faster
-            if (fire.intensity <= 0) {
-              if (fire.mesh) {
-                // Proper Three.js resource disposal
-                if (fire.mesh.geometry) {
-                  fire.mesh.geometry.dispose()
-                }
-                if (fire.mesh.material) {
-                  // Handle both single Material and Material[] cases
-                  const materials = Array.isArray(fire.mesh.material) ? fire.mesh.material : [fire.mesh.material]
-                  materials.forEach(material => {
-                    if (material instanceof THREE.PointsMaterial) {
-                      if (material.map) {
-                        material.map.dispose()
-                      }
-                    }
-                    material.dispose()
-                  })
-                }
-                scene.remove(fire.mesh)
-              }
-              newFires.delete(key)
-            }
-          }
-        }
-      }
+  // Keys, gamepad, mouse-look and touch buttons as simulation input, for the given seconds of simulation
+  const readInput = useCallback((seconds: number): PlayerInput => {
+    const sources: ControlSources = {
+      bindings: bindingsRef.current,
+      heldKeys: keysRef.current,
+      gamepad: gamepadRef.current,
+      touchShooting: touchShootingRef.current
     }
-
-    return newFires
-  }
-
-  // Check game conditions
-  const checkGameConditions = (player: Player, fires: Map<string, FireCell>): 'playing' | 'won' | 'lost' => {
-    // Check if player is too close to any fire
-    for (const fire of fires.values()) {
-      const firePos = { x: fire.x, y: 0, z: fire.z }
-      if (distance3D(player.position, firePos) < 1.5) {
-        return 'lost'
-      }
+    const input = combineInput(sources, selectedToolRef.current)
+    const mouseLook = mouseLookRef.current
+    if (isHeld(sources, 'refill')) {
+      const { player, refillStations } = liveStateRef.current
+      Object.assign(input, steerToStation(player, refillStations, seconds))
+      mouseLook.clear()
+    } else if (input.turn === 0) {
+      input.turn = mouseLook.turnFor(seconds)
+    } else {
+      mouseLook.clear()
     }
+    // Run on exactly what the input log will record
+    return quantizeInput(input)
+  }, [])
 
-    // Check if all fires are extinguished
-    if (fires.size === 0) {
-      return 'won'
+  // Move the player mesh and spray to match the simulated player; sprayTool is the tool spraying, if any
+  const syncPlayerView = useCallback((player: PlayerState, sprayTool: ToolId | null): void => {
+    const mesh = playerMeshRef.current
+    if (mesh) {
+      mesh.position.x = player.position.x
+      mesh.position.y = player.position.y + PLAYER_HEIGHT / 2
+      mesh.position.z = player.position.z
+      mesh.rotation.y = player.rotation
     }
 
-    return 'playing'
-  }
+    const waterParticles = waterParticlesRef.current
+    if (!waterParticles) return
+    waterParticles.visible = sprayTool !== null
+    if (!sprayTool) return
+
+    // Extinguisher foam is white, water is blue
+    const material = waterParticles.material as THREE.PointsMaterial
+    material.color.set(sprayTool === 'extinguisher' ? 0xf0f0f0 : 0x87CEEB)
+    const positions = waterParticles.geometry.attributes.position.array as Float32Array
+    for (let i = 0; i < positions.length; i += 3) {
+      const angle = player.rotation + (Math.random() - 0.5) * 0.5
+      const distance = Math.random() * TOOLS[sprayTool].range
+      positions[i] = player.position.x + Math.sin(angle) * distance
+      positions[i + 1] = player.position.y + 1 + Math.random() * 2
+      positions[i + 2] = player.position.z - Math.cos(angle) * distance
+    }
+    waterParticles.geometry.attributes.position.needsUpdate = true
+  }, [])
 
   // Update camera to follow player (3rd person)
-  const updateCamera = (player: Player): void => {
+  const updateCamera = useCallback((player: PlayerState): void => {
     const camera = cameraRef.current
     if (!camera) return
 
     // 3rd person camera following player
     const targetX = player.position.x - Math.sin(player.rotation) * CAMERA_DISTANCE
     const targetZ = player.position.z + Math.cos(player.rotation) * CAMERA_DISTANCE
-    const targetY = CAMERA_HEIGHT
+    const targetY = player.position.y + CAMERA_HEIGHT
 
     camera.position.lerp(new THREE.Vector3(targetX, targetY, targetZ), 0.1)
     camera.lookAt(player.position.x, player.position.y + 2, player.position.z)
-  }
+  }, [])
 
-  // Regenerate trees and add them to scene
-  const regenerateTrees = (): void => {
+  // Replace the refill station meshes with the given layout
+  const buildStationMeshes = useCallback((stations: RefillStation[]): void => {
     const scene = sceneRef.current
     if (!scene) return
-    
-    // Remove existing trees from scene
-    const objectsToRemove: THREE.Object3D[] = []
-    scene.traverse((child) => {
-      if (child.userData.isTree) {
-        objectsToRemove.push(child)
-      }
+
+    stationMeshesRef.current.forEach(mesh => {
+      mesh.geometry.dispose()
+      scene.remove(mesh)
     })
-    objectsToRemove.forEach(obj => scene.remove(obj))
-    
-    // Generate new random trees
-    const newTrees = generateTrees(gameState.refillStations)
-    
-    // Create 3D tree meshes in the scene
-    newTrees.forEach(tree => {
-      const treeHeight = Math.random() * 3 + 4 // 4-7 units tall
-      const fullRadius = tree.radius / 0.8 // Convert back from collision radius
-      
-      // Tree trunk
-      const trunkGeometry = new THREE.CylinderGeometry(0.2, 0.3, 1.5, 8)
-      const trunkMaterial = new THREE.MeshLambertMaterial({ color: 0x8B4513 }) // Brown
-      const trunk = new THREE.Mesh(trunkGeometry, trunkMaterial)
-      trunk.position.set(tree.x, 0.75, tree.z)
-      trunk.castShadow = true
-      trunk.receiveShadow = true
-      trunk.userData = { isTree: true } // Mark for easy cleanup
-      scene.add(trunk)
-      
-      // Tree foliage (green cone)
-      const foliageGeometry = new THREE.ConeGeometry(fullRadius, treeHeight, 8)
-      const foliageMaterial = new THREE.MeshLambertMaterial({ color: 0x228B22 }) // Forest green
-      const foliage = new THREE.Mesh(foliageGeometry, foliageMaterial)
-      foliage.position.set(tree.x, 1.5 + treeHeight / 2, tree.z)
-      foliage.castShadow = true
-      foliage.receiveShadow = true
-      foliage.userData = { isTree: true } // Mark for easy cleanup
-      scene.add(foliage)
+
+    stationMeshesRef.current = stations.map(station => {
+      const stationGeometry = new THREE.CylinderGeometry(station.radius, station.radius, 0.5, 16)
+      const stationMaterial = new THREE.MeshLambertMaterial({ color: 0x4a90e2 })
+      const stationMesh = new THREE.Mesh(stationGeometry, stationMaterial)
+      stationMesh.position.set(station.position.x, station.position.y + 0.1, station.position.z) // Slightly raised for visibility
+      stationMesh.castShadow = true
+      stationMesh.receiveShadow = true
+      scene.add(stationMesh)
+      return stationMesh
     })
-    
-    // Update game state with new tree positions
-    setGameState(prev => ({ ...prev, trees: newTrees }))
-  }
+  }, [])
+
+  // Rebuild the scene for a world's terrain, stations and forest, and put its level and seed in the URL
+  const showWorld = useCallback((world: SimulationState): void => {
+    const { level, seed } = world
+    terrainRef.current = world.terrain
+    const ground = groundRef.current
+    if (ground) {
+      ground.geometry.dispose()
+      ground.geometry = createTerrainGeometry(world.terrain)
+    }
+    buildStationMeshes(world.refillStations)
+    forestRendererRef.current?.build(world.trees, world.fuel)
+
+    const url = new URL(window.location.href)
+    url.searchParams.set('level', level.id)
+    if (level.id === FREE_PLAY_LEVEL_ID) {
+      url.searchParams.set('seed', seed)
+    } else {
+      url.searchParams.delete('seed')
+    }
+    window.history.replaceState(null, '', url)
+  }, [buildStationMeshes])
+
+  // Set up a fresh round for a level and seed and remember it in the URL so it can be shared
+  const loadWorld = useCallback((level: LevelDefinition, seed: string): SimulationState => {
+    const world = createSimulation(level, seed, { hardcore: hardcoreRef.current })
+    showWorld(world)
+    return world
+  }, [showWorld])
+
+  // Replace the live round outright, e.g. for a new level, and show it straight away
+  const commitGameState = useCallback((state: GameState): void => {
+    liveStateRef.current = state
+    publishedStateRef.current = state
+    previousPlayerRef.current = state.player
+    setGameState(state)
+    pausedRef.current = false
+    setPaused(false)
+  }, [])
+
+  // Hand the live round to React for the HUD, at most every HUD_UPDATE_INTERVAL unless the round just ended or began
+  const publishGameState = useCallback((now: number): void => {
+    const state = liveStateRef.current
+    const published = publishedStateRef.current
+    if (state === published) return
+    if (state.gameStatus === published.gameStatus && now - hudUpdatedAtRef.current < HUD_UPDATE_INTERVAL) return
+    hudUpdatedAtRef.current = now
+    publishedStateRef.current = state
+    setGameState(state)
+  }, [])
+
+  const updateReplayView = useCallback((view: ReplayView | null): void => {
+    replayViewRef.current = view
+    setReplayView(view)
+  }, [])
+
+  // Bring the fires, smoke, embers, trees and bomber drops in line with the world being shown
+  const syncWorldView = useCallback((state: SimulationState): void => {
+    if (state.fires !== syncedFiresRef.current) {
+      syncedFiresRef.current = state.fires
+      fireRendererRef.current?.sync(state.fires)
+      smokeRendererRef.current?.sync(state.fires, { direction: state.windDirection, speed: state.windSpeed })
+    }
+    if (state.embers !== syncedEmbersRef.current) {
+      syncedEmbersRef.current = state.embers
+      emberRendererRef.current?.sync(state.embers)
+    }
+    if (state.fuel !== syncedFuelRef.current) {
+      syncedFuelRef.current = state.fuel
+      forestRendererRef.current?.sync(state.fuel)
+    }
+
+    // Splash the water bomber's drop when its cooldown restarts
+    const { bomberCooldown } = state.player.equipment
+    if (bomberCooldown > lastBomberCooldownRef.current) {
+      const target = aheadOf(state.player, TOOLS.bomber.range)
+      dropRendererRef.current?.drop(target.x, target.z, DROP_RADIUS)
+    }
+    lastBomberCooldownRef.current = bomberCooldown
+  }, [])
 
-  // Main game loop
+  // Main game loop. It only touches refs and callbacks that never change, so it never waits on a React render
   const gameLoop = useCallback((currentTime: number) => {
-    const deltaTime = (currentTime - lastFrameTimeRef.current) / 1000
+    const deltaTime = Math.min(0.25, (currentTime - lastFrameTimeRef.current) / 1000)
     lastFrameTimeRef.current = currentTime
 
     // FPS calculation
@@ -901,26 +647,100 @@ const generateTrees = useCallback((refillStations: RefillStation[]) => {
       fpsUpdateTimeRef.current = currentTime
     }
 
-    if (gameState.gameStatus === 'playing') {
-      setGameState(prevState => {
-        const updatedPlayer = updatePlayer(prevState.player, deltaTime)
-        let updatedFires = updateFires(prevState.fires, deltaTime)
-        updatedFires = checkWaterFireCollision(updatedPlayer, updatedFires, deltaTime)
-        const newGameStatus = checkGameConditions(updatedPlayer, updatedFires)
-
-        // Update camera
-        updateCamera(updatedPlayer)
-
-        return {
-          ...prevState,
-          player: updatedPlayer,
-          fires: updatedFires,
-          gameStatus: newGameStatus,
-          timeElapsed: prevState.timeElapsed + deltaTime,
-          gameSpeed: Math.min(1.8, 1 + prevState.timeElapsed / 90) // Slower difficulty increase
+    // Gamepads only report their state when asked
+    const gamepad = gamepadReaderRef.current.poll()
+    gamepadRef.current = gamepad
+    gamepad?.pressed.forEach(triggerAction)
+
+    const replayPlayer = replayPlayerRef.current
+    const replay = replayViewRef.current
+    if (replay && replayPlayer) {
+      // Step the recording instead of the live game, scaled by the playback speed
+      let alpha = 1
+      if (replay.playing) {
+        replayAccumulatorRef.current += deltaTime * replay.speed
+        const ticks = Math.floor(replayAccumulatorRef.current / SIM_TIMESTEP)
+        replayAccumulatorRef.current -= ticks * SIM_TIMESTEP
+        if (ticks > 0) {
+          previousPlayerRef.current = replayPlayer.state.player
+          replayPlayer.advance(ticks)
         }
-      })
+        alpha = replayAccumulatorRef.current / SIM_TIMESTEP
+
+        const ended = replayPlayer.state.tick >= replayPlayer.totalTicks
+        if (ended || currentTime - hudUpdatedAtRef.current >= HUD_UPDATE_INTERVAL) {
+          hudUpdatedAtRef.current = currentTime
+          updateReplayView({ ...replay, state: replayPlayer.state, playing: !ended })
+        }
+      }
+
+      const { player, refillStations } = replayPlayer.state
+      const { input } = replayPlayer
+      const shown = interpolatePlayer(previousPlayerRef.current, player, alpha)
+      syncWorldView(replayPlayer.state)
+      syncPlayerView(shown, isToolSpraying(player, input, refillStations) ? input.tool : null)
+      if (replay.freeCamera) {
+        orbitControlsRef.current?.update()
+      } else {
+        updateCamera(shown)
+      }
+    } else if (coopConnectionRef.current) {
+      // The room simulates co-op rounds; only send input when it changes
+      const state = liveStateRef.current
+      if (state.gameStatus === 'playing') {
+        const input = encodeInput(readInput(deltaTime))
+        if (input !== lastSentInputRef.current) {
+          lastSentInputRef.current = input
+          coopConnectionRef.current.send({ type: 'input', input })
+        }
+      }
+      // Glide from the previous snapshot to the latest one over the gap until the next arrives
+      const snapshotInterval = SNAPSHOT_INTERVAL_TICKS * SIM_TIMESTEP * 1000
+      const alpha = Math.min(1, (currentTime - snapshotReceivedAtRef.current) / snapshotInterval)
+      const shown = interpolatePlayer(previousPlayerRef.current, state.player, alpha)
+      syncWorldView(state)
+      syncPlayerView(shown, coopSprayingRef.current ? selectedToolRef.current : null)
+      updateCamera(shown)
+    } else {
+      if (liveStateRef.current.gameStatus === 'playing' && !pausedRef.current) {
+        // Accumulate frame time and advance the simulation in fixed steps
+        simAccumulatorRef.current += deltaTime
+        let simSteps = 0
+        while (simAccumulatorRef.current >= SIM_TIMESTEP && simSteps < MAX_SIM_STEPS_PER_FRAME) {
+          simAccumulatorRef.current -= SIM_TIMESTEP
+          simSteps++
+        }
+        if (simSteps === MAX_SIM_STEPS_PER_FRAME) {
+          simAccumulatorRef.current = 0
+        }
+        const input = readInput(simSteps * SIM_TIMESTEP)
+        recordInput(inputLogRef.current, input, simSteps)
+
+        let state = liveStateRef.current
+        for (let step = 0; step < simSteps; step++) {
+          previousPlayerRef.current = state.player
+          state = stepSimulation(state, input)
+          if (shouldRecordChecksum(state.tick)) {
+            checksumsRef.current.set(state.tick, simulationChecksum(state))
+          }
+        }
+        liveStateRef.current = state
+
+        // Draw the player the rest of the way towards the next step
+        const shown = interpolatePlayer(previousPlayerRef.current, state.player, simAccumulatorRef.current / SIM_TIMESTEP)
+        syncPlayerView(shown, isToolSpraying(state.player, input, state.refillStations) ? input.tool : null)
+        updateCamera(shown)
+      }
+      syncWorldView(liveStateRef.current)
+    }
+    publishGameState(currentTime)
+
+    fireRendererRef.current?.update(deltaTime)
+    if (playerMeshRef.current) {
+      smokeRendererRef.current?.update(deltaTime, playerMeshRef.current.position)
     }
+    teammateRendererRef.current?.update(deltaTime)
+    dropRendererRef.current?.update(deltaTime)
 
     // Render
     if (rendererRef.current && sceneRef.current && cameraRef.current) {
@@ -928,60 +748,232 @@ const generateTrees = useCallback((refillStations: RefillStation[]) => {
     }
 
     gameLoopRef.current = requestAnimationFrame(gameLoop)
-  }, [gameState])
+  }, [triggerAction, readInput, updateReplayView, syncWorldView, syncPlayerView, updateCamera, publishGameState])
 
   // Start game
-  const startGame = (): void => {
-    const newFires = initializeFires()
-    setGameState(prevState => ({
-      ...prevState,
-      gameStatus: 'playing',
-      fires: newFires,
-      player: {
-        ...prevState.player,
-        position: { x: 0, y: 0, z: 0 },
-        rotation: 0,
-        waterLevel: 100,
-        isRefilling: false
-      },
-      timeElapsed: 0,
-      gameSpeed: 1
-    }))
+  const startGame = (level: LevelDefinition = gameState.level, seed: string = gameState.seed): void => {
+    const world = loadWorld(level, level.seed || seed)
+    simAccumulatorRef.current = 0
+    inputLogRef.current = []
+    checksumsRef.current = new Map()
+    syncPlayerView(world.player, null)
+    commitGameState(world)
+    setMapExpanded(false)
+    setRankedDaily(false)
     setShowTutorial(false)
+    discardSavedGame()
   }
 
-  // Reset game
+  // Pick a saved round back up exactly where it stopped
+  const resumeGame = (save: SavedGame): void => {
+    let world: SimulationState
+    try {
+      world = deserializeSimulation(save.state)
+    } catch (error) {
+      console.error('Failed to resume saved game:', error)
+      discardSavedGame()
+      return
+    }
+
+    showWorld(world)
+    simAccumulatorRef.current = 0
+    inputLogRef.current = [...save.inputs]
+    checksumsRef.current = new Map(save.checksums)
+    // Don't splash a bomber drop that happened before the save
+    lastBomberCooldownRef.current = world.player.equipment.bomberCooldown
+    syncPlayerView(world.player, null)
+    commitGameState(world)
+    setMapExpanded(false)
+    setRankedDaily(save.rankedDaily)
+    setShowTutorial(false)
+  }
+
+  // Forget the saved round here and on the server, once it's finished or replaced
+  const discardSavedGame = useCallback((): void => {
+    clearLocalSave()
+    setSavedGame(null)
+    if (farcasterUserRef.current) {
+      sdk.quickAuth.fetch('/api/saves', { method: 'DELETE' })
+        .catch(error => console.error('Failed to delete saved game:', error))
+    }
+  }, [])
+
+  // Play today's Daily Fire; only the claimed ranked attempt is submitted
+  const playDaily = (seed: string, ranked: boolean): void => {
+    startGame(FREE_PLAY_LEVEL, seed)
+    setRankedDaily(ranked)
+  }
+
+  // Reset game on the same forest
   const resetGame = (): void => {
-    // Clear existing fires from scene with proper resource disposal
-    const scene = sceneRef.current
-    if (scene) {
-      gameState.fires.forEach(fire => {
-        if (fire.mesh) {
-          // Proper Three.js resource disposal
-          if (fire.mesh.geometry) {
-            fire.mesh.geometry.dispose()
+    startGame(gameState.level, gameState.seed)
+  }
+
+  // Back to the level select screen
+  const showLevelSelect = (): void => {
+    setShowTutorial(true)
+    // Reset game status to hide Game Over modal
+    commitGameState({ ...liveStateRef.current, gameStatus: 'tutorial' })
+  }
+
+  // Watch a recording from the start, by default the round that just ended
+  const watchReplay = (replay: Replay | null = lastReplay): void => {
+    if (!replay) return
+    const replayPlayer = createReplayPlayer(replay)
+    replayPlayerRef.current = replayPlayer
+    replayAccumulatorRef.current = 0
+    previousPlayerRef.current = replayPlayer.state.player
+    updateReplayView({ state: replayPlayer.state, playing: true, speed: 1, freeCamera: false })
+  }
+
+  const seekReplay = (tick: number): void => {
+    const replayPlayer = replayPlayerRef.current
+    const replay = replayViewRef.current
+    if (!replayPlayer || !replay) return
+    replayPlayer.seek(tick)
+    previousPlayerRef.current = replayPlayer.state.player
+    updateReplayView({ ...replay, state: replayPlayer.state })
+  }
+
+  const toggleReplayPlaying = (): void => {
+    const replayPlayer = replayPlayerRef.current
+    const replay = replayViewRef.current
+    if (!replayPlayer || !replay) return
+    // Playing from the end starts over
+    if (!replay.playing && replayPlayer.state.tick >= replayPlayer.totalTicks) {
+      replayPlayer.seek(0)
+    }
+    previousPlayerRef.current = replayPlayer.state.player
+    updateReplayView({ ...replay, state: replayPlayer.state, playing: !replay.playing })
+  }
+
+  // Orbit the scene with the mouse or touch instead of following the player
+  const toggleFreeCamera = (): void => {
+    const replay = replayViewRef.current
+    if (!replay || !cameraRef.current || !rendererRef.current) return
+    if (replay.freeCamera) {
+      orbitControlsRef.current?.dispose()
+      orbitControlsRef.current = undefined
+    } else {
+      const controls = new OrbitControls(cameraRef.current, rendererRef.current.domElement)
+      const { position } = replay.state.player
+      controls.target.set(position.x, position.y, position.z)
+      orbitControlsRef.current = controls
+    }
+    updateReplayView({ ...replay, freeCamera: !replay.freeCamera })
+  }
+
+  const exportReplay = (): void => {
+    if (!lastReplay) return
+    const blob = new Blob([JSON.stringify(lastReplay)], { type: 'application/json' })
+    const link = document.createElement('a')
+    link.href = URL.createObjectURL(blob)
+    link.download = `wildfirefighters-replay-${lastReplay.levelId}-${lastReplay.seed}.json`
+    link.click()
+    URL.revokeObjectURL(link.href)
+  }
+
+  const exitReplay = (): void => {
+    orbitControlsRef.current?.dispose()
+    orbitControlsRef.current = undefined
+    replayPlayerRef.current = undefined
+    previousPlayerRef.current = liveStateRef.current.player
+    syncPlayerView(liveStateRef.current.player, null)
+    updateReplayView(null)
+    if (liveStateRef.current.gameStatus === 'tutorial') setShowTutorial(true)
+  }
+
+  // Load an exported replay file and watch it on its own level and seed
+  const openReplayFile = async (file: File): Promise<void> => {
+    try {
+      const replay = parseReplay(JSON.parse(await file.text()))
+      const level = getLevel(replay.levelId)!
+      const world = loadWorld(level, replay.seed)
+      commitGameState({ ...world, gameStatus: 'tutorial', fires: new Map() })
+      setLastReplay(replay)
+      setShowTutorial(false)
+      watchReplay(replay)
+    } catch (error) {
+      console.error('Failed to open replay:', error)
+      alert(error instanceof Error ? error.message : 'Could not open this replay file')
+    }
+  }
+
+  // Join a co-op room, creating it on the selected level and seed if nobody is in it yet
+  const joinCoopRoom = (roomId: string): void => {
+    coopConnectionRef.current?.close()
+    coopWorldRef.current = undefined
+    lastSentInputRef.current = -1
+    setCoopRoom({ roomId, playerId: null, phase: 'lobby', hostId: null, players: [], error: null })
+
+    let playerId: string | null = null
+    const handlers = {
+      onMessage: (message: ServerMessage): void => {
+        switch (message.type) {
+          case 'welcome': {
+            playerId = message.playerId
+            const level = getLevel(message.levelId) ?? FREE_PLAY_LEVEL
+            const world = loadWorld(level, message.seed)
+            coopWorldRef.current = world
+            syncPlayerView(world.player, null)
+            commitGameState({ ...world, gameStatus: 'tutorial', fires: new Map() })
+            setCoopRoom(prev => prev && { ...prev, playerId, error: null })
+            break
           }
-          if (fire.mesh.material) {
-            // Handle both single Material and Material[] cases
-            const materials = Array.isArray(fire.mesh.material) ? fire.mesh.material : [fire.mesh.material]
-            materials.forEach(material => {
-              if (material instanceof THREE.PointsMaterial) {
-                if (material.map) {
-                  material.map.dispose()
-                }
-              }
-              material.dispose()
-            })
+          case 'lobby':
+            setCoopRoom(prev => prev && { ...prev, phase: message.phase, hostId: message.hostId, players: message.players })
+            if (message.phase === 'playing') setShowTutorial(false)
+            break
+          case 'snapshot': {
+            const base = coopWorldRef.current
+            if (!base || !playerId) break
+            const view = applyRoomSnapshot(base, message.snapshot, playerId)
+            coopSprayingRef.current = view.spraying
+            teammateRendererRef.current?.sync(view.teammates)
+            setTeammates(view.teammates)
+            // The loop draws and publishes it from here
+            previousPlayerRef.current = liveStateRef.current.player
+            liveStateRef.current = view.state
+            snapshotReceivedAtRef.current = performance.now()
+            break
           }
-          scene.remove(fire.mesh)
+          case 'error':
+            setCoopRoom(prev => prev && { ...prev, error: message.message })
+            break
         }
-      })
+      },
+      onClose: (): void => {
+        // A socket we've already replaced or left can close late; ignore it
+        if (coopConnectionRef.current !== connection) return
+        coopConnectionRef.current = undefined
+        teammateRendererRef.current?.sync([])
+        setTeammates([])
+        setCoopRoom(prev => prev && { ...prev, playerId: null, error: prev.error ?? 'Disconnected from the room' })
+      }
     }
-    
-    // Regenerate trees with new random positions
-    regenerateTrees()
-    
-    startGame()
+
+    const { level, seed } = gameState
+    const connection: RoomConnection = MULTIPLAYER_URL
+      ? connectWebSocket(roomUrl(MULTIPLAYER_URL, roomId, level.id, seed), handlers)
+      : connectLocalRoom(getLocalRoom(roomId, level, seed), handlers)
+    coopConnectionRef.current = connection
+    connection.send({ type: 'join', name: farcasterUser?.username ?? 'Firefighter' })
+  }
+
+  const startCoopRound = (): void => {
+    lastSentInputRef.current = -1
+    coopConnectionRef.current?.send({ type: 'start' })
+  }
+
+  const leaveCoopRoom = (): void => {
+    const connection = coopConnectionRef.current
+    coopConnectionRef.current = undefined
+    connection?.close()
+    coopWorldRef.current = undefined
+    teammateRendererRef.current?.sync([])
+    setTeammates([])
+    setCoopRoom(null)
+    showLevelSelect()
   }
 
   // Mobile touch handlers
@@ -1012,7 +1004,7 @@ const generateTrees = useCallback((refillStations: RefillStation[]) => {
         (y - mobileControls.shootButton.position.y) ** 2
       )
       if (shootDist < mobileControls.shootButton.size) {
-        keysRef.current.add(' ')
+        touchShootingRef.current = true
         setMobileControls(prev => ({
           ...prev,
           shootButton: { ...prev.shootButton, active: true }
@@ -1021,11 +1013,21 @@ const generateTrees = useCallback((refillStations: RefillStation[]) => {
     }
   }, [isMobile, gameState.gameStatus, mobileControls])
 
+  // The replay, while one is being watched, otherwise the live game
+  const view = replayView?.state ?? gameState
+
   // Initialize scene when component mounts
   useEffect(() => {
     initScene()
 
     return () => {
+      fireRendererRef.current?.dispose()
+      forestRendererRef.current?.dispose()
+      teammateRendererRef.current?.dispose()
+      dropRendererRef.current?.dispose()
+      smokeRendererRef.current?.dispose()
+      emberRendererRef.current?.dispose()
+      coopConnectionRef.current?.close()
       if (rendererRef.current) {
         rendererRef.current.dispose?.() // dispose WebGL resources
       }
@@ -1038,6 +1040,147 @@ const generateTrees = useCallback((refillStations: RefillStation[]) => {
     }
   }, [initScene])
 
+  // Pick up a shared level and seed from the URL, or roll a fresh forest
+  useEffect(() => {
+    const savedProgress = loadProgress()
+    setProgress(savedProgress)
+
+    const params = new URLSearchParams(window.location.search)
+    const requestedLevel = getLevel(params.get('level'))
+    const level = requestedLevel && isLevelUnlocked(savedProgress, requestedLevel.id) ? requestedLevel : FREE_PLAY_LEVEL
+    const seed = level.seed || (normalizeSeed(params.get('seed')) ?? generateSeed())
+    const world = loadWorld(level, seed)
+    commitGameState({ ...world, gameStatus: 'tutorial', fires: new Map() })
+    setSavedGame(loadLocalSave())
+    bindingsRef.current = loadBindings()
+    setBindings(bindingsRef.current)
+  }, [loadWorld, commitGameState])
+
+  // A save on the server from another device wins if it is newer than this device's
+  useEffect(() => {
+    if (!farcasterUser) return
+    sdk.quickAuth.fetch('/api/saves')
+      .then(response => {
+        if (!response.ok) throw new Error(`Loading the saved game failed with status ${response.status}`)
+        return response.json()
+      })
+      .then(data => {
+        if (!data.save) return
+        const remote = parseSavedGame(data.save)
+        setSavedGame(local => (local && local.savedAt >= remote.savedAt ? local : remote))
+      })
+      .catch(error => console.error('Failed to load saved game:', error))
+  }, [farcasterUser])
+
+  // Keep saving a running solo round, and save it right away when the app is hidden or closed
+  useEffect(() => {
+    if (gameState.gameStatus !== 'playing') return
+
+    const saveRound = (remote: boolean): void => {
+      const state = liveStateRef.current
+      if (state.gameStatus !== 'playing' || coopConnectionRef.current) return
+      const save = createSavedGame(state, inputLogRef.current, checksumsRef.current, rankedDaily)
+      saveLocally(save)
+      if (!remote || !farcasterUser) return
+
+      const body = JSON.stringify({ save })
+      const init: RequestInit = {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+        // Let the request outlive the page when it's being closed
+        keepalive: body.length <= MAX_KEEPALIVE_BYTES
+      }
+      // Send right away with the session token we already have; waiting for a new one could outlast the page
+      const token = sdk.quickAuth.token
+      const request = token
+        ? fetch('/api/saves', { ...init, headers: { ...init.headers, Authorization: `Bearer ${token}` } })
+        : sdk.quickAuth.fetch('/api/saves', init)
+      request.catch(error => console.error('Failed to save game:', error))
+    }
+
+    const localTimer = setInterval(() => saveRound(false), LOCAL_SAVE_INTERVAL)
+    const remoteTimer = setInterval(() => saveRound(true), REMOTE_SAVE_INTERVAL)
+    const handleVisibilityChange = (): void => {
+      if (document.visibilityState === 'hidden') saveRound(true)
+    }
+    const handlePageHide = (): void => saveRound(true)
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    window.addEventListener('pagehide', handlePageHide)
+
+    return () => {
+      clearInterval(localTimer)
+      clearInterval(remoteTimer)
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+      window.removeEventListener('pagehide', handlePageHide)
+    }
+  }, [gameState.gameStatus, rankedDaily, farcasterUser])
+
+  // A finished round can't be resumed
+  useEffect(() => {
+    if (!gameState.score || coopConnectionRef.current) return
+    discardSavedGame()
+  }, [gameState.score, discardSavedGame])
+
+  // Remember campaign results once a round ends
+  useEffect(() => {
+    const score = gameState.score
+    const levelId = gameState.level.id
+    if (!score || levelId === FREE_PLAY_LEVEL_ID || coopConnectionRef.current) return
+
+    setProgress(prev => {
+      const updated = recordLevelResult(prev, levelId, score)
+      saveProgress(updated)
+      return updated
+    })
+  }, [gameState.score, gameState.level])
+
+  // Keep a recording of every finished round for the replay viewer
+  useEffect(() => {
+    // Co-op rounds are simulated by the room, so there are no local inputs to replay
+    if (!gameState.score || coopConnectionRef.current) return
+    setLastReplay({
+      version: REPLAY_VERSION,
+      levelId: gameState.level.id,
+      seed: gameState.seed,
+      inputs: [...inputLogRef.current],
+      hardcore: gameState.hardcore,
+      checksums: [...checksumsRef.current],
+      recordedAt: Date.now()
+    })
+  }, [gameState.score, gameState.level.id, gameState.seed, gameState.hardcore])
+
+  // Post winning runs to the leaderboard, then refresh the end card's board
+  useEffect(() => {
+    const score = gameState.score
+    if (!score || score.outcome !== 'won' || !farcasterUser || coopConnectionRef.current) return
+    if (dailyDayFromSeed(gameState.seed) && !rankedDaily) return
+    // Signing in after the round ends submits it then, but never twice
+    if (submittedScoreRef.current === score) return
+    submittedScoreRef.current = score
+
+    sdk.quickAuth.fetch('/api/scores', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        username: farcasterUser.username,
+        levelId: gameState.level.id,
+        seed: gameState.seed,
+        points: score.points,
+        stars: score.stars,
+        timeElapsed: score.timeElapsed,
+        treesSavedPercent: score.treesSavedPercent,
+        hardcore: gameState.hardcore,
+        inputs: inputLogRef.current
+      })
+    })
+      .then(response => {
+        if (!response.ok) throw new Error(`Score submission failed with status ${response.status}`)
+        setLeaderboardVersion(version => version + 1)
+      })
+      .catch(error => console.error('Failed to submit score:', error))
+  }, [gameState.score, gameState.level.id, gameState.seed, gameState.hardcore, farcasterUser, rankedDaily])
+
   // Start game loop
   useEffect(() => {
     gameLoopRef.current = requestAnimationFrame(gameLoop)
@@ -1064,53 +1207,144 @@ const generateTrees = useCallback((refillStations: RefillStation[]) => {
   return (
     <div className="relative w-full h-screen bg-black overflow-hidden">
       {/* Game Container */}
-      <div ref={mountRef} className="w-full h-full" />
+      <div ref={mountRef} className="w-full h-full" onClick={handleViewClick} />
+
+      {/* Heat Damage Vignette */}
+      {(replayView || gameState.gameStatus === 'playing') && view.player.health < MAX_HEALTH && (
+        <div
+          className="absolute inset-0 pointer-events-none"
+          style={{
+            boxShadow: `inset 0 0 120px rgba(220, 38, 38, ${0.8 * (1 - view.player.health / MAX_HEALTH)})`
+          }}
+        />
+      )}
 
       {/* Game HUD */}
-      {gameState.gameStatus === 'playing' && (
+      {(replayView || gameState.gameStatus === 'playing') && (
         <>
+          {/* Minimap - Top Left, tap for the full tactical map */}
+          <Minimap
+            state={view}
+            teammates={replayView ? [] : teammates}
+            expanded={mapExpanded}
+            onToggleExpanded={() => setMapExpanded(expanded => !expanded)}
+          />
+
           {/* Stats Monitor - Top Right */}
           <div className="absolute top-4 right-4 bg-black bg-opacity-60 text-white p-3 rounded-lg text-sm space-y-1">
             <div>FPS: {fps}</div>
             <div>Mobile: {isMobile ? 'true' : 'false'}</div>
-            <div>Position: ({Math.round(gameState.player.position.x)}, {Math.round(gameState.player.position.z)})</div>
-            <div>Fires Left: {gameState.fires.size}</div>
+            <div>Position: ({Math.round(view.player.position.x)}, {Math.round(view.player.position.z)})</div>
+            <div>Fires Left: {view.fires.size}</div>
+            <div>Level: {dailyDayFromSeed(view.seed) ? `Daily Fire ${dailyDayFromSeed(view.seed)}` : view.level.name}</div>
+            {view.level.timeLimit !== null && (
+              <div>Time Left: {Math.max(0, Math.ceil(view.level.timeLimit - view.timeElapsed))}s</div>
+            )}
+            <div>Seed: {view.seed}</div>
+            {!replayView && teammates.map(teammate => (
+              <div key={teammate.id}>
+                {teammate.name}: {teammate.caught
+                  ? 'caught 🔥'
+                  : `❤️ ${Math.round(teammate.health)} 💧 ${Math.round(teammate.waterLevel)}%`}
+              </div>
+            ))}
           </div>
 
+          {/* Pause Overlay */}
+          {paused && (
+            <div className="absolute inset-0 z-30 flex items-center justify-center bg-black bg-opacity-50">
+              <div className="bg-black bg-opacity-80 text-white p-6 rounded-lg text-center space-y-3">
+                <div className="text-2xl font-bold">⏸️ Paused</div>
+                <Button onClick={() => setRoundPaused(false)}>▶️ Resume</Button>
+                <div className="text-xs text-gray-300">or press {bindingLabel(bindings, 'pause')}</div>
+              </div>
+            </div>
+          )}
+
           {/* Control Instructions */}
-          <div className="absolute top-4 left-1/2 transform -translate-x-1/2 bg-black bg-opacity-60 text-white p-3 rounded-lg text-sm text-center">
-            <div className="font-semibold mb-1">Controls</div>
-            {isMobile ? (
-              <div>Touch joystick to move • Tap 💧 to shoot water</div>
-            ) : (
-              <div>WASD - Move • ← → Arrows - Rotate • SPACE - Shoot Water</div>
-            )}
-          </div>
+          {!replayView && (
+            <div className="absolute top-4 left-1/2 transform -translate-x-1/2 bg-black bg-opacity-60 text-white p-3 rounded-lg text-sm text-center">
+              <div className="font-semibold mb-1">Controls</div>
+              {isMobile ? (
+                <div>Touch joystick to move • Tap a tool, then {TOOLS[selectedTool].icon} to use it</div>
+              ) : (
+                <div>
+                  {primaryKey('forward')}{primaryKey('strafeLeft')}{primaryKey('back')}{primaryKey('strafeRight')} - Move
+                  {' • '}{primaryKey('turnLeft')} {primaryKey('turnRight')} - Rotate
+                  {' • '}{primaryKey('shoot')} - Use Tool
+                  {' • '}{primaryKey('nextTool')} / {primaryKey('previousTool')} - Switch Tool
+                  {' • '}{primaryKey('refill')} - Go Refill
+                  {' • '}{primaryKey('pause')} - Pause
+                  {' • '}{pointerLocked ? 'Esc - Release Mouse' : 'Click - Mouse-look'}
+                </div>
+              )}
+            </div>
+          )}
 
           {/* Water Level and Wind Info */}
           <div className="absolute bottom-4 left-4 space-y-2">
             <div className="bg-black bg-opacity-60 p-2 rounded text-white">
+              {view.hardcore ? (
+                <div className="text-xs text-red-300 mb-1">💀 Hardcore: one touch of fire and you&apos;re out</div>
+              ) : (
+                <>
+                  <div className="text-xs text-red-300 mb-1">Health</div>
+                  <Progress value={(view.player.health / MAX_HEALTH) * 100} className="w-32 h-2 mb-2 [&>div]:bg-red-500" />
+                </>
+              )}
               <div className="text-xs text-blue-300 mb-1">Water Level</div>
-              <Progress value={gameState.player.waterLevel} className="w-32 h-2" />
+              <Progress value={view.player.waterLevel} className="w-32 h-2" />
             </div>
 
-            <div className="bg-black bg-opacity-60 p-2 rounded text-xs text-white">
-              <div className="text-yellow-300 mb-1">Wind</div>
-              <div>Speed: {gameState.windSpeed.toFixed(1)} mph</div>
-              <div className="flex items-center">
-                <span className="mr-1">Direction:</span>
-                <div 
-                  className="w-4 h-4 bg-yellow-400 rounded flex items-center justify-center"
-                  style={{
-                    transform: `rotate(${Math.atan2(gameState.windDirection.z, gameState.windDirection.x) * 180 / Math.PI}deg)`
-                  }}
-                >→</div>
+            <div className="flex items-end gap-2">
+              <div className="bg-black bg-opacity-60 p-2 rounded text-xs text-white">
+                <div className="text-yellow-300 mb-1">Wind</div>
+                <div>Speed: {view.windSpeed.toFixed(1)} mph</div>
+                <div className="flex items-center">
+                  <span className="mr-1">Direction:</span>
+                  <div 
+                    className="w-4 h-4 bg-yellow-400 rounded flex items-center justify-center"
+                    style={{
+                      transform: `rotate(${Math.atan2(view.windDirection.z, view.windDirection.x) * 180 / Math.PI}deg)`
+                    }}
+                  >→</div>
+                  <span className="ml-1">
+                    {compassDirection(Math.atan2(view.windDirection.z, view.windDirection.x) * 180 / Math.PI)}
+                  </span>
+                </div>
               </div>
+
+              {/* Wind Forecast */}
+              {(() => {
+                const forecast = forecastWind(view.windState, view.windSchedule, view.timeElapsed)
+                if (!forecast) return null
+                const when = forecast.in > 0 ? `in ${Math.ceil(forecast.in)}s` : 'now'
+                return (
+                  <div className="bg-black bg-opacity-60 p-2 rounded text-xs text-white">
+                    <div className="text-yellow-300 mb-1">Forecast</div>
+                    {forecast.kind === 'front' ? (
+                      <div>Wind shifting {compassDirection(forecast.direction)} ({forecast.speed.toFixed(1)} mph) {when}</div>
+                    ) : (
+                      <div>Gust up to {forecast.speed.toFixed(1)} mph {when}</div>
+                    )}
+                  </div>
+                )
+              })()}
             </div>
           </div>
 
+          {/* Equipment - Bottom Center */}
+          <div className={`absolute left-1/2 transform -translate-x-1/2 ${isMobile ? 'bottom-36' : 'bottom-4'}`}>
+            <ToolBar
+              selected={replayView ? replayPlayerRef.current?.input.tool ?? 'jet' : selectedTool}
+              levels={toolLevels(view.player, view.refillStations)}
+              onSelect={replayView ? undefined : selectTool}
+              keys={isMobile ? undefined : toolKeys}
+            />
+          </div>
+
           {/* Mobile Controls Overlay */}
-          {isMobile && (
+          {isMobile && !replayView && (
             <>
               {/* Virtual Joystick */}
               <div 
@@ -1133,17 +1367,35 @@ const generateTrees = useCallback((refillStations: RefillStation[]) => {
                   top: mobileControls.shootButton.position.y - 24 
                 }}
               >
-                💧
+                {TOOLS[selectedTool].icon}
               </div>
             </>
           )}
         </>
       )}
 
+      {/* Replay Viewer */}
+      {replayView && replayPlayerRef.current && (
+        <ReplayControls
+          tick={replayView.state.tick}
+          totalTicks={replayPlayerRef.current.totalTicks}
+          playing={replayView.playing}
+          speed={replayView.speed}
+          freeCamera={replayView.freeCamera}
+          desyncTick={replayPlayerRef.current.desyncTick}
+          onTogglePlay={toggleReplayPlaying}
+          onSpeedChange={speed => updateReplayView({ ...replayView, speed })}
+          onSeek={seekReplay}
+          onToggleFreeCamera={toggleFreeCamera}
+          onExport={exportReplay}
+          onExit={exitReplay}
+        />
+      )}
+
       {/* Tutorial Modal */}
       {showTutorial && (
         <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50">
-          <Card className="w-full max-w-md mx-4">
+          <Card className="w-full max-w-md mx-4 max-h-[90vh] overflow-y-auto">
             <CardContent className="p-6 space-y-4">
               <h2 className="text-2xl font-bold text-center text-orange-500">🔥 WildFireFighters</h2>
               
@@ -1159,39 +1411,92 @@ const generateTrees = useCallback((refillStations: RefillStation[]) => {
                     <div>
                       <p>• Touch joystick to move in 3D space</p>
                       <p>• Tap 💧 button to shoot water</p>
+                      <p>• Tap the tool bar to switch equipment</p>
                       <p>• Find blue cylinder stations to refill</p>
                     </div>
                   ) : (
                     <div>
-                      <p>• WASD keys to move forward/back/strafe</p>
-                      <p>• ← → Arrow keys to rotate and look around</p>
-                      <p>• SPACEBAR to shoot water jets</p>
-                      <p>• Approach blue cylinder stations to refill</p>
+                      <p>• {bindingLabel(bindings, 'forward')}, {bindingLabel(bindings, 'back')}, {bindingLabel(bindings, 'strafeLeft')}, {bindingLabel(bindings, 'strafeRight')} to move forward/back/strafe</p>
+                      <p>• {bindingLabel(bindings, 'turnLeft')} {bindingLabel(bindings, 'turnRight')} to rotate, or click the forest to look around with the mouse</p>
+                      <p>• {bindingLabel(bindings, 'shoot')} to shoot water jets</p>
+                      <p>• {TOOL_IDS.map(tool => primaryKey(`equip:${tool}`)).join(' ')} or {bindingLabel(bindings, 'nextTool')} to switch equipment: extinguisher, station hose, shovel for firebreaks, water bomber</p>
+                      <p>• Approach blue cylinder stations to refill, or hold {bindingLabel(bindings, 'refill')} to head for the nearest</p>
+                      <p>• Gamepads work too: sticks to move and turn, A to spray</p>
                     </div>
                   )}
                 </div>
 
+                {!isMobile && <ControlsSettings bindings={bindings} onChange={changeBindings} />}
+
                 <div className="bg-yellow-50 p-3 rounded">
                   <h3 className="font-semibold mb-2">⚠️ 3D Strategy:</h3>
                   <p>• Fires spread slower but in all directions</p>
                   <p>• Use 3rd-person view to survey the battlefield</p>
+                  <p>• Heat and downwind smoke wear down your health; back off to recover</p>
                   <p>• Don&apos;t get surrounded by fire cones</p>
                   <p>• Wind affects fire spread patterns</p>
+                  <p>• Trees burn hottest, bare ground and water stop the flames</p>
                 </div>
               </div>
 
-              <Button onClick={startGame} className="w-full bg-orange-500 hover:bg-orange-600">
-                Start 3D Fire Fighting! 🚒
-              </Button>
+              {savedGame && !coopRoom && (
+                <Button className="w-full" onClick={() => resumeGame(savedGame)}>
+                  ▶️ Resume {dailyDayFromSeed(savedGame.state.seed)
+                    ? 'Daily Fire'
+                    : getLevel(savedGame.state.levelId)?.name} ({Math.floor(savedGame.state.timeElapsed / 60)}:{String(Math.floor(savedGame.state.timeElapsed % 60)).padStart(2, '0')} in)
+                </Button>
+              )}
+
+              <CoopLobby room={coopRoom} onJoin={joinCoopRoom} onStart={startCoopRound} onLeave={leaveCoopRoom} />
+
+              {!coopRoom && (
+                <>
+                  <label className="flex items-center gap-2 text-sm cursor-pointer">
+                    <input type="checkbox" checked={hardcore} onChange={e => changeHardcore(e.target.checked)} />
+                    <span>💀 Hardcore: no health, one touch of fire and you&apos;re out</span>
+                  </label>
+
+                  <DailyChallenge fid={farcasterUser?.fid} onPlay={playDaily} />
+
+                  <h3 className="font-semibold">🚒 Choose a level:</h3>
+                  <LevelSelect
+                    progress={progress}
+                    onSelect={(level) => startGame(
+                      level,
+                      gameState.level.id === FREE_PLAY_LEVEL_ID && gameState.seed ? gameState.seed : generateSeed()
+                    )}
+                  />
+                </>
+              )}
+
+              <label className="block text-xs text-center text-gray-500 cursor-pointer hover:text-orange-500">
+                🎬 Open a replay file
+                <input
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={e => {
+                    const file = e.target.files?.[0]
+                    e.target.value = ''
+                    if (file) void openReplayFile(file)
+                  }}
+                />
+              </label>
+
+              {gameState.level.id === FREE_PLAY_LEVEL_ID && gameState.seed && (
+                <p className="text-xs text-center text-gray-500">
+                  Free play seed: <span className="font-mono">{gameState.seed}</span> • share this page&apos;s link to play the same forest
+                </p>
+              )}
             </CardContent>
           </Card>
         </div>
       )}
 
       {/* Game Over Modal */}
-      {(gameState.gameStatus === 'won' || gameState.gameStatus === 'lost') && (
+      {!replayView && (gameState.gameStatus === 'won' || gameState.gameStatus === 'lost') && (
         <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50">
-          <Card className="w-full max-w-md mx-4">
+          <Card className="w-full max-w-md mx-4 max-h-[90vh] overflow-y-auto">
             <CardContent className="p-6 space-y-4 text-center">
               {gameState.gameStatus === 'won' ? (
                 <>
@@ -1199,7 +1504,7 @@ const generateTrees = useCallback((refillStations: RefillStation[]) => {
                   <p className="text-lg">You&apos;ve successfully extinguished all 3D wildfires!</p>
                   <div className="bg-green-50 p-4 rounded">
                     <p className="font-semibold">All fires extinguished!</p>
-                    <p>Time: {Math.round(gameState.timeElapsed)}s</p>
+                    {gameState.score && <ScoreSummary score={gameState.score} />}
                     <p className="text-sm text-green-700 mt-2">
                       Outstanding 3D firefighting skills! 🌲
                     </p>
@@ -1208,10 +1513,20 @@ const generateTrees = useCallback((refillStations: RefillStation[]) => {
               ) : (
                 <>
                   <h2 className="text-3xl font-bold text-red-500">💥 Game Over</h2>
-                  <p className="text-lg">You were caught by the spreading wildfire!</p>
+                  <p className="text-lg">
+                    {gameState.endReason === 'time' && 'Time ran out before the fires were out!'}
+                    {gameState.endReason === 'objectives' &&
+                      `The fires are out, but too much forest burned (needed ${gameState.level.objectives.minTreesSavedPercent}% saved).`}
+                    {gameState.endReason === 'caught' && (coopRoom
+                      ? 'Your whole crew was caught by the spreading wildfire!'
+                      : gameState.hardcore
+                        ? 'You were caught by the spreading wildfire!'
+                        : 'The heat and smoke were too much for you!')}
+                  </p>
                   <div className="bg-red-50 p-4 rounded">
                     <p className="font-semibold">Fires remaining: {gameState.fires.size}</p>
                     <p>Time Survived: {Math.round(gameState.timeElapsed)}s</p>
+                    {gameState.score && <ScoreSummary score={gameState.score} />}
                     <p className="text-sm text-red-700 mt-2">
                       Keep practicing your 3D firefighting techniques!
                     </p>
@@ -1219,18 +1534,49 @@ const generateTrees = useCallback((refillStations: RefillStation[]) => {
                 </>
               )}
 
-              <div className="flex gap-3">
-                <Button onClick={resetGame} className="flex-1">
-                  Try Again 🔄
-                </Button>
-                <Button onClick={() => {
-                  setShowTutorial(true)
-                  // Reset game status to hide Game Over modal
-                  setGameState(prev => ({ ...prev, gameStatus: 'tutorial' }))
-                }} variant="outline" className="flex-1">
-                  Instructions 📖
-                </Button>
-              </div>
+              {coopRoom ? (
+                <div className="flex flex-wrap gap-3">
+                  <Button onClick={showLevelSelect} className="flex-1">
+                    Back to Lobby 🚒
+                  </Button>
+                  <Button onClick={leaveCoopRoom} variant="outline" className="flex-1">
+                    Leave Room
+                  </Button>
+                </div>
+              ) : (
+                <>
+                  <Leaderboard
+                    levelId={gameState.level.id}
+                    seed={gameState.seed}
+                    fid={farcasterUser?.fid}
+                    refreshKey={leaderboardVersion}
+                  />
+
+                  <div className="flex flex-wrap gap-3">
+                    <Button onClick={resetGame} className="flex-1">
+                      Try Again 🔄
+                    </Button>
+                    {gameState.gameStatus === 'won' && getNextLevel(gameState.level.id) && (
+                      <Button onClick={() => startGame(getNextLevel(gameState.level.id)!)} className="flex-1 bg-orange-500 hover:bg-orange-600">
+                        Next Level ▶
+                      </Button>
+                    )}
+                    {gameState.level.id === FREE_PLAY_LEVEL_ID && (
+                      <Button onClick={() => startGame(FREE_PLAY_LEVEL, generateSeed())} variant="outline" className="flex-1">
+                        New Forest 🌲
+                      </Button>
+                    )}
+                    {lastReplay && (
+                      <Button onClick={() => watchReplay()} variant="outline" className="flex-1">
+                        Watch Replay 🎬
+                      </Button>
+                    )}
+                    <Button onClick={showLevelSelect} variant="outline" className="flex-1">
+                      Levels 📖
+                    </Button>
+                  </div>
+                </>
+              )}
             </CardContent>
           </Card>
         </div>
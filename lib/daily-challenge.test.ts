@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { dailyDayFromSeed, dailyPracticeSeed } from "@/lib/game/daily";
+import { normalizeSeed } from "@/lib/game/seed";
+import {
+  completeDailyAttempt,
+  rankedDailySeed,
+  startDailyAttempt,
+} from "./daily-challenge";
+
+const DAY = "2026-10-19";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("rankedDailySeed", () => {
+  it("is the same for everyone on a day, and a valid seed for that day", () => {
+    const seed = rankedDailySeed(DAY, "secret");
+    expect(seed).toBe(rankedDailySeed(DAY, "secret"));
+    expect(normalizeSeed(seed)).toBe(seed);
+    expect(dailyDayFromSeed(seed!)).toBe(DAY);
+  });
+
+  it("can't be worked out without the secret", () => {
+    expect(rankedDailySeed(DAY, "secret")).not.toBe(
+      rankedDailySeed(DAY, "another secret"),
+    );
+    expect(rankedDailySeed(DAY, "secret")).not.toBe(dailyPracticeSeed(DAY));
+    expect(rankedDailySeed(DAY, "")).toBeNull();
+  });
+});
+
+describe("completeDailyAttempt", () => {
+  it("accepts a run that fits in the time since the attempt started", async () => {
+    vi.useFakeTimers({ now: Date.parse(`${DAY}T10:00:00Z`) });
+    expect(await startDailyAttempt(DAY, 1)).toBe(true);
+
+    vi.advanceTimersByTime(95 * 1000);
+    expect(await completeDailyAttempt(DAY, 1, 90)).toEqual({
+      completed: true,
+    });
+    expect((await completeDailyAttempt(DAY, 1, 90)).completed).toBe(false);
+  });
+
+  it("rejects a run longer than the attempt has been open", async () => {
+    vi.useFakeTimers({ now: Date.parse(`${DAY}T10:00:00Z`) });
+    expect(await startDailyAttempt(DAY, 2)).toBe(true);
+
+    // Played out offline beforehand, then submitted straight after claiming
+    vi.advanceTimersByTime(2 * 1000);
+    expect(await completeDailyAttempt(DAY, 2, 90)).toMatchObject({
+      completed: false,
+      code: "too_long",
+    });
+  });
+
+  it("rejects runs without a claimed attempt", async () => {
+    expect(await completeDailyAttempt(DAY, 3, 1)).toMatchObject({
+      completed: false,
+      code: "no_attempt",
+    });
+  });
+});
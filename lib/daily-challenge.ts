@@ -0,0 +1,124 @@
+import { createHmac } from "crypto";
+import { getDailyChallenge } from "@/lib/game/daily";
+import { dailyFireCampaign, sendCampaignNow } from "./notification-campaigns";
+import { getKeyValueStore, storeKey } from "./kv-store";
+
+/**
+ * Daily Fire bookkeeping: the day's secret ranked seed, one ranked attempt
+ * per fid per day, and a single announcement to notification subscribers when
+ * a new challenge goes live.
+ */
+
+// Attempts only matter on their own day; keep them a little longer for late submissions
+const ATTEMPT_TTL_SECONDS = 2 * 24 * 60 * 60;
+// Allowance for the client's clock running ahead of the server's
+const ATTEMPT_CLOCK_SLACK_MS = 5 * 1000;
+// Hex characters of the HMAC in a ranked seed; seeds are capped at 32 characters
+const RANKED_SEED_HASH_LENGTH = 12;
+
+export interface DailyAttempt {
+  startedAt: number;
+  // Set once a ranked score has been submitted for the attempt
+  submittedAt: number | null;
+}
+
+export interface DailyAnnouncement {
+  day: string;
+  // False when today's challenge had already been announced
+  announced: boolean;
+  sent: number;
+  failed: number;
+}
+
+export type DailyCompletion =
+  | { completed: true }
+  | { completed: false; code: "no_attempt" | "too_long"; error: string };
+
+// The day's ranked forest; null when DAILY_SEED_SECRET is not configured
+export function rankedDailySeed(
+  day: string,
+  secret = process.env.DAILY_SEED_SECRET,
+): string | null {
+  if (!secret) return null;
+  const hash = createHmac("sha256", secret)
+    .update(`daily-fire:${day}`)
+    .digest("hex")
+    .slice(0, RANKED_SEED_HASH_LENGTH);
+  return `daily-${day}-${hash}`;
+}
+
+function getAttemptKey(day: string, fid: number): string {
+  return storeKey("daily", day, "attempt", fid);
+}
+
+export async function getDailyAttempt(
+  day: string,
+  fid: number,
+): Promise<DailyAttempt | null> {
+  return await getKeyValueStore().get<DailyAttempt>(getAttemptKey(day, fid));
+}
+
+// Claim the day's ranked attempt; false if the fid already used it
+export async function startDailyAttempt(
+  day: string,
+  fid: number,
+): Promise<boolean> {
+  const attempt: DailyAttempt = { startedAt: Date.now(), submittedAt: null };
+  return await getKeyValueStore().set(getAttemptKey(day, fid), attempt, {
+    nx: true,
+    ex: ATTEMPT_TTL_SECONDS,
+  });
+}
+
+// Mark the attempt's score as submitted; refused without an open attempt, or for a run longer than the attempt has been open
+export async function completeDailyAttempt(
+  day: string,
+  fid: number,
+  runSeconds: number,
+): Promise<DailyCompletion> {
+  const attempt = await getDailyAttempt(day, fid);
+  if (!attempt || attempt.submittedAt !== null) {
+    return {
+      completed: false,
+      code: "no_attempt",
+      error: "No open ranked attempt for today's Daily Fire",
+    };
+  }
+
+  const now = Date.now();
+  if (attempt.startedAt + runSeconds * 1000 > now + ATTEMPT_CLOCK_SLACK_MS) {
+    return {
+      completed: false,
+      code: "too_long",
+      error: "Run is longer than the time since the attempt started",
+    };
+  }
+
+  const completed: DailyAttempt = { ...attempt, submittedAt: now };
+  await getKeyValueStore().set(getAttemptKey(day, fid), completed, {
+    ex: ATTEMPT_TTL_SECONDS,
+  });
+  return { completed: true };
+}
+
+// Tell every subscriber today's challenge is live, at most once per day
+export async function announceDailyChallenge(
+  date: Date = new Date(),
+): Promise<DailyAnnouncement> {
+  const { day } = getDailyChallenge(date);
+
+  // The campaign's id is per day, so a second announcement is refused
+  const campaign = await sendCampaignNow(dailyFireCampaign(day));
+  if (!campaign?.result) {
+    return { day, announced: false, sent: 0, failed: 0 };
+  }
+
+  // Recipients still being retried are counted as sent
+  const { sent, retrying, failed, invalid, noToken } = campaign.result;
+  return {
+    day,
+    announced: true,
+    sent: sent + retrying,
+    failed: failed + invalid + noToken,
+  };
+}
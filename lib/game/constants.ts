@@ -0,0 +1,8 @@
+export const WORLD_SIZE = 40;
+export const GRID_SIZE = 2;
+export const WATER_RANGE = 8;
+export const FIRE_SPREAD_RATE = 4.0; // Even slower fire spread initially
+export const INITIAL_FIRES = 5; // number of initial fires
+
+// The simulation always advances in steps of this size, independent of frame rate
+export const SIM_TIMESTEP = 1 / 30;
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { createCoopSimulation, stepCoopSimulation } from "./coop";
+import { decodeInput } from "./input-log";
+import { CAMPAIGN_LEVELS } from "./levels";
+import type { PlayerInput } from "./player";
+
+const TEAM = [
+  { id: "p1", name: "Ash" },
+  { id: "p2", name: "Rowan" },
+];
+
+// Each player's input per tick: p1 walks forward spraying, p2 turns then strafes
+function inputsAt(tick: number): Record<string, PlayerInput> {
+  return {
+    p1: decodeInput(tick < 60 ? 65 : 0),
+    p2: decodeInput(tick < 30 ? 16 : 8),
+  };
+}
+
+function play(ticks: number) {
+  const level = CAMPAIGN_LEVELS[0];
+  let state = createCoopSimulation(level, level.seed, TEAM);
+  for (let tick = 0; tick < ticks; tick++) {
+    state = stepCoopSimulation(state, inputsAt(tick));
+  }
+  return state;
+}
+
+describe("co-op simulation", () => {
+  it("reaches the same state from the same inputs", () => {
+    expect(play(150)).toEqual(play(150));
+  });
+
+  it("applies each player's own input", () => {
+    const [p1, p2] = play(30).players;
+    expect(p1.state.position).not.toEqual(p2.state.position);
+    expect(p1.input.shooting).toBe(true);
+    expect(p2.input.shooting).toBe(false);
+  });
+});
@@ -0,0 +1,137 @@
+import { SIM_TIMESTEP } from "./constants";
+import { createWorld, isFireOut, stepWorld, type SharedWorld } from "./engine";
+import { operateTool, type ToolEffect } from "./equipment";
+import { isPlayerDown, updateHealth } from "./health";
+import type { LevelDefinition } from "./levels";
+import {
+  createPlayer,
+  IDLE_INPUT,
+  isSpraying,
+  updatePlayer,
+  type PlayerInput,
+  type PlayerState,
+} from "./player";
+import { resolveRound } from "./round";
+import { terrainHeight } from "./terrain";
+
+/**
+ * Co-op rounds: several firefighters in one shared world.
+ *
+ * Players who get caught by the fire are out for the rest of the round; the
+ * team wins by clearing the shared fire map and loses once nobody is left.
+ */
+
+export const MAX_COOP_PLAYERS = 4;
+
+// Spread the team around the usual spawn point
+const SPAWN_OFFSETS = [
+  { x: 0, z: 0 },
+  { x: 2.5, z: 0 },
+  { x: -2.5, z: 0 },
+  { x: 0, z: 2.5 },
+];
+
+export interface CoopPlayer {
+  id: string;
+  name: string;
+  state: PlayerState;
+  // Last input received, so everyone can see who is spraying
+  input: PlayerInput;
+  caught: boolean;
+}
+
+export interface CoopState extends SharedWorld {
+  players: CoopPlayer[];
+}
+
+export function createCoopSimulation(
+  level: LevelDefinition,
+  seed: string,
+  players: { id: string; name: string }[],
+): CoopState {
+  const world = createWorld(level, seed);
+
+  return {
+    ...world,
+    players: players.slice(0, MAX_COOP_PLAYERS).map(({ id, name }, index) => {
+      const state = createPlayer();
+      const offset = SPAWN_OFFSETS[index];
+      state.position = {
+        x: offset.x,
+        y: terrainHeight(world.terrain, offset.x, offset.z),
+        z: offset.z,
+      };
+      return { id, name, state, input: IDLE_INPUT, caught: false };
+    }),
+  };
+}
+
+// Advance a running co-op round by one SIM_TIMESTEP with each player's latest input
+export function stepCoopSimulation(
+  state: CoopState,
+  inputs: Record<string, PlayerInput>,
+): CoopState {
+  if (state.gameStatus !== "playing") return state;
+
+  const surroundings = {
+    trees: state.trees,
+    fuel: state.fuel,
+    refillStations: state.refillStations,
+    worldSize: state.level.worldSize,
+    terrain: state.terrain,
+  };
+  const effects: ToolEffect[] = [];
+  const stepped = state.players.map((player) => {
+    if (player.caught) return player;
+    const input = inputs[player.id] ?? IDLE_INPUT;
+    const spraying = isSpraying(player.state, input);
+    const { player: next, effect } = operateTool(
+      updatePlayer(player.state, input, surroundings, SIM_TIMESTEP),
+      input,
+      surroundings,
+      SIM_TIMESTEP,
+    );
+    if (spraying) effects.push({ kind: "spray", jet: next });
+    if (effect) effects.push(effect);
+    return { ...player, input, state: next };
+  });
+
+  const world = stepWorld(state, effects);
+
+  const wind = { direction: world.windDirection, speed: world.windSpeed };
+  const players = stepped.map((player) => {
+    if (player.caught) return player;
+    const next = state.hardcore
+      ? player.state
+      : updateHealth(player.state, world.fires, wind, SIM_TIMESTEP);
+    return isPlayerDown(next, world.fires, state.hardcore)
+      ? { ...player, state: next, caught: true, input: IDLE_INPUT }
+      : { ...player, state: next };
+  });
+
+  let status: "playing" | "won" | "lost" = "playing";
+  if (isFireOut(world)) {
+    status = "won";
+  } else if (players.every((player) => player.caught)) {
+    status = "lost";
+  }
+
+  const round = resolveRound(state.level, {
+    status,
+    timeElapsed: world.timeElapsed,
+    waterUsed: players.reduce(
+      (total, player) => total + player.state.waterUsed,
+      0,
+    ),
+    trees: state.trees,
+    fuel: world.fuel,
+  });
+
+  return {
+    ...world,
+    players,
+    gameStatus: round.status,
+    score: round.score,
+    endReason: round.endReason,
+  };
+}
@@ -0,0 +1,39 @@
+import { FREE_PLAY_LEVEL, type LevelDefinition } from "./levels";
+
+/**
+ * The "Daily Fire" challenge.
+ *
+ * Every UTC day has one forest that everybody plays on the free play layout
+ * for their single ranked attempt. Its seed is derived from the date and a
+ * server secret (see lib/daily-challenge.ts), so nobody can play it before
+ * claiming their attempt; anyone can warm up on the day's practice forest.
+ */
+
+export interface DailyChallenge {
+  // UTC date, YYYY-MM-DD
+  day: string;
+  level: LevelDefinition;
+  // The public practice forest; the ranked seed is only handed out with an attempt
+  practiceSeed: string;
+}
+
+// Ranked and practice seeds both start with the day, so either is labelled as that day's Daily Fire
+const DAILY_SEED_PATTERN = /^daily-(\d{4}-\d{2}-\d{2})-[a-z0-9]+$/;
+
+export function utcDay(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function dailyPracticeSeed(day: string): string {
+  return `daily-${day}-practice`;
+}
+
+// The day a seed belongs to, or null for ordinary seeds
+export function dailyDayFromSeed(seed: string): string | null {
+  return DAILY_SEED_PATTERN.exec(seed)?.[1] ?? null;
+}
+
+export function getDailyChallenge(date: Date = new Date()): DailyChallenge {
+  const day = utcDay(date);
+  return { day, level: FREE_PLAY_LEVEL, practiceSeed: dailyPracticeSeed(day) };
+}
@@ -0,0 +1,126 @@
+import { GRID_SIZE } from "./constants";
+import { cellKey, createFireCell, type FireGrid } from "./fire-simulation";
+import { FUEL_PROPERTIES, isFlammable } from "./fuel";
+import { nextRandom, randomRange, type RandomSource } from "./random";
+import type { FireMap, WindConditions } from "./types";
+
+/**
+ * Embers and spot fires.
+ *
+ * Intense fires throw burning embers that the wind carries several cells
+ * downwind, where they can start new fires ahead of the front. Embers are part
+ * of the simulation, drawn from the same RNG, so spotting replays exactly.
+ */
+
+export interface Ember {
+  x: number;
+  z: number;
+  // Ground speed in units per second
+  vx: number;
+  vz: number;
+  age: number;
+  // Seconds aloft before it comes down
+  flightTime: number;
+}
+
+// Fires below this intensity don't loft embers
+const EMBER_MIN_INTENSITY = 0.5;
+// Embers per second from a full-intensity fire in unit wind
+const EMBER_RATE = 0.015;
+// Flight distance in cells per unit of wind speed
+const MIN_CARRY = 2;
+const MAX_CARRY = 4;
+const MIN_FLIGHT_TIME = 1.5;
+const MAX_FLIGHT_TIME = 3;
+// Most an ember strays from straight downwind, in radians
+const CARRY_SPREAD = 0.3;
+// Chance a landing ember lights the cell, before the fuel's spread factor
+const SPOT_IGNITION_CHANCE = 0.5;
+// Peak height of an ember's arc, only used for drawing
+const EMBER_LOFT = 5;
+
+// Carry embers on, land the ones whose flight is over and loft new ones from the fires
+export function updateEmbers(
+  grid: FireGrid,
+  embers: Ember[],
+  wind: WindConditions,
+  rng: RandomSource,
+  deltaTime: number,
+): { grid: FireGrid; embers: Ember[] } {
+  let fires: FireMap | null = null;
+  const next: Ember[] = [];
+
+  for (const ember of embers) {
+    const moved = {
+      ...ember,
+      x: ember.x + ember.vx * deltaTime,
+      z: ember.z + ember.vz * deltaTime,
+      age: ember.age + deltaTime,
+    };
+    if (moved.age < moved.flightTime) {
+      next.push(moved);
+      continue;
+    }
+
+    // Landed: a spot fire may start if the cell can burn and isn't already
+    const key = cellKey(moved.x, moved.z);
+    const target = grid.fuel.get(key);
+    const roll = nextRandom(rng);
+    const burning = (fires ?? grid.fires).has(key);
+    if (
+      !burning &&
+      isFlammable(target) &&
+      roll < SPOT_IGNITION_CHANCE * FUEL_PROPERTIES[target.type].spreadFactor
+    ) {
+      fires ??= new Map(grid.fires);
+      fires.set(
+        key,
+        createFireCell(
+          moved.x,
+          moved.z,
+          0.3 * FUEL_PROPERTIES[target.type].maxIntensity,
+        ),
+      );
+    }
+  }
+
+  if (wind.speed > 0) {
+    for (const fire of grid.fires.values()) {
+      if (fire.intensity < EMBER_MIN_INTENSITY) continue;
+      if (
+        nextRandom(rng) >=
+        EMBER_RATE * fire.intensity * wind.speed * deltaTime
+      ) {
+        continue;
+      }
+
+      const angle =
+        Math.atan2(wind.direction.z, wind.direction.x) +
+        randomRange(rng, -CARRY_SPREAD, CARRY_SPREAD);
+      const distance =
+        randomRange(rng, MIN_CARRY, MAX_CARRY) * GRID_SIZE * wind.speed;
+      const flightTime = randomRange(rng, MIN_FLIGHT_TIME, MAX_FLIGHT_TIME);
+      const speed = distance / flightTime;
+      // Launch from the middle of the burning cell
+      next.push({
+        x: fire.x + GRID_SIZE / 2,
+        z: fire.z + GRID_SIZE / 2,
+        vx: Math.cos(angle) * speed,
+        vz: Math.sin(angle) * speed,
+        age: 0,
+        flightTime,
+      });
+    }
+  }
+
+  return {
+    grid: fires ? { fires, fuel: grid.fuel } : grid,
+    embers: next,
+  };
+}
+
+// Height of an ember above the ground along its arc, for drawing
+export function emberHeight(ember: Ember): number {
+  const progress = Math.min(1, ember.age / ember.flightTime);
+  return 0.5 + EMBER_LOFT * 4 * progress * (1 - progress);
+}
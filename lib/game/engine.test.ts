@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { createSimulation, stepSimulation } from "./engine";
+import { decodeInput, readInputLog, type InputLog } from "./input-log";
+import { CAMPAIGN_LEVELS, FREE_PLAY_LEVEL } from "./levels";
+import { simulationChecksum } from "./replay";
+
+// Walk forward spraying, turn for a while, then stand still
+const INPUTS: InputLog = [65, 90, 16, 45, 0, 120, 66, 60];
+
+function checksums(level = CAMPAIGN_LEVELS[0], seed = level.seed): number[] {
+  let state = createSimulation(level, seed);
+  const hashes = [simulationChecksum(state)];
+  for (const input of readInputLog(INPUTS)) {
+    state = stepSimulation(state, input);
+    hashes.push(simulationChecksum(state));
+  }
+  return hashes;
+}
+
+describe("simulation", () => {
+  it("reaches the same state every tick from the same seed and inputs", () => {
+    expect(checksums()).toEqual(checksums());
+  });
+
+  it.each(CAMPAIGN_LEVELS.map((level) => [level.id, level] as const))(
+    "is deterministic on %s",
+    (_, level) => {
+      expect(checksums(level)).toEqual(checksums(level));
+    },
+  );
+
+  it("diverges for a different seed", () => {
+    const a = checksums(FREE_PLAY_LEVEL, "alpha");
+    const b = checksums(FREE_PLAY_LEVEL, "beta");
+    expect(a.at(-1)).not.toEqual(b.at(-1));
+  });
+
+  it("does not change the state it was given", () => {
+    const start = createSimulation(CAMPAIGN_LEVELS[0], "first-sparks");
+    const before = simulationChecksum(start);
+    const fires = [...start.fires];
+    stepSimulation(start, decodeInput(65));
+    expect(simulationChecksum(start)).toBe(before);
+    expect([...start.fires]).toEqual(fires);
+  });
+});
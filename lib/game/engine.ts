@@ -0,0 +1,231 @@
+import { SIM_TIMESTEP } from "./constants";
+import { updateEmbers, type Ember } from "./embers";
+import { applyToolEffects, operateTool, type ToolEffect } from "./equipment";
+import { updateFires } from "./fire-simulation";
+import type { FuelMap } from "./fuel";
+import { isPlayerDown, updateHealth } from "./health";
+import type { LevelDefinition } from "./levels";
+import {
+  createPlayer,
+  isSpraying,
+  updatePlayer,
+  type PlayerInput,
+  type PlayerState,
+} from "./player";
+import { cloneRandom, type RandomSource } from "./random";
+import { resolveRound, type EndReason } from "./round";
+import type { RoundScore } from "./scoring";
+import { terrainHeight, type Terrain } from "./terrain";
+import type {
+  FireMap,
+  GameStatus,
+  RefillStation,
+  Tree,
+  Vector3,
+} from "./types";
+import {
+  currentWind,
+  DEFAULT_WIND_VARIABILITY,
+  updateWind,
+  type WindKeyframe,
+  type WindState,
+} from "./wind";
+import { generateWorld } from "./world";
+
+/**
+ * One round of the game as plain data.
+ *
+ * The browser and the server step the same state with the same inputs, which
+ * is what lets the server re-run a submitted input log and check its score.
+ */
+
+export interface SimulationState {
+  level: LevelDefinition;
+  seed: string;
+  player: PlayerState;
+  fires: FireMap;
+  // Embers in flight, which may start spot fires where they land
+  embers: Ember[];
+  fuel: FuelMap;
+  refillStations: RefillStation[];
+  trees: Tree[];
+  terrain: Terrain;
+  gameStatus: GameStatus;
+  windSchedule: WindKeyframe[];
+  windState: WindState;
+  windDirection: Vector3;
+  windSpeed: number;
+  // Simulation steps taken so far
+  tick: number;
+  timeElapsed: number;
+  gameSpeed: number;
+  rng: RandomSource;
+  score: RoundScore | null;
+  endReason: EndReason | null;
+  // One touch of fire ends the round instead of wearing down health
+  hardcore: boolean;
+}
+
+export interface SimulationOptions {
+  hardcore?: boolean;
+}
+
+// Fire spreads faster as the round goes on, up to this multiplier
+const MAX_GAME_SPEED = 1.8;
+const GAME_SPEED_RAMP_TIME = 90;
+
+export function createSimulation(
+  level: LevelDefinition,
+  seed: string,
+  options: SimulationOptions = {},
+): SimulationState {
+  const world = createWorld(level, seed, options);
+  const player = createPlayer();
+  player.position.y = terrainHeight(world.terrain, 0, 0);
+  return { ...world, player };
+}
+
+// Everything about a round except the player, shared by every firefighter in it
+export type SharedWorld = Omit<SimulationState, "player">;
+
+// A fresh round without anyone in it yet
+export function createWorld(
+  level: LevelDefinition,
+  seed: string,
+  { hardcore = false }: SimulationOptions = {},
+): SharedWorld {
+  const world = generateWorld(level, seed);
+  const wind = currentWind(world.windState, world.windSchedule, 0);
+
+  return {
+    level,
+    seed: world.seed,
+    fires: world.fires,
+    embers: [],
+    fuel: world.fuel,
+    refillStations: world.refillStations,
+    trees: world.trees,
+    terrain: world.terrain,
+    gameStatus: "playing",
+    windSchedule: world.windSchedule,
+    windState: world.windState,
+    windDirection: wind.direction,
+    windSpeed: wind.speed,
+    tick: 0,
+    timeElapsed: 0,
+    gameSpeed: 1,
+    rng: world.rng,
+    score: null,
+    endReason: null,
+    hardcore,
+  };
+}
+
+// Advance wind, fire, embers and the clock by one SIM_TIMESTEP under the players' tools; the round outcome is left to the caller
+export function stepWorld<T extends SharedWorld>(
+  state: T,
+  effects: ToolEffect[],
+): T {
+  const windState = updateWind(
+    state.windState,
+    state.level.windVariability ?? DEFAULT_WIND_VARIABILITY,
+    state.timeElapsed,
+    SIM_TIMESTEP,
+  );
+  const wind = currentWind(windState, state.windSchedule, state.timeElapsed);
+  const rng = cloneRandom(state.rng);
+  const spotting = updateEmbers(
+    updateFires(
+      { fires: state.fires, fuel: state.fuel },
+      wind,
+      state.gameSpeed,
+      rng,
+      SIM_TIMESTEP,
+      state.terrain,
+    ),
+    state.embers,
+    wind,
+    rng,
+    SIM_TIMESTEP,
+  );
+  const grid = applyToolEffects(spotting.grid, effects, SIM_TIMESTEP);
+
+  const timeElapsed = state.timeElapsed + SIM_TIMESTEP;
+  return {
+    ...state,
+    fires: grid.fires,
+    embers: spotting.embers,
+    fuel: grid.fuel,
+    rng,
+    windState,
+    windDirection: wind.direction,
+    windSpeed: wind.speed,
+    tick: state.tick + 1,
+    timeElapsed,
+    gameSpeed: Math.min(MAX_GAME_SPEED, 1 + timeElapsed / GAME_SPEED_RAMP_TIME),
+  };
+}
+
+// The round is won once every fire is out and no ember is left to start another
+export function isFireOut(world: SharedWorld): boolean {
+  return world.fires.size === 0 && world.embers.length === 0;
+}
+
+// Advance a running round by one SIM_TIMESTEP; finished rounds are returned unchanged
+export function stepSimulation(
+  state: SimulationState,
+  input: PlayerInput,
+): SimulationState {
+  if (state.gameStatus !== "playing") return state;
+
+  const surroundings = {
+    trees: state.trees,
+    fuel: state.fuel,
+    refillStations: state.refillStations,
+    worldSize: state.level.worldSize,
+    terrain: state.terrain,
+  };
+  const spraying = isSpraying(state.player, input);
+  const { player: equipped, effect } = operateTool(
+    updatePlayer(state.player, input, surroundings, SIM_TIMESTEP),
+    input,
+    surroundings,
+    SIM_TIMESTEP,
+  );
+
+  const effects: ToolEffect[] = spraying
+    ? [{ kind: "spray", jet: equipped }]
+    : [];
+  if (effect) effects.push(effect);
+  const world = stepWorld(state, effects);
+
+  const player = state.hardcore
+    ? equipped
+    : updateHealth(
+        equipped,
+        world.fires,
+        { direction: world.windDirection, speed: world.windSpeed },
+        SIM_TIMESTEP,
+      );
+  let status: "playing" | "won" | "lost" = "playing";
+  if (isPlayerDown(player, world.fires, state.hardcore)) {
+    status = "lost";
+  } else if (isFireOut(world)) {
+    status = "won";
+  }
+  const round = resolveRound(state.level, {
+    status,
+    timeElapsed: world.timeElapsed,
+    waterUsed: player.waterUsed,
+    trees: state.trees,
+    fuel: world.fuel,
+  });
+
+  return {
+    ...world,
+    player,
+    gameStatus: round.status,
+    score: round.score,
+    endReason: round.endReason,
+  };
+}
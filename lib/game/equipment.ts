@@ -0,0 +1,286 @@
+import { GRID_SIZE, WATER_RANGE } from "./constants";
+import {
+  applyWaterDrop,
+  applyWaterJet,
+  cellKey,
+  digFirebreak,
+  type FireGrid,
+  type WaterJet,
+} from "./fire-simulation";
+import { isFlammable } from "./fuel";
+import type { PlayerInput, PlayerState, PlayerSurroundings } from "./player";
+import type { RefillStation, Vector3 } from "./types";
+
+/**
+ * Firefighting tools.
+ *
+ * The equipped tool travels with every tick's input, so switching tools is
+ * recorded and replayed like movement. Apart from the tank's water jet, each
+ * tool draws on its own resource, kept in `EquipmentState`.
+ */
+
+export const TOOL_IDS = [
+  "jet",
+  "extinguisher",
+  "hose",
+  "shovel",
+  "bomber",
+] as const;
+
+export type ToolId = (typeof TOOL_IDS)[number];
+
+export interface ToolDefinition {
+  name: string;
+  icon: string;
+  // Keyboard key that equips the tool
+  key: string;
+  // How far ahead of the player the tool acts
+  range: number;
+}
+
+export const TOOLS: Record<ToolId, ToolDefinition> = {
+  jet: { name: "Water jet", icon: "💧", key: "1", range: WATER_RANGE },
+  extinguisher: { name: "Extinguisher", icon: "🧯", key: "2", range: 3.5 },
+  hose: { name: "Hose", icon: "🚿", key: "3", range: 14 },
+  shovel: { name: "Shovel", icon: "⛏️", key: "4", range: GRID_SIZE },
+  bomber: { name: "Water bomber", icon: "✈️", key: "5", range: 10 },
+};
+
+export interface EquipmentState {
+  // Extinguisher agent left, recharged at refill stations
+  extinguisherCharge: number;
+  // Spent digging firebreaks, recovers while not digging
+  stamina: number;
+  // Seconds spent digging the current firebreak
+  digProgress: number;
+  // Seconds until the water bomber can drop again
+  bomberCooldown: number;
+}
+
+export type ToolEffect =
+  | { kind: "spray"; jet: WaterJet }
+  | { kind: "firebreak"; key: string }
+  | { kind: "drop"; x: number; z: number };
+
+const EXTINGUISHER_CAPACITY = 100;
+// Charge per second while in use and while standing in a station
+const EXTINGUISHER_DRAIN = 25;
+const EXTINGUISHER_RECHARGE = 50;
+const EXTINGUISHER_POWER = 6;
+const EXTINGUISHER_SPREAD = 0.2;
+
+// The hose reaches this far from the refill station it is coupled to
+const HOSE_LENGTH = 18;
+const HOSE_POWER = 2.5;
+const HOSE_SPREAD = 0.6;
+// Station water per second, counted towards the round's water use
+const HOSE_FLOW = 20;
+
+const MAX_STAMINA = 100;
+const DIG_TIME = 0.75;
+const DIG_COST = 20;
+const STAMINA_RECOVERY = 8;
+
+const BOMBER_COOLDOWN = 45;
+export const DROP_RADIUS = 6;
+const DROP_POWER = 3;
+
+export function createEquipment(): EquipmentState {
+  return {
+    extinguisherCharge: EXTINGUISHER_CAPACITY,
+    stamina: MAX_STAMINA,
+    digProgress: 0,
+    bomberCooldown: 0,
+  };
+}
+
+// Point the given distance straight ahead of a player, along their water stream
+export function aheadOf(
+  player: PlayerState,
+  distance: number,
+): { x: number; z: number } {
+  return {
+    x: player.position.x + Math.sin(player.rotation) * distance,
+    z: player.position.z - Math.cos(player.rotation) * distance,
+  };
+}
+
+// Hose left before the player is out of reach of every station
+export function hoseSlack(
+  position: Vector3,
+  refillStations: RefillStation[],
+): number {
+  let nearest = Infinity;
+  for (const station of refillStations) {
+    nearest = Math.min(
+      nearest,
+      Math.sqrt(
+        (position.x - station.position.x) ** 2 +
+          (position.z - station.position.z) ** 2,
+      ),
+    );
+  }
+  return Math.max(0, HOSE_LENGTH - nearest);
+}
+
+// Each tool's resource as a percentage, for the HUD
+export function toolLevels(
+  player: PlayerState,
+  refillStations: RefillStation[],
+): Record<ToolId, number> {
+  const { equipment } = player;
+  return {
+    jet: (player.waterLevel / player.maxWater) * 100,
+    extinguisher: (equipment.extinguisherCharge / EXTINGUISHER_CAPACITY) * 100,
+    hose: (hoseSlack(player.position, refillStations) / HOSE_LENGTH) * 100,
+    shovel: (equipment.stamina / MAX_STAMINA) * 100,
+    bomber: (1 - equipment.bomberCooldown / BOMBER_COOLDOWN) * 100,
+  };
+}
+
+export function canUseTool(
+  player: PlayerState,
+  tool: ToolId,
+  refillStations: RefillStation[],
+): boolean {
+  switch (tool) {
+    case "jet":
+      return player.waterLevel > 0;
+    case "extinguisher":
+      return player.equipment.extinguisherCharge > 0;
+    case "hose":
+      return hoseSlack(player.position, refillStations) > 0;
+    case "shovel":
+      return player.equipment.stamina >= DIG_COST;
+    case "bomber":
+      return player.equipment.bomberCooldown <= 0;
+  }
+}
+
+// Whether the player is putting out a stream of water or foam, for the spray effect
+export function isToolSpraying(
+  player: PlayerState,
+  input: PlayerInput,
+  refillStations: RefillStation[],
+): boolean {
+  return (
+    input.shooting &&
+    (input.tool === "jet" ||
+      input.tool === "extinguisher" ||
+      input.tool === "hose") &&
+    canUseTool(player, input.tool, refillStations)
+  );
+}
+
+// Use the equipped tool for one step. The tank's water jet is handled by updatePlayer.
+export function operateTool(
+  player: PlayerState,
+  input: PlayerInput,
+  { fuel, refillStations }: PlayerSurroundings,
+  deltaTime: number,
+): { player: PlayerState; effect: ToolEffect | null } {
+  const equipment = {
+    ...player.equipment,
+    bomberCooldown: Math.max(0, player.equipment.bomberCooldown - deltaTime),
+  };
+  let { waterUsed } = player;
+  let effect: ToolEffect | null = null;
+
+  const tool =
+    input.shooting && canUseTool(player, input.tool, refillStations)
+      ? input.tool
+      : null;
+
+  switch (tool) {
+    case "extinguisher":
+      equipment.extinguisherCharge = Math.max(
+        0,
+        equipment.extinguisherCharge - EXTINGUISHER_DRAIN * deltaTime,
+      );
+      effect = {
+        kind: "spray",
+        jet: {
+          position: player.position,
+          rotation: player.rotation,
+          range: TOOLS.extinguisher.range,
+          power: EXTINGUISHER_POWER,
+          spread: EXTINGUISHER_SPREAD,
+        },
+      };
+      break;
+    case "hose":
+      waterUsed += HOSE_FLOW * deltaTime;
+      effect = {
+        kind: "spray",
+        jet: {
+          position: player.position,
+          rotation: player.rotation,
+          range: TOOLS.hose.range,
+          power: HOSE_POWER,
+          spread: HOSE_SPREAD,
+        },
+      };
+      break;
+    case "shovel": {
+      const target = aheadOf(player, TOOLS.shovel.range);
+      const key = cellKey(target.x, target.z);
+      const cell = fuel.get(key);
+      // Only standing grass can be dug; anything else wastes no effort
+      if (cell?.type !== "grass" || !isFlammable(cell)) {
+        equipment.digProgress = 0;
+        break;
+      }
+      equipment.digProgress += deltaTime;
+      if (equipment.digProgress >= DIG_TIME) {
+        equipment.digProgress = 0;
+        equipment.stamina -= DIG_COST;
+        effect = { kind: "firebreak", key };
+      }
+      break;
+    }
+    case "bomber":
+      equipment.bomberCooldown = BOMBER_COOLDOWN;
+      effect = { kind: "drop", ...aheadOf(player, TOOLS.bomber.range) };
+      break;
+  }
+
+  if (tool !== "shovel") {
+    equipment.digProgress = 0;
+    equipment.stamina = Math.min(
+      MAX_STAMINA,
+      equipment.stamina + STAMINA_RECOVERY * deltaTime,
+    );
+  }
+  if (player.isRefilling) {
+    equipment.extinguisherCharge = Math.min(
+      EXTINGUISHER_CAPACITY,
+      equipment.extinguisherCharge + EXTINGUISHER_RECHARGE * deltaTime,
+    );
+  }
+
+  return { player: { ...player, waterUsed, equipment }, effect };
+}
+
+export function applyToolEffects(
+  grid: FireGrid,
+  effects: ToolEffect[],
+  deltaTime: number,
+): FireGrid {
+  let next = grid;
+  for (const effect of effects) {
+    if (effect.kind === "spray") {
+      next = {
+        ...next,
+        fires: applyWaterJet(next.fires, effect.jet, deltaTime),
+      };
+    } else if (effect.kind === "firebreak") {
+      next = digFirebreak(next, effect.key);
+    } else {
+      next = {
+        ...next,
+        fires: applyWaterDrop(next.fires, effect, DROP_RADIUS, DROP_POWER),
+      };
+    }
+  }
+  return next;
+}
@@ -0,0 +1,321 @@
+import { FIRE_SPREAD_RATE, GRID_SIZE, WATER_RANGE } from "./constants";
+import { FUEL_PROPERTIES, isFlammable, type FuelMap } from "./fuel";
+import type { FireSpawn } from "./levels";
+import { nextRandom, randomRange, type RandomSource } from "./random";
+import { terrainGrade, type Terrain } from "./terrain";
+import type { FireCell, FireMap, Vector3, WindConditions } from "./types";
+
+/**
+ * Headless fire simulation.
+ *
+ * Every function here is deterministic for a given RNG state and timestep and
+ * has no Three.js or DOM dependency, so the same rules can run in the browser,
+ * in Node for replays and validation, or inside a test.
+ */
+
+export interface FireGrid {
+  fires: FireMap;
+  fuel: FuelMap;
+}
+
+export interface WaterJet {
+  position: Vector3;
+  rotation: number;
+  // Reach, suppression per second and minimum cosine of the cone; the tank nozzle's by default
+  range?: number;
+  power?: number;
+  spread?: number;
+}
+
+const JET_POWER = 1.5;
+// 70-degree cone
+const JET_SPREAD = 0.4;
+
+// Extra spread chance per unit of uphill grade, and the bounds on the slope's effect
+const UPHILL_SPREAD = 2;
+const MIN_SLOPE_FACTOR = 0.5;
+const MAX_SLOPE_FACTOR = 3;
+
+const SPREAD_DIRECTIONS = [
+  { x: GRID_SIZE, z: 0 },
+  { x: -GRID_SIZE, z: 0 },
+  { x: 0, z: GRID_SIZE },
+  { x: 0, z: -GRID_SIZE },
+];
+
+export function cellKey(x: number, z: number): string {
+  return `${Math.floor(x / GRID_SIZE)}-${Math.floor(z / GRID_SIZE)}`;
+}
+
+function snapToGrid(value: number): number {
+  return Math.floor(value / GRID_SIZE) * GRID_SIZE;
+}
+
+export function createFireCell(
+  x: number,
+  z: number,
+  intensity: number,
+): FireCell {
+  return {
+    x: snapToGrid(x),
+    z: snapToGrid(z),
+    intensity,
+    spreadTime: 0,
+  };
+}
+
+// Place the starting fires on flammable cells, keeping them apart for a good distribution
+export function initializeFires(
+  rng: RandomSource,
+  fuel: FuelMap,
+  count: number,
+  worldSize: number,
+): FireMap {
+  const fires: FireMap = new Map();
+  const placementRange = worldSize - 10;
+
+  for (let i = 0; i < count; i++) {
+    let attempts = 0;
+    let placed = false;
+    let x = 0;
+    let z = 0;
+
+    while (attempts < 100 && !placed) {
+      x = (nextRandom(rng) - 0.5) * placementRange;
+      z = (nextRandom(rng) - 0.5) * placementRange;
+
+      const key = cellKey(x, z);
+      if (!fires.has(key) && isFlammable(fuel.get(key))) {
+        let minDistance = Infinity;
+        for (const existingFire of fires.values()) {
+          const distance = Math.sqrt(
+            (x - existingFire.x) ** 2 + (z - existingFire.z) ** 2,
+          );
+          minDistance = Math.min(minDistance, distance);
+        }
+
+        if (fires.size === 0 || minDistance > 6) {
+          placed = true;
+        }
+      }
+
+      attempts++;
+    }
+
+    // Skip this fire if no flammable spot could be found
+    if (!placed) continue;
+
+    const key = cellKey(x, z);
+    const maxIntensity = FUEL_PROPERTIES[fuel.get(key)!.type].maxIntensity;
+    fires.set(
+      key,
+      createFireCell(x, z, randomRange(rng, 0.5, 1) * maxIntensity),
+    );
+  }
+
+  return fires;
+}
+
+// Ignite fires at fixed positions, skipping any that are not on flammable ground
+export function spawnFires(fuel: FuelMap, spawns: FireSpawn[]): FireMap {
+  const fires: FireMap = new Map();
+
+  for (const spawn of spawns) {
+    const key = cellKey(spawn.x, spawn.z);
+    const cell = fuel.get(key);
+    if (!isFlammable(cell)) continue;
+
+    const maxIntensity = FUEL_PROPERTIES[cell.type].maxIntensity;
+    fires.set(
+      key,
+      createFireCell(spawn.x, spawn.z, Math.min(spawn.intensity, maxIntensity)),
+    );
+  }
+
+  return fires;
+}
+
+// Fire climbs slopes faster than it runs down them
+function slopeFactor(
+  terrain: Terrain | undefined,
+  from: { x: number; z: number },
+  to: { x: number; z: number },
+): number {
+  if (!terrain) return 1;
+  return Math.max(
+    MIN_SLOPE_FACTOR,
+    Math.min(
+      MAX_SLOPE_FACTOR,
+      1 + UPHILL_SPREAD * terrainGrade(terrain, from, to),
+    ),
+  );
+}
+
+// Advance every fire by one timestep: burn fuel, grow intensity and spread downwind and uphill
+export function updateFires(
+  grid: FireGrid,
+  wind: WindConditions,
+  gameSpeed: number,
+  rng: RandomSource,
+  deltaTime: number,
+  terrain?: Terrain,
+): FireGrid {
+  const newFires: FireMap = new Map();
+  for (const [key, fire] of grid.fires) {
+    newFires.set(key, { ...fire });
+  }
+  const newFuel: FuelMap = new Map(grid.fuel);
+
+  // Only fires that existed at the start of the step may spread this step
+  for (const key of grid.fires.keys()) {
+    const fire = newFires.get(key)!;
+    const cell = newFuel.get(key);
+
+    if (!isFlammable(cell)) {
+      newFires.delete(key);
+      continue;
+    }
+
+    // Consume fuel; a cell that runs out burns down and the fire goes out
+    const fuelProps = FUEL_PROPERTIES[cell.type];
+    const load = cell.load - fuelProps.burnRate * fire.intensity * deltaTime;
+    if (load <= 0) {
+      newFuel.set(key, { ...cell, load: 0, burnt: true });
+      newFires.delete(key);
+      continue;
+    }
+    newFuel.set(key, { ...cell, load });
+
+    fire.spreadTime += deltaTime;
+    fire.intensity = Math.min(
+      fuelProps.maxIntensity,
+      fire.intensity + deltaTime * 0.1,
+    );
+
+    if (fire.spreadTime <= FIRE_SPREAD_RATE / gameSpeed) continue;
+
+    fire.spreadTime = 0;
+    const spreadChance = fire.intensity * wind.speed * 0.2;
+
+    for (const dir of SPREAD_DIRECTIONS) {
+      const roll = nextRandom(rng);
+
+      const newX = fire.x + dir.x + wind.direction.x * GRID_SIZE;
+      const newZ = fire.z + dir.z + wind.direction.z * GRID_SIZE;
+      const newKey = cellKey(newX, newZ);
+      // Cells outside the world have no fuel, so the map edge stops the fire
+      const target = newFuel.get(newKey);
+
+      if (
+        !newFires.has(newKey) &&
+        isFlammable(target) &&
+        roll <
+          spreadChance *
+            FUEL_PROPERTIES[target.type].spreadFactor *
+            slopeFactor(terrain, fire, { x: newX, z: newZ })
+      ) {
+        const targetProps = FUEL_PROPERTIES[target.type];
+        newFires.set(
+          newKey,
+          createFireCell(newX, newZ, 0.3 * targetProps.maxIntensity),
+        );
+      }
+    }
+  }
+
+  return { fires: newFires, fuel: newFuel };
+}
+
+// Reduce intensity of fires inside the water cone, removing extinguished ones
+export function applyWaterJet(
+  fires: FireMap,
+  jet: WaterJet,
+  deltaTime: number,
+): FireMap {
+  const newFires: FireMap = new Map();
+  const waterDirection = {
+    x: Math.sin(jet.rotation),
+    z: -Math.cos(jet.rotation),
+  };
+  const range = jet.range ?? WATER_RANGE;
+  const power = jet.power ?? JET_POWER;
+  const spread = jet.spread ?? JET_SPREAD;
+
+  for (const [key, fire] of fires) {
+    const dx = fire.x - jet.position.x;
+    const dz = fire.z - jet.position.z;
+    const distToFire = Math.sqrt(dx * dx + dz * dz);
+
+    let intensity = fire.intensity;
+    if (distToFire < range && distToFire > 0) {
+      const dotProduct =
+        (dx / distToFire) * waterDirection.x +
+        (dz / distToFire) * waterDirection.z;
+
+      if (dotProduct > spread) {
+        intensity -= power * deltaTime;
+      }
+    }
+
+    if (intensity > 0) {
+      newFires.set(key, { ...fire, intensity });
+    }
+  }
+
+  return newFires;
+}
+
+// Knock down every fire within the radius of an aerial drop at once
+export function applyWaterDrop(
+  fires: FireMap,
+  center: { x: number; z: number },
+  radius: number,
+  power: number,
+): FireMap {
+  const newFires: FireMap = new Map();
+  for (const [key, fire] of fires) {
+    const distance = Math.sqrt(
+      (fire.x - center.x) ** 2 + (fire.z - center.z) ** 2,
+    );
+    const intensity =
+      distance < radius ? fire.intensity - power : fire.intensity;
+    if (intensity > 0) {
+      newFires.set(key, { ...fire, intensity });
+    }
+  }
+  return newFires;
+}
+
+// Dig a grass cell down to bare earth so fire can't spread into it; trees and burning cells can't be dug
+export function digFirebreak(grid: FireGrid, key: string): FireGrid {
+  const cell = grid.fuel.get(key);
+  if (grid.fires.has(key) || !isFlammable(cell) || cell.type !== "grass") {
+    return grid;
+  }
+
+  const fuel: FuelMap = new Map(grid.fuel);
+  fuel.set(key, { type: "bare", load: 0, burnt: false });
+  return { fires: grid.fires, fuel };
+}
+
+export function checkGameConditions(
+  playerPosition: Vector3,
+  fires: FireMap,
+): "playing" | "won" | "lost" {
+  // Check if player is too close to any fire
+  for (const fire of fires.values()) {
+    const distance = Math.sqrt(
+      (playerPosition.x - fire.x) ** 2 + (playerPosition.z - fire.z) ** 2,
+    );
+    if (distance < 1.5) {
+      return "lost";
+    }
+  }
+
+  // Check if all fires are extinguished
+  if (fires.size === 0) {
+    return "won";
+  }
+
+  return "playing";
+}
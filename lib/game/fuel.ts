@@ -0,0 +1,117 @@
+import { GRID_SIZE } from "./constants";
+import { FUEL_MAP_SYMBOLS } from "./levels";
+import { nextRandom, type RandomSource } from "./random";
+import type { RefillStation, Tree } from "./types";
+
+/**
+ * Fuel model for the fire grid.
+ *
+ * Every grid cell carries a fuel type and a remaining load. Burning cells
+ * consume their load; once it is gone the cell is burnt out and can never
+ * reignite.
+ */
+
+export type FuelType = "tree" | "grass" | "bare" | "water";
+
+export interface FuelCell {
+  type: FuelType;
+  load: number;
+  burnt: boolean;
+}
+
+export type FuelMap = Map<string, FuelCell>;
+
+interface FuelProperties {
+  initialLoad: number;
+  // Multiplier on the chance that fire spreads into a cell of this type
+  spreadFactor: number;
+  // Highest intensity a fire can reach while burning this fuel
+  maxIntensity: number;
+  // Load consumed per second at full intensity
+  burnRate: number;
+}
+
+export const FUEL_PROPERTIES: Record<FuelType, FuelProperties> = {
+  tree: {
+    initialLoad: 2.5,
+    spreadFactor: 1.3,
+    maxIntensity: 1,
+    burnRate: 0.02,
+  },
+  grass: { initialLoad: 1, spreadFactor: 1, maxIntensity: 0.7, burnRate: 0.02 },
+  bare: { initialLoad: 0, spreadFactor: 0, maxIntensity: 0, burnRate: 0 },
+  water: { initialLoad: 0, spreadFactor: 0, maxIntensity: 0, burnRate: 0 },
+};
+
+const BARE_GROUND_CHANCE = 0.08;
+
+export function isFlammable(cell: FuelCell | undefined): cell is FuelCell {
+  return (
+    !!cell &&
+    !cell.burnt &&
+    cell.load > 0 &&
+    FUEL_PROPERTIES[cell.type].spreadFactor > 0
+  );
+}
+
+// Fraction of the original fuel already consumed, from 0 (untouched) to 1
+export function charLevel(cell: FuelCell | undefined): number {
+  if (!cell) return 0;
+  const initialLoad = FUEL_PROPERTIES[cell.type].initialLoad;
+  if (cell.burnt) return 1;
+  return initialLoad > 0 ? 1 - cell.load / initialLoad : 0;
+}
+
+function fuelCell(type: FuelType): FuelCell {
+  return { type, load: FUEL_PROPERTIES[type].initialLoad, burnt: false };
+}
+
+// Lay out fuel for the whole world: grass by default (or the level's fuel map), trees and stations where they stand
+export function createFuelMap(
+  rng: RandomSource,
+  trees: Tree[],
+  refillStations: RefillStation[],
+  worldSize: number,
+  fuelMapRows?: string[],
+): FuelMap {
+  const fuel: FuelMap = new Map();
+  const cellsPerSide = worldSize / GRID_SIZE;
+
+  for (let i = -cellsPerSide / 2; i < cellsPerSide / 2; i++) {
+    for (let j = -cellsPerSide / 2; j < cellsPerSide / 2; j++) {
+      const centerX = (i + 0.5) * GRID_SIZE;
+      const centerZ = (j + 0.5) * GRID_SIZE;
+
+      const inStation = refillStations.some(
+        (station) =>
+          Math.sqrt(
+            (centerX - station.position.x) ** 2 +
+              (centerZ - station.position.z) ** 2,
+          ) < station.radius,
+      );
+      const underTree = trees.some(
+        (tree) =>
+          Math.floor(tree.x / GRID_SIZE) === i &&
+          Math.floor(tree.z / GRID_SIZE) === j,
+      );
+
+      const symbol =
+        fuelMapRows?.[j + cellsPerSide / 2]?.[i + cellsPerSide / 2];
+
+      let type: FuelType = "grass";
+      if (inStation) {
+        type = "water";
+      } else if (symbol) {
+        type = FUEL_MAP_SYMBOLS[symbol as keyof typeof FUEL_MAP_SYMBOLS];
+      } else if (underTree) {
+        type = "tree";
+      } else if (nextRandom(rng) < BARE_GROUND_CHANCE) {
+        type = "bare";
+      }
+
+      fuel.set(`${i}-${j}`, fuelCell(type));
+    }
+  }
+
+  return fuel;
+}
@@ -0,0 +1,111 @@
+import { checkGameConditions } from "./fire-simulation";
+import type { PlayerState } from "./player";
+import type { FireMap, WindConditions } from "./types";
+
+/**
+ * Heat and smoke damage.
+ *
+ * Standing near fire hurts in proportion to how hot and how close the flames
+ * are, and smoke blown downwind hurts more slowly from further away. Players
+ * who get clear and stay clear for a moment heal back up. Hardcore rounds skip
+ * all of this and keep the old rule: touch a fire and you're out.
+ */
+
+export const MAX_HEALTH = 100;
+
+// Fires this close radiate heat; damage falls off towards the edge
+const HEAT_RADIUS = 4;
+// Health per second next to a full-intensity fire
+const HEAT_DAMAGE = 35;
+// Smoke reaches this far downwind of a fire
+const SMOKE_RADIUS = 10;
+// Minimum cosine between wind and the fire-to-player direction to be in the smoke
+const SMOKE_SPREAD = 0.6;
+const SMOKE_DAMAGE = 4;
+// Seconds without damage before recovery starts, then health per second
+const RECOVERY_DELAY = 2;
+const RECOVERY_RATE = 12;
+
+// Sum of nearby fire intensities, weighted by how close each one is
+export function heatExposure(
+  position: { x: number; z: number },
+  fires: FireMap,
+): number {
+  let heat = 0;
+  for (const fire of fires.values()) {
+    const distance = Math.sqrt(
+      (position.x - fire.x) ** 2 + (position.z - fire.z) ** 2,
+    );
+    if (distance < HEAT_RADIUS) {
+      heat += fire.intensity * (1 - distance / HEAT_RADIUS) ** 2;
+    }
+  }
+  return heat;
+}
+
+// How much smoke the wind is carrying onto the position, stronger in high wind
+export function smokeExposure(
+  position: { x: number; z: number },
+  fires: FireMap,
+  wind: WindConditions,
+): number {
+  let smoke = 0;
+  for (const fire of fires.values()) {
+    const dx = position.x - fire.x;
+    const dz = position.z - fire.z;
+    const distance = Math.sqrt(dx * dx + dz * dz);
+    if (distance >= SMOKE_RADIUS || distance === 0) continue;
+
+    const downwind =
+      (dx / distance) * wind.direction.x + (dz / distance) * wind.direction.z;
+    if (downwind > SMOKE_SPREAD) {
+      smoke +=
+        fire.intensity *
+        (1 - distance / SMOKE_RADIUS) *
+        Math.min(1, wind.speed / 5);
+    }
+  }
+  return smoke;
+}
+
+// Apply one step of heat and smoke damage, or recover if the player has been clear long enough
+export function updateHealth(
+  player: PlayerState,
+  fires: FireMap,
+  wind: WindConditions,
+  deltaTime: number,
+): PlayerState {
+  const damage =
+    (heatExposure(player.position, fires) * HEAT_DAMAGE +
+      smokeExposure(player.position, fires, wind) * SMOKE_DAMAGE) *
+    deltaTime;
+
+  if (damage > 0) {
+    return {
+      ...player,
+      health: Math.max(0, player.health - damage),
+      timeSinceDamage: 0,
+    };
+  }
+
+  const timeSinceDamage = player.timeSinceDamage + deltaTime;
+  return {
+    ...player,
+    health:
+      timeSinceDamage >= RECOVERY_DELAY
+        ? Math.min(MAX_HEALTH, player.health + RECOVERY_RATE * deltaTime)
+        : player.health,
+    timeSinceDamage,
+  };
+}
+
+// Whether the fire has taken the player out of the round
+export function isPlayerDown(
+  player: PlayerState,
+  fires: FireMap,
+  hardcore: boolean,
+): boolean {
+  return hardcore
+    ? checkGameConditions(player.position, fires) === "lost"
+    : player.health <= 0;
+}
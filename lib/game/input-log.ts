@@ -0,0 +1,149 @@
+import { TOOL_IDS } from "./equipment";
+import type { PlayerInput } from "./player";
+
+/**
+ * Compact per-tick input recording.
+ *
+ * Each tick's input packs into a small bit mask, and runs of identical ticks
+ * collapse into `[mask, count]` pairs, so a few minutes of play stays a short
+ * flat array of numbers that is cheap to POST and store.
+ *
+ * Analog axes from a gamepad or the mouse are kept to quarter steps, so the
+ * live game must run on `quantizeInput` of its input to match the recording.
+ */
+
+// Alternating [mask, tick count, mask, tick count, ...]
+export type InputLog = number[];
+
+const FORWARD = 1;
+const BACK = 2;
+const STRAFE_LEFT = 4;
+const STRAFE_RIGHT = 8;
+const TURN_LEFT = 16;
+const TURN_RIGHT = 32;
+const SHOOT = 64;
+// The equipped tool's index in TOOL_IDS sits above the button bits
+const TOOL_SHIFT = 7;
+const TOOL_BITS = 7 << TOOL_SHIFT;
+// Above the tool, two bits per axis for how far short of full it is pushed, in quarters;
+// zero is full, so logs from before analog input read back unchanged
+const AXIS_SHIFTS = { moveX: 10, moveZ: 12, turn: 14 } as const;
+const AXIS_STEPS = 4;
+const ALL_BITS = 0xffff;
+
+type Axis = keyof typeof AXIS_SHIFTS;
+
+// How many quarters short of full an axis value is, from 0 to 3
+function axisShortfall(value: number): number {
+  const magnitude = Math.min(1, Math.abs(value));
+  return Math.min(AXIS_STEPS - 1, Math.round((1 - magnitude) * AXIS_STEPS));
+}
+
+function axisMagnitude(mask: number, axis: Axis): number {
+  return 1 - ((mask >> AXIS_SHIFTS[axis]) & 3) / AXIS_STEPS;
+}
+
+export function encodeInput(input: PlayerInput): number {
+  let mask = 0;
+  if (input.moveZ < 0) mask |= FORWARD;
+  if (input.moveZ > 0) mask |= BACK;
+  if (input.moveX < 0) mask |= STRAFE_LEFT;
+  if (input.moveX > 0) mask |= STRAFE_RIGHT;
+  if (input.turn > 0) mask |= TURN_LEFT;
+  if (input.turn < 0) mask |= TURN_RIGHT;
+  if (input.shooting) mask |= SHOOT;
+  mask |= TOOL_IDS.indexOf(input.tool) << TOOL_SHIFT;
+  for (const axis of Object.keys(AXIS_SHIFTS) as Axis[]) {
+    if (input[axis] !== 0) {
+      mask |= axisShortfall(input[axis]) << AXIS_SHIFTS[axis];
+    }
+  }
+  return mask;
+}
+
+function axis(negative: boolean, positive: boolean): -1 | 0 | 1 {
+  if (negative === positive) return 0;
+  return negative ? -1 : 1;
+}
+
+export function decodeInput(mask: number): PlayerInput {
+  return {
+    moveX:
+      axis(!!(mask & STRAFE_LEFT), !!(mask & STRAFE_RIGHT)) *
+      axisMagnitude(mask, "moveX"),
+    moveZ:
+      axis(!!(mask & FORWARD), !!(mask & BACK)) * axisMagnitude(mask, "moveZ"),
+    turn:
+      axis(!!(mask & TURN_RIGHT), !!(mask & TURN_LEFT)) *
+      axisMagnitude(mask, "turn"),
+    shooting: !!(mask & SHOOT),
+    tool: TOOL_IDS[(mask & TOOL_BITS) >> TOOL_SHIFT] ?? "jet",
+  };
+}
+
+// An axis value as it will read back from the log
+export function quantizeAxis(value: number): number {
+  if (value === 0) return 0;
+  return Math.sign(value) * (1 - axisShortfall(value) / AXIS_STEPS);
+}
+
+// The input as it will read back from the log
+export function quantizeInput(input: PlayerInput): PlayerInput {
+  return decodeInput(encodeInput(input));
+}
+
+// Append ticks of one input to the log in place
+export function recordInput(
+  log: InputLog,
+  input: PlayerInput,
+  ticks = 1,
+): void {
+  if (ticks <= 0) return;
+  const mask = encodeInput(input);
+  if (log.length && log[log.length - 2] === mask) {
+    log[log.length - 1] += ticks;
+  } else {
+    log.push(mask, ticks);
+  }
+}
+
+export function inputLogLength(log: InputLog): number {
+  let ticks = 0;
+  for (let i = 1; i < log.length; i += 2) ticks += log[i];
+  return ticks;
+}
+
+// Every tick's input in order
+export function* readInputLog(log: InputLog): Generator<PlayerInput> {
+  for (let i = 0; i < log.length; i += 2) {
+    const input = decodeInput(log[i]);
+    for (let tick = 0; tick < log[i + 1]; tick++) yield input;
+  }
+}
+
+// One mask per tick, for random access when seeking through a replay
+export function expandInputLog(log: InputLog): Uint16Array {
+  const masks = new Uint16Array(inputLogLength(log));
+  let tick = 0;
+  for (let i = 0; i < log.length; i += 2) {
+    masks.fill(log[i], tick, tick + log[i + 1]);
+    tick += log[i + 1];
+  }
+  return masks;
+}
+
+export function isInputMask(value: unknown): value is number {
+  return (
+    Number.isInteger(value) &&
+    (value as number) >= 0 &&
+    (value as number) <= ALL_BITS &&
+    ((value as number) & TOOL_BITS) >> TOOL_SHIFT < TOOL_IDS.length
+  );
+}
+
+export function isInputLog(value: unknown): value is InputLog {
+  if (!Array.isArray(value) || value.length % 2 !== 0) return false;
+  return value.every((entry, index) =>
+    index % 2 === 0 ? isInputMask(entry) : Number.isInteger(entry) && entry > 0,
+  );
+}
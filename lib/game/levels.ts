@@ -0,0 +1,193 @@
+import { GRID_SIZE, INITIAL_FIRES, WORLD_SIZE } from "./constants";
+import levelData from "./levels.json";
+import type { WindKeyframe, WindVariability } from "./wind";
+
+/**
+ * Campaign level definitions.
+ *
+ * Levels live in levels.json and are validated once at load time, so a typo
+ * in the data fails loudly instead of producing a half-built world.
+ */
+
+export interface FireSpawn {
+  x: number;
+  z: number;
+  intensity: number;
+}
+
+export interface LevelObjectives {
+  // Percentage of trees that must survive for the round to count as won
+  minTreesSavedPercent?: number;
+}
+
+// Hills for the level: a square grid of heights stretched over the world, or
+// generated from the seed up to the given amplitude
+export interface LevelTerrain {
+  heightmap?: number[][];
+  amplitude?: number;
+}
+
+export interface LevelDefinition {
+  id: string;
+  name: string;
+  description: string;
+  worldSize: number;
+  // Seed for everything the level does not pin down explicitly
+  seed: string;
+  refillStations: { x: number; z: number; radius: number }[];
+  // Either a number of randomly placed fires or explicit spawn points
+  initialFires: number | FireSpawn[];
+  treeCount: number;
+  // Omit to roll the wind from the seed
+  windSchedule?: WindKeyframe[];
+  // Drift and gusts on top of the schedule; defaults apply when omitted
+  windVariability?: WindVariability;
+  // One row per grid row (z), one character per cell (x):
+  // T tree, g grass, . bare ground, ~ water
+  fuelMap?: string[];
+  // Omit for flat ground
+  terrain?: LevelTerrain;
+  objectives: LevelObjectives;
+  // Seconds; null for no limit
+  timeLimit: number | null;
+  // Clearing the level within this many seconds is needed for three stars
+  parTime?: number;
+}
+
+export const FUEL_MAP_SYMBOLS = {
+  T: "tree",
+  g: "grass",
+  ".": "bare",
+  "~": "water",
+} as const;
+
+export const FREE_PLAY_LEVEL_ID = "free-play";
+
+// Random forest on the classic layout; the seed comes from the URL or is rolled fresh
+export const FREE_PLAY_LEVEL: LevelDefinition = {
+  id: FREE_PLAY_LEVEL_ID,
+  name: "Free Play",
+  description: "A random forest from a shareable seed.",
+  worldSize: WORLD_SIZE,
+  seed: "",
+  refillStations: [
+    { x: -15, z: -15, radius: 3 },
+    { x: 15, z: -15, radius: 3 },
+    { x: -15, z: 15, radius: 3 },
+    { x: 15, z: 15, radius: 3 },
+  ],
+  initialFires: INITIAL_FIRES,
+  treeCount: 40,
+  terrain: { amplitude: 3 },
+  objectives: {},
+  timeLimit: null,
+};
+
+function invalid(id: string, message: string): never {
+  throw new Error(`Invalid level definition "${id}": ${message}`);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+export function parseLevelDefinition(raw: unknown): LevelDefinition {
+  if (typeof raw !== "object" || raw === null) {
+    throw new Error("Invalid level definition: expected an object");
+  }
+  const level = raw as LevelDefinition;
+  const id = typeof level.id === "string" ? level.id : "<missing id>";
+
+  if (typeof level.id !== "string" || !level.id) invalid(id, "missing id");
+  if (typeof level.name !== "string") invalid(id, "missing name");
+  if (typeof level.seed !== "string") invalid(id, "missing seed");
+  if (
+    !isFiniteNumber(level.worldSize) ||
+    level.worldSize <= 0 ||
+    level.worldSize % (GRID_SIZE * 2) !== 0
+  ) {
+    invalid(id, `worldSize must be a positive multiple of ${GRID_SIZE * 2}`);
+  }
+  if (!Array.isArray(level.refillStations) || !level.refillStations.length) {
+    invalid(id, "at least one refill station is required");
+  }
+  if (
+    !isFiniteNumber(level.initialFires) &&
+    !Array.isArray(level.initialFires)
+  ) {
+    invalid(id, "initialFires must be a count or a list of spawns");
+  }
+  if (level.timeLimit !== null && !isFiniteNumber(level.timeLimit)) {
+    invalid(id, "timeLimit must be a number or null");
+  }
+  if (level.windSchedule) {
+    if (!level.windSchedule.length || level.windSchedule[0].time !== 0) {
+      invalid(id, "windSchedule must start at time 0");
+    }
+  }
+  if (
+    level.windVariability &&
+    (!isFiniteNumber(level.windVariability.driftDegrees) ||
+      !isFiniteNumber(level.windVariability.gustStrength))
+  ) {
+    invalid(id, "windVariability needs driftDegrees and gustStrength");
+  }
+  if (level.fuelMap) {
+    const cellsPerSide = level.worldSize / GRID_SIZE;
+    const badRow = level.fuelMap.findIndex(
+      (row) =>
+        row.length !== cellsPerSide ||
+        [...row].some((symbol) => !(symbol in FUEL_MAP_SYMBOLS)),
+    );
+    if (level.fuelMap.length !== cellsPerSide || badRow !== -1) {
+      invalid(
+        id,
+        `fuelMap must be ${cellsPerSide} rows of ${cellsPerSide} symbols`,
+      );
+    }
+  }
+  if (level.terrain) {
+    const { heightmap, amplitude } = level.terrain;
+    if (
+      heightmap &&
+      (heightmap.length < 2 ||
+        heightmap.some(
+          (row) =>
+            row.length !== heightmap.length || !row.every(isFiniteNumber),
+        ))
+    ) {
+      invalid(
+        id,
+        "terrain heightmap must be a square grid of numbers, 2x2 or larger",
+      );
+    }
+    if (
+      amplitude !== undefined &&
+      (!isFiniteNumber(amplitude) || amplitude < 0)
+    ) {
+      invalid(id, "terrain amplitude must be a non-negative number");
+    }
+  }
+
+  return {
+    ...level,
+    description: level.description ?? "",
+    treeCount: level.treeCount ?? 0,
+    objectives: level.objectives ?? {},
+  };
+}
+
+export const CAMPAIGN_LEVELS: LevelDefinition[] =
+  levelData.levels.map(parseLevelDefinition);
+
+export function getLevel(
+  id: string | null | undefined,
+): LevelDefinition | null {
+  if (id === FREE_PLAY_LEVEL_ID) return FREE_PLAY_LEVEL;
+  return CAMPAIGN_LEVELS.find((level) => level.id === id) ?? null;
+}
+
+export function getNextLevel(id: string): LevelDefinition | null {
+  const index = CAMPAIGN_LEVELS.findIndex((level) => level.id === id);
+  return index === -1 ? null : (CAMPAIGN_LEVELS[index + 1] ?? null);
+}
@@ -0,0 +1,197 @@
+import { createEquipment, type EquipmentState, type ToolId } from "./equipment";
+import { cellKey } from "./fire-simulation";
+import type { FuelMap } from "./fuel";
+import { MAX_HEALTH } from "./health";
+import { terrainGrade, terrainHeight, type Terrain } from "./terrain";
+import type { RefillStation, Tree, Vector3 } from "./types";
+
+/**
+ * Headless player movement, spraying and refilling.
+ *
+ * The player advances in the same fixed steps as the fire simulation and only
+ * reads a `PlayerInput`, never the keyboard, so a recorded input log replays
+ * to exactly the same run.
+ */
+
+export interface PlayerState {
+  position: Vector3;
+  rotation: number;
+  waterLevel: number;
+  maxWater: number;
+  waterUsed: number;
+  isRefilling: boolean;
+  equipment: EquipmentState;
+  health: number;
+  // Seconds since heat or smoke last hurt the player
+  timeSinceDamage: number;
+}
+
+export interface PlayerInput {
+  // Strafe: -1 left, 1 right, anything between from a stick
+  moveX: number;
+  // -1 forward, 1 back
+  moveZ: number;
+  // 1 turns left, -1 turns right
+  turn: number;
+  // Use the equipped tool
+  shooting: boolean;
+  tool: ToolId;
+}
+
+export interface PlayerSurroundings {
+  trees: Tree[];
+  fuel: FuelMap;
+  refillStations: RefillStation[];
+  worldSize: number;
+  terrain: Terrain;
+}
+
+export const IDLE_INPUT: PlayerInput = {
+  moveX: 0,
+  moveZ: 0,
+  turn: 0,
+  shooting: false,
+  tool: "jet",
+};
+
+const PLAYER_SPEED = 5;
+// Radians per second
+export const TURN_SPEED = 1.92;
+// Water per second while spraying and while standing in a station
+const SPRAY_RATE = 30;
+const REFILL_RATE = 120;
+const TRUNK_RADIUS = 0.4;
+// Players are roughly this wide when colliding with trees
+const PLAYER_COLLISION_RADIUS = 1;
+const FOLIAGE_SPEED_FACTOR = 0.5;
+// Slowdown per unit of grade; climbing is harder than descending
+const UPHILL_SLOWDOWN = 2;
+const DOWNHILL_SLOWDOWN = 0.5;
+// Keep the player this far inside the world edge
+const WORLD_EDGE_MARGIN = 2;
+
+export function createPlayer(maxWater = 100): PlayerState {
+  return {
+    position: { x: 0, y: 0, z: 0 },
+    rotation: 0,
+    waterLevel: maxWater,
+    maxWater,
+    waterUsed: 0,
+    isRefilling: false,
+    equipment: createEquipment(),
+    health: MAX_HEALTH,
+    timeSinceDamage: 0,
+  };
+}
+
+// Whether the tank's water jet actually puts water on the fires this step
+export function isSpraying(player: PlayerState, input: PlayerInput): boolean {
+  return input.shooting && input.tool === "jet" && player.waterLevel > 0;
+}
+
+// Where to draw the player between two simulation steps; alpha 0 is `from`, 1 is `to`
+export function interpolatePlayer(
+  from: PlayerState,
+  to: PlayerState,
+  alpha: number,
+): PlayerState {
+  if (from === to || alpha >= 1) return to;
+  return {
+    ...to,
+    position: {
+      x: from.position.x + (to.position.x - from.position.x) * alpha,
+      y: from.position.y + (to.position.y - from.position.y) * alpha,
+      z: from.position.z + (to.position.z - from.position.z) * alpha,
+    },
+    rotation: from.rotation + (to.rotation - from.rotation) * alpha,
+  };
+}
+
+export function updatePlayer(
+  player: PlayerState,
+  input: PlayerInput,
+  { trees, fuel, refillStations, worldSize, terrain }: PlayerSurroundings,
+  deltaTime: number,
+): PlayerState {
+  const next: PlayerState = { ...player, position: { ...player.position } };
+
+  next.rotation += input.turn * TURN_SPEED * deltaTime;
+
+  if (input.moveX !== 0 || input.moveZ !== 0) {
+    // Diagonals are no faster, but a stick pushed partway moves slower
+    const len = Math.max(1, Math.sqrt(input.moveX ** 2 + input.moveZ ** 2));
+    const moveX = input.moveX / len;
+    const moveZ = input.moveZ / len;
+
+    // Rotate movement vector by player rotation
+    const cos = Math.cos(next.rotation);
+    const sin = Math.sin(next.rotation);
+    const rotatedX = moveX * cos - moveZ * sin;
+    const rotatedZ = moveX * sin + moveZ * cos;
+
+    const newX = next.position.x + rotatedX * PLAYER_SPEED * deltaTime;
+    const newZ = next.position.z + rotatedZ * PLAYER_SPEED * deltaTime;
+
+    // Trunks block completely, foliage slows the player down
+    let trunkCollision = false;
+    let inFoliage = false;
+    for (const tree of trees) {
+      // Burnt stumps no longer block or slow the player
+      if (fuel.get(cellKey(tree.x, tree.z))?.burnt) continue;
+
+      const distanceToTree = Math.sqrt(
+        (newX - tree.x) ** 2 + (newZ - tree.z) ** 2,
+      );
+      if (distanceToTree < TRUNK_RADIUS + PLAYER_COLLISION_RADIUS) {
+        trunkCollision = true;
+        break;
+      }
+      if (distanceToTree < tree.radius + PLAYER_COLLISION_RADIUS) {
+        inFoliage = true;
+      }
+    }
+
+    if (!trunkCollision) {
+      const grade = terrainGrade(terrain, next.position, { x: newX, z: newZ });
+      const slowdown = grade > 0 ? UPHILL_SLOWDOWN : DOWNHILL_SLOWDOWN;
+      const speed =
+        (inFoliage ? PLAYER_SPEED * FOLIAGE_SPEED_FACTOR : PLAYER_SPEED) /
+        (1 + slowdown * Math.abs(grade));
+      next.position.x += rotatedX * speed * deltaTime;
+      next.position.z += rotatedZ * speed * deltaTime;
+    }
+
+    const halfWorld = worldSize / 2 - WORLD_EDGE_MARGIN;
+    next.position.x = Math.max(
+      -halfWorld,
+      Math.min(halfWorld, next.position.x),
+    );
+    next.position.z = Math.max(
+      -halfWorld,
+      Math.min(halfWorld, next.position.z),
+    );
+    next.position.y = terrainHeight(terrain, next.position.x, next.position.z);
+  }
+
+  if (isSpraying(next, input)) {
+    const sprayed = Math.min(next.waterLevel, SPRAY_RATE * deltaTime);
+    next.waterLevel -= sprayed;
+    next.waterUsed += sprayed;
+  }
+
+  next.isRefilling = refillStations.some(
+    (station) =>
+      Math.sqrt(
+        (next.position.x - station.position.x) ** 2 +
+          (next.position.z - station.position.z) ** 2,
+      ) < station.radius,
+  );
+  if (next.isRefilling) {
+    next.waterLevel = Math.min(
+      next.maxWater,
+      next.waterLevel + REFILL_RATE * deltaTime,
+    );
+  }
+
+  return next;
+}
@@ -0,0 +1,63 @@
+import { CAMPAIGN_LEVELS } from "./levels";
+import type { RoundScore, StarRating } from "./scoring";
+
+/**
+ * Campaign progress, kept in localStorage on the player's device.
+ */
+
+export interface LevelProgress {
+  completed: boolean;
+  bestStars: StarRating;
+  bestPoints: number;
+}
+
+export type CampaignProgress = Record<string, LevelProgress>;
+
+const PROGRESS_STORAGE_KEY = "wildfirefighters:progress";
+
+export function loadProgress(): CampaignProgress {
+  try {
+    const stored = window.localStorage.getItem(PROGRESS_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as CampaignProgress) : {};
+  } catch (error) {
+    console.error("Failed to load campaign progress:", error);
+    return {};
+  }
+}
+
+export function saveProgress(progress: CampaignProgress): void {
+  try {
+    window.localStorage.setItem(PROGRESS_STORAGE_KEY, JSON.stringify(progress));
+  } catch (error) {
+    console.error("Failed to save campaign progress:", error);
+  }
+}
+
+// Merge a finished round into the progress, keeping the best result per level
+export function recordLevelResult(
+  progress: CampaignProgress,
+  levelId: string,
+  score: RoundScore,
+): CampaignProgress {
+  const previous = progress[levelId];
+  const won = score.outcome === "won";
+
+  return {
+    ...progress,
+    [levelId]: {
+      completed: (previous?.completed ?? false) || won,
+      bestStars: Math.max(previous?.bestStars ?? 0, score.stars) as StarRating,
+      bestPoints: Math.max(previous?.bestPoints ?? 0, score.points),
+    },
+  };
+}
+
+// The first level is always open; every other level needs the one before it completed
+export function isLevelUnlocked(
+  progress: CampaignProgress,
+  levelId: string,
+): boolean {
+  const index = CAMPAIGN_LEVELS.findIndex((level) => level.id === levelId);
+  if (index <= 0) return true;
+  return progress[CAMPAIGN_LEVELS[index - 1].id]?.completed ?? false;
+}
@@ -0,0 +1,34 @@
+/**
+ * Seeded pseudo-random number generator (mulberry32).
+ *
+ * The whole generator state is a single 32-bit integer so it can be copied,
+ * stored in game state and serialized alongside the rest of a run.
+ */
+export interface RandomSource {
+  state: number;
+}
+
+export function createRandom(seed: number): RandomSource {
+  return { state: seed >>> 0 };
+}
+
+export function cloneRandom(rng: RandomSource): RandomSource {
+  return { state: rng.state };
+}
+
+// Returns a float in [0, 1) and advances the generator
+export function nextRandom(rng: RandomSource): number {
+  rng.state = (rng.state + 0x6d2b79f5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+export function randomRange(
+  rng: RandomSource,
+  min: number,
+  max: number,
+): number {
+  return min + nextRandom(rng) * (max - min);
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { parseReplay, REPLAY_VERSION } from "./replay";
+import { MAX_RUN_TICKS } from "./verify";
+
+const replay = {
+  version: REPLAY_VERSION,
+  levelId: "first-sparks",
+  seed: "first-sparks",
+  inputs: [0, 30],
+  hardcore: false,
+  checksums: [[30, 12345]],
+  recordedAt: 1,
+};
+
+describe("parseReplay", () => {
+  it("reads a recording back", () => {
+    expect(parseReplay(replay)).toEqual(replay);
+  });
+
+  it("refuses input logs longer than a verifiable run", () => {
+    expect(() =>
+      parseReplay({ ...replay, inputs: [0, MAX_RUN_TICKS] }),
+    ).not.toThrow();
+    expect(() => parseReplay({ ...replay, inputs: [0, 1e9] })).toThrow(
+      /too long/,
+    );
+    expect(() =>
+      parseReplay({ ...replay, inputs: [0, MAX_RUN_TICKS, 1, 1] }),
+    ).toThrow(/too long/);
+  });
+});
@@ -0,0 +1,174 @@
+import {
+  createSimulation,
+  stepSimulation,
+  type SimulationState,
+} from "./engine";
+import {
+  decodeInput,
+  expandInputLog,
+  inputLogLength,
+  isInputLog,
+  type InputLog,
+} from "./input-log";
+import { getLevel } from "./levels";
+import type { PlayerInput } from "./player";
+import { hashSeed } from "./seed";
+import { MAX_RUN_TICKS } from "./verify";
+
+/**
+ * Run recordings.
+ *
+ * A replay is just the seed and the input log, plus a checksum of the state
+ * every second so playback can tell when it no longer matches what the
+ * player actually saw (for instance after the rules changed).
+ */
+
+export const REPLAY_VERSION = 2;
+
+// Record a checksum every this many ticks
+export const CHECKSUM_INTERVAL = 30;
+// Keep a state to seek from every this many ticks
+const SNAPSHOT_INTERVAL = 150;
+
+export interface Replay {
+  version: number;
+  levelId: string;
+  seed: string;
+  inputs: InputLog;
+  hardcore: boolean;
+  // [tick, checksum] pairs
+  checksums: [number, number][];
+  recordedAt: number;
+}
+
+export interface ReplayPlayer {
+  readonly replay: Replay;
+  readonly state: SimulationState;
+  // Input applied on the most recent tick, for effects like the water spray
+  readonly input: PlayerInput;
+  readonly totalTicks: number;
+  // First tick whose state differs from the recording, or null if it all matches
+  readonly desyncTick: number | null;
+  seek(tick: number): void;
+  advance(ticks: number): void;
+}
+
+export function shouldRecordChecksum(tick: number): boolean {
+  return tick % CHECKSUM_INTERVAL === 0;
+}
+
+// Hash of everything a player could see diverge: their position, water and the fires
+export function simulationChecksum(state: SimulationState): number {
+  const { player } = state;
+  const parts: (string | number)[] = [
+    state.tick,
+    player.position.x,
+    player.position.z,
+    player.rotation,
+    player.waterLevel,
+    state.gameStatus,
+  ];
+  for (const [key, fire] of state.fires) {
+    parts.push(key, fire.intensity);
+  }
+  return hashSeed(parts.join(","));
+}
+
+function invalid(message: string): never {
+  throw new Error(`Invalid replay: ${message}`);
+}
+
+export function parseReplay(raw: unknown): Replay {
+  if (typeof raw !== "object" || raw === null) invalid("expected an object");
+  const replay = raw as Replay;
+
+  // Version 1 recordings predate health, when every round was played by today's hardcore rules
+  if (replay.version !== REPLAY_VERSION && replay.version !== 1) {
+    invalid(`unsupported version ${String(replay.version)}`);
+  }
+  if (!getLevel(replay.levelId)) invalid("unknown level");
+  if (typeof replay.seed !== "string") invalid("missing seed");
+  if (!isInputLog(replay.inputs)) invalid("inputs must be an input log");
+  // Playback expands the whole log up front, so a huge tick count would exhaust memory
+  if (inputLogLength(replay.inputs) > MAX_RUN_TICKS) invalid("run is too long");
+  if (
+    !Array.isArray(replay.checksums) ||
+    !replay.checksums.every(
+      (entry) =>
+        Array.isArray(entry) &&
+        Number.isInteger(entry[0]) &&
+        Number.isInteger(entry[1]),
+    )
+  ) {
+    invalid("checksums must be [tick, checksum] pairs");
+  }
+
+  return {
+    version: replay.version,
+    levelId: replay.levelId,
+    seed: replay.seed,
+    inputs: replay.inputs,
+    hardcore: replay.version === 1 || replay.hardcore === true,
+    checksums: replay.checksums,
+    recordedAt: Number(replay.recordedAt) || 0,
+  };
+}
+
+// Re-simulate a recording once up front, then seek through it from periodic snapshots
+export function createReplayPlayer(replay: Replay): ReplayPlayer {
+  const level = getLevel(replay.levelId);
+  if (!level) invalid("unknown level");
+
+  const masks = expandInputLog(replay.inputs);
+  const inputAt = (tick: number): PlayerInput => decodeInput(masks[tick] ?? 0);
+  const recorded = new Map(replay.checksums);
+
+  const start = createSimulation(level, replay.seed, {
+    hardcore: replay.hardcore,
+  });
+  const snapshots: SimulationState[] = [start];
+  let desyncTick: number | null = null;
+  let state = start;
+  while (state.gameStatus === "playing" && state.tick < masks.length) {
+    state = stepSimulation(state, inputAt(state.tick));
+    if (state.tick % SNAPSHOT_INTERVAL === 0) snapshots.push(state);
+
+    const expected = recorded.get(state.tick);
+    if (
+      desyncTick === null &&
+      expected !== undefined &&
+      expected !== simulationChecksum(state)
+    ) {
+      desyncTick = state.tick;
+    }
+  }
+  const totalTicks = state.tick;
+
+  let current = start;
+
+  const player: ReplayPlayer = {
+    replay,
+    totalTicks,
+    desyncTick,
+    get state() {
+      return current;
+    },
+    get input() {
+      return inputAt(Math.max(0, current.tick - 1));
+    },
+    seek(tick) {
+      const target = Math.max(0, Math.min(totalTicks, Math.round(tick)));
+      if (target < current.tick || target - current.tick > SNAPSHOT_INTERVAL) {
+        current = snapshots[Math.floor(target / SNAPSHOT_INTERVAL)];
+      }
+      while (current.tick < target) {
+        current = stepSimulation(current, inputAt(current.tick));
+      }
+    },
+    advance(ticks) {
+      player.seek(current.tick + ticks);
+    },
+  };
+
+  return player;
+}
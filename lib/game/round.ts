@@ -0,0 +1,68 @@
+import type { FuelMap } from "./fuel";
+import type { LevelDefinition } from "./levels";
+import { computeScore, PAR_TIME, type RoundScore } from "./scoring";
+import type { Tree } from "./types";
+
+export type EndReason = "cleared" | "caught" | "time" | "objectives";
+
+export interface RoundResult {
+  status: "playing" | "won" | "lost";
+  endReason: EndReason | null;
+  score: RoundScore | null;
+}
+
+// Apply the level's time limit and objectives on top of the simulation's own outcome
+export function resolveRound(
+  level: LevelDefinition,
+  {
+    status,
+    timeElapsed,
+    waterUsed,
+    trees,
+    fuel,
+  }: {
+    status: "playing" | "won" | "lost";
+    timeElapsed: number;
+    waterUsed: number;
+    trees: Tree[];
+    fuel: FuelMap;
+  },
+): RoundResult {
+  let endReason: EndReason | null = null;
+  if (status === "lost") {
+    endReason = "caught";
+  } else if (status === "won") {
+    endReason = "cleared";
+  } else if (level.timeLimit !== null && timeElapsed >= level.timeLimit) {
+    status = "lost";
+    endReason = "time";
+  }
+
+  if (status === "playing") {
+    return { status, endReason, score: null };
+  }
+
+  const scoreInput = {
+    timeElapsed,
+    waterUsed,
+    trees,
+    fuel,
+    parTime: level.parTime ?? PAR_TIME,
+  };
+  const score = computeScore({ ...scoreInput, outcome: status });
+
+  const minTreesSaved = level.objectives.minTreesSavedPercent;
+  if (
+    status === "won" &&
+    minTreesSaved !== undefined &&
+    score.treesSavedPercent < minTreesSaved
+  ) {
+    return {
+      status: "lost",
+      endReason: "objectives",
+      score: computeScore({ ...scoreInput, outcome: "lost" }),
+    };
+  }
+
+  return { status, endReason, score };
+}
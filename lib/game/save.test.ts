@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+  createSimulation,
+  stepSimulation,
+  type SimulationState,
+} from "./engine";
+import { readInputLog, type InputLog } from "./input-log";
+import { CAMPAIGN_LEVELS, FREE_PLAY_LEVEL } from "./levels";
+import { simulationChecksum } from "./replay";
+import {
+  createSavedGame,
+  deserializeSimulation,
+  parseSavedGame,
+  serializeSimulation,
+} from "./save";
+import { NO_GUST } from "./wind";
+
+// Walk forward spraying, turn for a while, then stand still
+const FIRST_HALF: InputLog = [65, 90, 16, 45, 0, 120, 66, 60];
+const SECOND_HALF: InputLog = [16, 60, 66, 90, 0, 90, 65, 75];
+
+function play(state: SimulationState, log: InputLog): SimulationState {
+  for (const input of readInputLog(log)) state = stepSimulation(state, input);
+  return state;
+}
+
+// Through JSON, as the save travels to localStorage or the server and back
+function saveAndResume(state: SimulationState, log: InputLog) {
+  const json = JSON.stringify(createSavedGame(state, log, new Map(), false));
+  const save = parseSavedGame(JSON.parse(json));
+  return { save, state: deserializeSimulation(save.state) };
+}
+
+const LEVELS = [...CAMPAIGN_LEVELS, FREE_PLAY_LEVEL];
+
+describe("saved games", () => {
+  it.each(LEVELS.map((level) => [level.id, level] as const))(
+    "resume %s exactly where the round stopped",
+    (_, level) => {
+      const saved = play(createSimulation(level, level.seed), FIRST_HALF);
+      expect(saved.gameStatus).toBe("playing");
+
+      const resumed = saveAndResume(saved, FIRST_HALF);
+      expect(resumed.save.state).toEqual(serializeSimulation(saved));
+      expect(resumed.state).toEqual(saved);
+
+      const uninterrupted = play(saved, SECOND_HALF);
+      const finished = play(resumed.state, SECOND_HALF);
+      expect(simulationChecksum(finished)).toBe(
+        simulationChecksum(uninterrupted),
+      );
+      expect(finished).toEqual(uninterrupted);
+
+      // The whole run replays from the saved log plus what came after
+      const replayed = play(createSimulation(level, level.seed), [
+        ...resumed.save.inputs,
+        ...SECOND_HALF,
+      ]);
+      expect(replayed).toEqual(finished);
+    },
+  );
+
+  it("resumes saves that stored a gust-free level's gust times as null", () => {
+    const level = CAMPAIGN_LEVELS[0];
+    const saved = play(createSimulation(level, level.seed), FIRST_HALF);
+    expect(saved.windState.gustEndsAt).toBe(NO_GUST);
+
+    const serialized = serializeSimulation(saved);
+    const legacy = JSON.parse(
+      JSON.stringify({
+        ...serialized,
+        windState: {
+          ...serialized.windState,
+          gustStartsAt: null,
+          gustEndsAt: null,
+        },
+      }),
+    );
+    const resumed = deserializeSimulation(legacy);
+    expect(play(resumed, SECOND_HALF)).toEqual(play(saved, SECOND_HALF));
+  });
+});
@@ -0,0 +1,148 @@
+import type { SimulationState } from "./engine";
+import type { FuelCell } from "./fuel";
+import { inputLogLength, isInputLog, type InputLog } from "./input-log";
+import { getLevel } from "./levels";
+import type { FireCell } from "./types";
+import { NO_GUST } from "./wind";
+
+/**
+ * Saved rounds, for picking a game back up after the app was closed.
+ *
+ * A save is the whole simulation state as plain JSON, RNG included, so the
+ * resumed round carries on exactly where it stopped. The input log and
+ * checksums come along too: the finished run can still be verified for the
+ * leaderboard and recorded as a replay.
+ */
+
+export const SAVE_VERSION = 1;
+
+// The simulation with its maps as entry lists and the level by id
+export type SerializedSimulation = Omit<
+  SimulationState,
+  "level" | "fires" | "fuel"
+> & {
+  levelId: string;
+  fires: [string, FireCell][];
+  fuel: [string, FuelCell][];
+};
+
+export interface SavedGame {
+  version: number;
+  savedAt: number;
+  state: SerializedSimulation;
+  // Every tick's input so far, for score verification and the replay
+  inputs: InputLog;
+  checksums: [number, number][];
+  // Whether this is the player's ranked Daily Fire attempt
+  rankedDaily: boolean;
+}
+
+const SAVE_STORAGE_KEY = "wildfirefighters:save";
+
+export function serializeSimulation(
+  state: SimulationState,
+): SerializedSimulation {
+  const { level, fires, fuel, ...rest } = state;
+  return {
+    ...rest,
+    levelId: level.id,
+    fires: [...fires],
+    fuel: [...fuel],
+  };
+}
+
+export function deserializeSimulation(
+  saved: SerializedSimulation,
+): SimulationState {
+  const { levelId, fires, fuel, windState, ...rest } = saved;
+  const level = getLevel(levelId);
+  if (!level) throw new Error("Invalid save: unknown level");
+  return {
+    ...rest,
+    level,
+    fires: new Map(fires),
+    fuel: new Map(fuel),
+    // Saves from before NO_GUST stored gust-free levels' Infinity as null
+    windState: {
+      ...windState,
+      gustStartsAt: windState.gustStartsAt ?? NO_GUST,
+      gustEndsAt: windState.gustEndsAt ?? NO_GUST,
+    },
+  };
+}
+
+export function createSavedGame(
+  state: SimulationState,
+  inputs: InputLog,
+  checksums: Map<number, number>,
+  rankedDaily: boolean,
+): SavedGame {
+  return {
+    version: SAVE_VERSION,
+    savedAt: Date.now(),
+    state: serializeSimulation(state),
+    inputs: [...inputs],
+    checksums: [...checksums],
+    rankedDaily,
+  };
+}
+
+function invalid(message: string): never {
+  throw new Error(`Invalid save: ${message}`);
+}
+
+// Check an untrusted save before resuming it; throws on anything that could not have come from a running round
+export function parseSavedGame(raw: unknown): SavedGame {
+  if (typeof raw !== "object" || raw === null) invalid("expected an object");
+  const save = raw as SavedGame;
+
+  if (save.version !== SAVE_VERSION) {
+    invalid(`unsupported version ${String(save.version)}`);
+  }
+  const state = save.state;
+  if (typeof state !== "object" || state === null) invalid("missing state");
+  if (!getLevel(state.levelId)) invalid("unknown level");
+  if (state.gameStatus !== "playing") invalid("round is already over");
+  if (!Array.isArray(state.fires) || !Array.isArray(state.fuel)) {
+    invalid("fires and fuel must be entry lists");
+  }
+  if (!isInputLog(save.inputs) || inputLogLength(save.inputs) !== state.tick) {
+    invalid("inputs must be an input log covering every tick");
+  }
+  if (!Array.isArray(save.checksums)) invalid("missing checksums");
+
+  return {
+    version: save.version,
+    savedAt: Number(save.savedAt) || 0,
+    state,
+    inputs: save.inputs,
+    checksums: save.checksums,
+    rankedDaily: save.rankedDaily === true,
+  };
+}
+
+export function loadLocalSave(): SavedGame | null {
+  try {
+    const stored = window.localStorage.getItem(SAVE_STORAGE_KEY);
+    return stored ? parseSavedGame(JSON.parse(stored)) : null;
+  } catch (error) {
+    console.error("Failed to load saved game:", error);
+    return null;
+  }
+}
+
+export function saveLocally(save: SavedGame): void {
+  try {
+    window.localStorage.setItem(SAVE_STORAGE_KEY, JSON.stringify(save));
+  } catch (error) {
+    console.error("Failed to save game:", error);
+  }
+}
+
+export function clearLocalSave(): void {
+  try {
+    window.localStorage.removeItem(SAVE_STORAGE_KEY);
+  } catch (error) {
+    console.error("Failed to clear saved game:", error);
+  }
+}
@@ -0,0 +1,90 @@
+import { cellKey } from "./fire-simulation";
+import type { FuelMap } from "./fuel";
+import type { Tree } from "./types";
+
+/**
+ * End-of-round scoring.
+ *
+ * The score is computed once when a round ends and kept on the game state so
+ * the end screen, leaderboards and sharing all read the same numbers.
+ */
+
+export type StarRating = 0 | 1 | 2 | 3;
+
+export interface RoundScore {
+  outcome: "won" | "lost";
+  // Seconds until the last fire went out; null when the round was lost
+  timeToClear: number | null;
+  timeElapsed: number;
+  waterUsed: number;
+  cellsBurned: number;
+  treesSaved: number;
+  totalTrees: number;
+  treesSavedPercent: number;
+  stars: StarRating;
+  points: number;
+}
+
+// Default par: clearing the fires faster than this earns the time bonus and the third star
+export const PAR_TIME = 120;
+
+export function computeScore({
+  outcome,
+  timeElapsed,
+  waterUsed,
+  trees,
+  fuel,
+  parTime = PAR_TIME,
+}: {
+  outcome: "won" | "lost";
+  timeElapsed: number;
+  waterUsed: number;
+  trees: Tree[];
+  fuel: FuelMap;
+  parTime?: number;
+}): RoundScore {
+  let cellsBurned = 0;
+  for (const cell of fuel.values()) {
+    if (cell.burnt) cellsBurned++;
+  }
+
+  const treesSaved = trees.filter(
+    (tree) => !fuel.get(cellKey(tree.x, tree.z))?.burnt,
+  ).length;
+  const treesSavedPercent =
+    trees.length > 0 ? (treesSaved / trees.length) * 100 : 100;
+  const timeToClear = outcome === "won" ? timeElapsed : null;
+
+  let stars: StarRating = 0;
+  if (outcome === "won") {
+    stars = 1;
+    if (treesSavedPercent >= 80) stars = 2;
+    if (treesSavedPercent >= 95 && timeElapsed <= parTime) stars = 3;
+  }
+
+  // Saved forest dominates; a quick, water-efficient clear breaks ties
+  const points =
+    outcome === "won"
+      ? Math.max(
+          0,
+          Math.round(
+            treesSavedPercent * 10 +
+              Math.max(0, parTime - timeElapsed) * 2 -
+              waterUsed * 0.2,
+          ),
+        )
+      : 0;
+
+  return {
+    outcome,
+    timeToClear,
+    timeElapsed,
+    waterUsed,
+    cellsBurned,
+    treesSaved,
+    totalTrees: trees.length,
+    treesSavedPercent,
+    stars,
+    points,
+  };
+}
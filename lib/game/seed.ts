@@ -0,0 +1,26 @@
+const SEED_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+const SEED_LENGTH = 8;
+
+// Hash a seed string into a 32-bit integer suitable for createRandom (FNV-1a)
+export function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Short, human-friendly seed that is easy to read out or type into a URL
+export function generateSeed(): string {
+  let seed = "";
+  for (let i = 0; i < SEED_LENGTH; i++) {
+    seed += SEED_ALPHABET[Math.floor(Math.random() * SEED_ALPHABET.length)];
+  }
+  return seed;
+}
+
+export function normalizeSeed(seed: string | null | undefined): string | null {
+  const trimmed = seed?.trim().toLowerCase().slice(0, 32);
+  return trimmed && /^[a-z0-9-]+$/.test(trimmed) ? trimmed : null;
+}
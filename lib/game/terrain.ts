@@ -0,0 +1,142 @@
+import { GRID_SIZE } from "./constants";
+import { nextRandom, type RandomSource } from "./random";
+
+/**
+ * Ground elevation.
+ *
+ * Heights are sampled at every grid line, so each fuel cell has a height at
+ * its four corners and the ground between them is interpolated. Terrain is
+ * either rolled from the seed as smooth hills or stretched from a level's
+ * hand-written heightmap; levels that ask for neither stay flat.
+ */
+
+export interface Terrain {
+  worldSize: number;
+  // Samples along each side, one per grid line from edge to edge
+  samplesPerSide: number;
+  // Row by row along z, each row running along x
+  heights: number[];
+}
+
+// Height of the ground at a world position
+export type GroundHeight = (x: number, z: number) => number;
+
+// Distance between the random hilltops and hollows of generated terrain
+const HILL_SPACING = 12;
+// Finer bumps on top of the hills, as a fraction of their height
+const DETAIL_STRENGTH = 0.3;
+
+function samplesFor(worldSize: number): number {
+  return worldSize / GRID_SIZE + 1;
+}
+
+function smoothstep(t: number): number {
+  return t * t * (3 - 2 * t);
+}
+
+// Bilinear lookup in a square grid of values, with u and v from 0 to 1 across it
+function sampleGrid(
+  values: number[],
+  size: number,
+  u: number,
+  v: number,
+  ease: (t: number) => number = (t) => t,
+): number {
+  const fx = Math.max(0, Math.min(1, u)) * (size - 1);
+  const fz = Math.max(0, Math.min(1, v)) * (size - 1);
+  const i = Math.min(size - 2, Math.floor(fx));
+  const j = Math.min(size - 2, Math.floor(fz));
+  const tx = ease(fx - i);
+  const tz = ease(fz - j);
+
+  const at = (x: number, z: number): number => values[z * size + x];
+  const top = at(i, j) + (at(i + 1, j) - at(i, j)) * tx;
+  const bottom = at(i, j + 1) + (at(i + 1, j + 1) - at(i, j + 1)) * tx;
+  return top + (bottom - top) * tz;
+}
+
+export function flatTerrain(worldSize: number): Terrain {
+  const samplesPerSide = samplesFor(worldSize);
+  return {
+    worldSize,
+    samplesPerSide,
+    heights: new Array(samplesPerSide * samplesPerSide).fill(0),
+  };
+}
+
+function buildTerrain(
+  worldSize: number,
+  heightAt: (u: number, v: number) => number,
+): Terrain {
+  const samplesPerSide = samplesFor(worldSize);
+  const heights: number[] = [];
+  for (let j = 0; j < samplesPerSide; j++) {
+    for (let i = 0; i < samplesPerSide; i++) {
+      heights.push(
+        heightAt(i / (samplesPerSide - 1), j / (samplesPerSide - 1)),
+      );
+    }
+  }
+  return { worldSize, samplesPerSide, heights };
+}
+
+// Rolling hills from value noise, from 0 in the lowest hollow up to the given height
+export function generateTerrain(
+  rng: RandomSource,
+  worldSize: number,
+  amplitude: number,
+): Terrain {
+  const octave = (spacing: number): ((u: number, v: number) => number) => {
+    const size = Math.ceil(worldSize / spacing) + 1;
+    const values = Array.from({ length: size * size }, () => nextRandom(rng));
+    return (u, v) => sampleGrid(values, size, u, v, smoothstep);
+  };
+  const hills = octave(HILL_SPACING);
+  const detail = octave(HILL_SPACING / 2);
+
+  const terrain = buildTerrain(
+    worldSize,
+    (u, v) => hills(u, v) + detail(u, v) * DETAIL_STRENGTH,
+  );
+  const lowest = Math.min(...terrain.heights);
+  const highest = Math.max(...terrain.heights);
+  const scale = highest > lowest ? amplitude / (highest - lowest) : 0;
+  terrain.heights = terrain.heights.map((height) => (height - lowest) * scale);
+  return terrain;
+}
+
+// Stretch a square heightmap of any size over the whole world
+export function terrainFromHeightmap(
+  heightmap: number[][],
+  worldSize: number,
+): Terrain {
+  const size = heightmap.length;
+  const values = heightmap.flat();
+  return buildTerrain(worldSize, (u, v) => sampleGrid(values, size, u, v));
+}
+
+// Height of the ground under a point; beyond the world edge the edge height carries on
+export function terrainHeight(terrain: Terrain, x: number, z: number): number {
+  const half = terrain.worldSize / 2;
+  return sampleGrid(
+    terrain.heights,
+    terrain.samplesPerSide,
+    (x + half) / terrain.worldSize,
+    (z + half) / terrain.worldSize,
+  );
+}
+
+// Rise over run from one point to another; positive going uphill
+export function terrainGrade(
+  terrain: Terrain,
+  from: { x: number; z: number },
+  to: { x: number; z: number },
+): number {
+  const distance = Math.sqrt((to.x - from.x) ** 2 + (to.z - from.z) ** 2);
+  if (distance === 0) return 0;
+  return (
+    (terrainHeight(terrain, to.x, to.z) -
+      terrainHeight(terrain, from.x, from.z)) /
+    distance
+  );
+}
@@ -0,0 +1,33 @@
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface FireCell {
+  x: number;
+  z: number;
+  intensity: number;
+  spreadTime: number;
+}
+
+export type FireMap = Map<string, FireCell>;
+
+export type GameStatus = "playing" | "won" | "lost" | "tutorial";
+
+export interface WindConditions {
+  direction: Vector3;
+  speed: number;
+}
+
+export interface Tree {
+  x: number;
+  z: number;
+  radius: number;
+  height: number;
+}
+
+export interface RefillStation {
+  position: Vector3;
+  radius: number;
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { SIM_TIMESTEP } from "./constants";
+import type { InputLog } from "./input-log";
+import { CAMPAIGN_LEVELS, parseLevelDefinition } from "./levels";
+import { MAX_RUN_TICKS, replayRun, verifyRun } from "./verify";
+
+const BARE_ROW = "........";
+
+// One small grass fire that burns itself out, so standing still wins
+const LEVEL = parseLevelDefinition({
+  id: "test-grass-fire",
+  name: "Grass fire",
+  seed: "test",
+  worldSize: 16,
+  refillStations: [{ x: 6, z: 6, radius: 2 }],
+  initialFires: [{ x: 0, z: 4, intensity: 0.5 }],
+  treeCount: 0,
+  windSchedule: [{ time: 0, direction: 0, speed: 0 }],
+  windVariability: { driftDegrees: 0, gustStrength: 0 },
+  fuelMap: [
+    BARE_ROW,
+    BARE_ROW,
+    BARE_ROW,
+    BARE_ROW,
+    BARE_ROW,
+    BARE_ROW,
+    "....g...",
+    BARE_ROW,
+  ],
+  objectives: {},
+  timeLimit: null,
+});
+
+const IDLE_RUN: InputLog = [0, 3000];
+
+function claimed(inputs: InputLog = IDLE_RUN) {
+  const { score } = replayRun(LEVEL, "test", inputs);
+  if (!score) throw new Error("Expected the fixture run to finish");
+  return {
+    points: score.points,
+    stars: score.stars,
+    timeElapsed: score.timeElapsed,
+  };
+}
+
+describe("verifyRun", () => {
+  it("accepts a run whose claimed result matches the replay", () => {
+    const result = verifyRun(LEVEL, "test", IDLE_RUN, claimed());
+    expect(result.valid).toBe(true);
+  });
+
+  it("rejects a claim with more points than the replay earned", () => {
+    const claim = claimed();
+    expect(
+      verifyRun(LEVEL, "test", IDLE_RUN, {
+        ...claim,
+        points: claim.points + 1,
+      }),
+    ).toEqual({ valid: false, reason: "Result does not match the replay" });
+  });
+
+  it("rejects a claim with a shorter time than the replay", () => {
+    const claim = claimed();
+    expect(
+      verifyRun(LEVEL, "test", IDLE_RUN, {
+        ...claim,
+        timeElapsed: claim.timeElapsed - SIM_TIMESTEP,
+      }).valid,
+    ).toBe(false);
+  });
+
+  it("rejects inputs that run out before the round ends", () => {
+    expect(verifyRun(LEVEL, "test", [0, 30], claimed())).toEqual({
+      valid: false,
+      reason: "Run does not finish",
+    });
+  });
+
+  it("rejects a run that was lost", () => {
+    // Left alone, First Sparks spreads until it catches the player
+    const level = CAMPAIGN_LEVELS[0];
+    expect(verifyRun(level, level.seed, [0, 1200], claimed())).toEqual({
+      valid: false,
+      reason: "Run was not won",
+    });
+  });
+
+  it("refuses to re-simulate overly long runs", () => {
+    expect(verifyRun(LEVEL, "test", [0, MAX_RUN_TICKS + 1], claimed())).toEqual(
+      { valid: false, reason: "Run is too long to verify" },
+    );
+  });
+});
@@ -0,0 +1,75 @@
+import { SIM_TIMESTEP } from "./constants";
+import {
+  createSimulation,
+  stepSimulation,
+  type SimulationOptions,
+  type SimulationState,
+} from "./engine";
+import { inputLogLength, readInputLog, type InputLog } from "./input-log";
+import type { LevelDefinition } from "./levels";
+import type { RoundScore } from "./scoring";
+
+/**
+ * Server-side run validation.
+ *
+ * A submitted run is re-simulated from its seed and input log with the same
+ * engine the browser uses; the claimed result only counts if the replay ends
+ * the same way.
+ */
+
+export interface ClaimedResult {
+  points: number;
+  stars: number;
+  timeElapsed: number;
+}
+
+export type RunVerification =
+  | { valid: true; score: RoundScore }
+  | { valid: false; reason: string };
+
+// Longest run worth re-simulating: 30 minutes of ticks
+export const MAX_RUN_TICKS = Math.round((30 * 60) / SIM_TIMESTEP);
+
+// Step a fresh round through the log until it ends or the inputs run out
+export function replayRun(
+  level: LevelDefinition,
+  seed: string,
+  inputs: InputLog,
+  options: SimulationOptions = {},
+): SimulationState {
+  let state = createSimulation(level, seed, options);
+  for (const input of readInputLog(inputs)) {
+    if (state.gameStatus !== "playing") break;
+    state = stepSimulation(state, input);
+  }
+  return state;
+}
+
+export function verifyRun(
+  level: LevelDefinition,
+  seed: string,
+  inputs: InputLog,
+  claimed: ClaimedResult,
+  options: SimulationOptions = {},
+): RunVerification {
+  if (inputLogLength(inputs) > MAX_RUN_TICKS) {
+    return { valid: false, reason: "Run is too long to verify" };
+  }
+
+  const { gameStatus, score } = replayRun(level, seed, inputs, options);
+  if (gameStatus === "playing" || !score) {
+    return { valid: false, reason: "Run does not finish" };
+  }
+  if (score.outcome !== "won") {
+    return { valid: false, reason: "Run was not won" };
+  }
+  if (
+    score.points !== claimed.points ||
+    score.stars !== claimed.stars ||
+    Math.abs(score.timeElapsed - claimed.timeElapsed) > SIM_TIMESTEP / 2
+  ) {
+    return { valid: false, reason: "Result does not match the replay" };
+  }
+
+  return { valid: true, score };
+}
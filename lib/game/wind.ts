@@ -0,0 +1,238 @@
+import {
+  cloneRandom,
+  nextRandom,
+  randomRange,
+  type RandomSource,
+} from "./random";
+import type { Vector3, WindConditions } from "./types";
+
+/**
+ * Wind model.
+ *
+ * The level's schedule scripts the big picture: each keyframe is a front that
+ * ramps in over its transition time. On top of that the wind drifts a few
+ * degrees either way and gusts come and go, both driven by a seeded RNG kept
+ * in the wind state so every run with the same seed blows the same way.
+ */
+
+// Wind strength (0-1) applied to the spread offset; the direction vector is scaled by it
+export const WIND_DIRECTION_SCALE = 0.75;
+
+// Fronts ramp in over this many seconds unless the keyframe says otherwise
+const DEFAULT_FRONT_TRANSITION = 10;
+// Degrees per second the drift moves towards its current target
+const DRIFT_RATE = 3;
+// How quickly gusts build up and die down, in speed multiplier per second
+const GUST_RAMP_RATE = 1;
+// Only announce changes this far ahead, in seconds
+const FRONT_FORECAST_HORIZON = 30;
+const GUST_FORECAST_HORIZON = 5;
+
+// Gust start and end while none is scheduled; finite, because Infinity comes back from a JSON save as null
+export const NO_GUST = Number.MAX_VALUE;
+
+export interface WindKeyframe {
+  // Seconds since the start of the round; the front is fully in by this time
+  time: number;
+  // Direction the wind blows towards, in degrees from +x towards +z
+  direction: number;
+  speed: number;
+  // Seconds over which the wind ramps from the previous keyframe into this one
+  transition?: number;
+}
+
+export interface WindVariability {
+  // Largest drift away from the scheduled direction, in degrees
+  driftDegrees: number;
+  // Peak extra speed during the strongest gusts, as a fraction of the base speed
+  gustStrength: number;
+}
+
+export const DEFAULT_WIND_VARIABILITY: WindVariability = {
+  driftDegrees: 20,
+  gustStrength: 0.5,
+};
+
+export interface WindState {
+  rng: RandomSource;
+  driftOffset: number;
+  driftTarget: number;
+  nextDriftAt: number;
+  gustLevel: number;
+  gustPeak: number;
+  gustStartsAt: number;
+  gustEndsAt: number;
+}
+
+export interface WindForecast {
+  kind: "front" | "gust";
+  // Seconds until the change starts; 0 while it is already under way
+  in: number;
+  direction: number;
+  speed: number;
+}
+
+export function windDirectionFromDegrees(degrees: number): Vector3 {
+  const radians = (degrees * Math.PI) / 180;
+  return {
+    x: Math.cos(radians) * WIND_DIRECTION_SCALE,
+    y: 0,
+    z: Math.sin(radians) * WIND_DIRECTION_SCALE,
+  };
+}
+
+// Compass label for a direction, with north pointing towards -z
+export function compassDirection(degrees: number): string {
+  const labels = ["E", "SE", "S", "SW", "W", "NW", "N", "NE"];
+  const index = Math.round((((degrees % 360) + 360) % 360) / 45) % 8;
+  return labels[index];
+}
+
+// Shortest signed angular difference from a to b, in degrees
+function angleDelta(a: number, b: number): number {
+  return ((((b - a) % 360) + 540) % 360) - 180;
+}
+
+function rampStart(keyframe: WindKeyframe): number {
+  return keyframe.time - (keyframe.transition ?? DEFAULT_FRONT_TRANSITION);
+}
+
+// Scheduled wind at a point in time, before drift and gusts
+function scheduledWindAt(
+  schedule: WindKeyframe[],
+  time: number,
+): { direction: number; speed: number } {
+  let current = schedule[0];
+  for (let i = 1; i < schedule.length; i++) {
+    const next = schedule[i];
+    if (time >= next.time) {
+      current = next;
+      continue;
+    }
+
+    const start = rampStart(next);
+    if (time > start) {
+      const t = (time - start) / (next.time - start);
+      return {
+        direction:
+          current.direction + angleDelta(current.direction, next.direction) * t,
+        speed: current.speed + (next.speed - current.speed) * t,
+      };
+    }
+    break;
+  }
+
+  return { direction: current.direction, speed: current.speed };
+}
+
+function scheduleGust(
+  state: WindState,
+  variability: WindVariability,
+  time: number,
+): void {
+  state.gustStartsAt = time + randomRange(state.rng, 8, 20);
+  state.gustEndsAt = state.gustStartsAt + randomRange(state.rng, 2, 5);
+  state.gustPeak = randomRange(state.rng, 0.5, 1) * variability.gustStrength;
+}
+
+export function createWindState(
+  rng: RandomSource,
+  variability: WindVariability = DEFAULT_WIND_VARIABILITY,
+): WindState {
+  const state: WindState = {
+    rng,
+    driftOffset: 0,
+    driftTarget: 0,
+    nextDriftAt: 0,
+    gustLevel: 0,
+    gustPeak: 0,
+    gustStartsAt: NO_GUST,
+    gustEndsAt: NO_GUST,
+  };
+  if (variability.gustStrength > 0) {
+    scheduleGust(state, variability, 0);
+  }
+  return state;
+}
+
+// Advance drift and gusts by one timestep
+export function updateWind(
+  state: WindState,
+  variability: WindVariability,
+  time: number,
+  deltaTime: number,
+): WindState {
+  const next: WindState = { ...state, rng: cloneRandom(state.rng) };
+
+  if (time >= next.nextDriftAt) {
+    next.driftTarget =
+      (nextRandom(next.rng) * 2 - 1) * variability.driftDegrees;
+    next.nextDriftAt = time + randomRange(next.rng, 6, 12);
+  }
+  const maxDrift = DRIFT_RATE * deltaTime;
+  next.driftOffset += Math.max(
+    -maxDrift,
+    Math.min(maxDrift, next.driftTarget - next.driftOffset),
+  );
+
+  if (time >= next.gustEndsAt) {
+    scheduleGust(next, variability, time);
+  }
+  const gustTarget =
+    time >= next.gustStartsAt && time < next.gustEndsAt ? next.gustPeak : 0;
+  const maxGustChange = GUST_RAMP_RATE * deltaTime;
+  next.gustLevel += Math.max(
+    -maxGustChange,
+    Math.min(maxGustChange, gustTarget - next.gustLevel),
+  );
+
+  return next;
+}
+
+// Wind actually blowing: the schedule plus the current drift and gust
+export function currentWind(
+  state: WindState,
+  schedule: WindKeyframe[],
+  time: number,
+): WindConditions {
+  const scheduled = scheduledWindAt(schedule, time);
+  return {
+    direction: windDirectionFromDegrees(
+      scheduled.direction + state.driftOffset,
+    ),
+    speed: scheduled.speed * (1 + state.gustLevel),
+  };
+}
+
+// The next change worth warning the player about, if any is close
+export function forecastWind(
+  state: WindState,
+  schedule: WindKeyframe[],
+  time: number,
+): WindForecast | null {
+  const front = schedule.find((keyframe) => keyframe.time > time);
+  if (front) {
+    const startsIn = Math.max(0, rampStart(front) - time);
+    if (startsIn <= FRONT_FORECAST_HORIZON) {
+      return {
+        kind: "front",
+        in: startsIn,
+        direction: front.direction,
+        speed: front.speed,
+      };
+    }
+  }
+
+  const gustIn = state.gustStartsAt - time;
+  if (gustIn > 0 && gustIn <= GUST_FORECAST_HORIZON) {
+    const scheduled = scheduledWindAt(schedule, state.gustStartsAt);
+    return {
+      kind: "gust",
+      in: gustIn,
+      direction: scheduled.direction + state.driftOffset,
+      speed: scheduled.speed * (1 + state.gustPeak),
+    };
+  }
+
+  return null;
+}
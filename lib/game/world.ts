@@ -0,0 +1,202 @@
+import { GRID_SIZE } from "./constants";
+import { initializeFires, spawnFires } from "./fire-simulation";
+import { createFuelMap, type FuelMap } from "./fuel";
+import type { LevelDefinition } from "./levels";
+import {
+  createRandom,
+  nextRandom,
+  randomRange,
+  type RandomSource,
+} from "./random";
+import { hashSeed } from "./seed";
+import {
+  flatTerrain,
+  generateTerrain,
+  terrainFromHeightmap,
+  terrainHeight,
+  type Terrain,
+} from "./terrain";
+import type { FireMap, RefillStation, Tree } from "./types";
+import {
+  createWindState,
+  DEFAULT_WIND_VARIABILITY,
+  type WindKeyframe,
+  type WindState,
+} from "./wind";
+
+/**
+ * Seeded world generation.
+ *
+ * Each part of the layout draws from its own random stream derived from the
+ * seed, so tweaking how trees are placed does not reshuffle the fires or wind
+ * for an existing seed.
+ */
+
+export interface WorldLayout {
+  seed: string;
+  worldSize: number;
+  terrain: Terrain;
+  refillStations: RefillStation[];
+  trees: Tree[];
+  fuel: FuelMap;
+  fires: FireMap;
+  windSchedule: WindKeyframe[];
+  windState: WindState;
+  rng: RandomSource;
+}
+
+function seededRandom(seed: string, stream: string): RandomSource {
+  return createRandom(hashSeed(`${seed}:${stream}`));
+}
+
+function createTree(rng: RandomSource, x: number, z: number): Tree {
+  const treeRadius = nextRandom(rng) * 0.8 + 1;
+  return { x, z, radius: treeRadius * 0.8, height: randomRange(rng, 4, 7) };
+}
+
+// Generate trees with collision avoidance around stations, the spawn and each other
+export function generateTrees(
+  rng: RandomSource,
+  refillStations: RefillStation[],
+  worldSize: number,
+  count: number,
+): Tree[] {
+  const trees: Tree[] = [];
+  const maxAttempts = 200;
+
+  for (let i = 0; i < count && trees.length < count; i++) {
+    let attempts = 0;
+    let placed = false;
+
+    while (attempts < maxAttempts && !placed) {
+      const x = (nextRandom(rng) - 0.5) * (worldSize - 5);
+      const z = (nextRandom(rng) - 0.5) * (worldSize - 5);
+
+      // Check distance from refill stations
+      const nearStation = refillStations.some(
+        (station) =>
+          Math.sqrt(
+            (x - station.position.x) ** 2 + (z - station.position.z) ** 2,
+          ) < 5,
+      );
+
+      // Check distance from center
+      const nearCenter = Math.sqrt(x ** 2 + z ** 2) < 8;
+
+      // Check distance from other trees
+      const tree = createTree(rng, x, z);
+      const nearOtherTree = trees.some(
+        (other) =>
+          Math.sqrt((x - other.x) ** 2 + (z - other.z) ** 2) <
+          other.radius + tree.radius / 0.8 + 1,
+      );
+
+      if (!nearStation && !nearCenter && !nearOtherTree) {
+        trees.push(tree);
+        placed = true;
+      }
+
+      attempts++;
+    }
+  }
+
+  return trees;
+}
+
+// One tree per "T" cell of a hand-drawn fuel map, jittered so rows don't look planted
+export function treesFromFuelMap(
+  rng: RandomSource,
+  fuelMapRows: string[],
+): Tree[] {
+  const trees: Tree[] = [];
+  const cellsPerSide = fuelMapRows.length;
+
+  fuelMapRows.forEach((row, j) => {
+    [...row].forEach((symbol, i) => {
+      if (symbol !== "T") return;
+      const x = (i - cellsPerSide / 2 + randomRange(rng, 0.3, 0.7)) * GRID_SIZE;
+      const z = (j - cellsPerSide / 2 + randomRange(rng, 0.3, 0.7)) * GRID_SIZE;
+      trees.push(createTree(rng, x, z));
+    });
+  });
+
+  return trees;
+}
+
+function generateWindSchedule(rng: RandomSource): WindKeyframe[] {
+  return [
+    {
+      time: 0,
+      direction: nextRandom(rng) * 360,
+      speed: randomRange(rng, 0.8, 1.6),
+    },
+  ];
+}
+
+// Generated hills default to this height when the level doesn't say
+const DEFAULT_TERRAIN_AMPLITUDE = 3;
+
+function createTerrain(level: LevelDefinition, seed: string): Terrain {
+  if (!level.terrain) return flatTerrain(level.worldSize);
+  if (level.terrain.heightmap) {
+    return terrainFromHeightmap(level.terrain.heightmap, level.worldSize);
+  }
+  return generateTerrain(
+    seededRandom(seed, "terrain"),
+    level.worldSize,
+    level.terrain.amplitude ?? DEFAULT_TERRAIN_AMPLITUDE,
+  );
+}
+
+// Build the complete starting layout for a level and seed; the same pair always yields the same world
+export function generateWorld(
+  level: LevelDefinition,
+  seed: string,
+): WorldLayout {
+  const terrain = createTerrain(level, seed);
+  const refillStations = level.refillStations.map(({ x, z, radius }) => ({
+    position: { x, y: terrainHeight(terrain, x, z), z },
+    radius,
+  }));
+
+  const trees = level.fuelMap
+    ? treesFromFuelMap(seededRandom(seed, "trees"), level.fuelMap)
+    : generateTrees(
+        seededRandom(seed, "trees"),
+        refillStations,
+        level.worldSize,
+        level.treeCount,
+      );
+  const fuel = createFuelMap(
+    seededRandom(seed, "fuel"),
+    trees,
+    refillStations,
+    level.worldSize,
+    level.fuelMap,
+  );
+  const fires = Array.isArray(level.initialFires)
+    ? spawnFires(fuel, level.initialFires)
+    : initializeFires(
+        seededRandom(seed, "fires"),
+        fuel,
+        level.initialFires,
+        level.worldSize,
+      );
+
+  return {
+    seed,
+    worldSize: level.worldSize,
+    terrain,
+    refillStations,
+    trees,
+    fuel,
+    fires,
+    windSchedule:
+      level.windSchedule ?? generateWindSchedule(seededRandom(seed, "wind")),
+    windState: createWindState(
+      seededRandom(seed, "gusts"),
+      level.windVariability ?? DEFAULT_WIND_VARIABILITY,
+    ),
+    rng: seededRandom(seed, "simulation"),
+  };
+}
@@ -0,0 +1,141 @@
+import { TOOL_IDS, TOOLS, type ToolId } from "@/lib/game/equipment";
+
+/**
+ * Keyboard bindings for the game's input actions.
+ *
+ * Keys are identified by `KeyboardEvent.key` in lower case. The player can
+ * rebind any action; bindings are kept in localStorage on their device and
+ * fall back to the defaults for anything missing from an older save.
+ */
+
+export type InputAction =
+  | "forward"
+  | "back"
+  | "strafeLeft"
+  | "strafeRight"
+  | "turnLeft"
+  | "turnRight"
+  | "shoot"
+  | "refill"
+  | "nextTool"
+  | "previousTool"
+  | "pause"
+  | `equip:${ToolId}`;
+
+export type KeyBindings = Record<InputAction, string[]>;
+
+export const INPUT_ACTIONS: { action: InputAction; label: string }[] = [
+  { action: "forward", label: "Move forward" },
+  { action: "back", label: "Move back" },
+  { action: "strafeLeft", label: "Strafe left" },
+  { action: "strafeRight", label: "Strafe right" },
+  { action: "turnLeft", label: "Turn left" },
+  { action: "turnRight", label: "Turn right" },
+  { action: "shoot", label: "Use tool" },
+  { action: "refill", label: "Head to a refill station" },
+  { action: "nextTool", label: "Next tool" },
+  { action: "previousTool", label: "Previous tool" },
+  { action: "pause", label: "Pause" },
+  ...TOOL_IDS.map((tool) => ({
+    action: `equip:${tool}` as const,
+    label: `Equip ${TOOLS[tool].name.toLowerCase()}`,
+  })),
+];
+
+export const DEFAULT_BINDINGS: KeyBindings = {
+  forward: ["w", "arrowup"],
+  back: ["s", "arrowdown"],
+  strafeLeft: ["a"],
+  strafeRight: ["d"],
+  turnLeft: ["arrowleft"],
+  turnRight: ["arrowright"],
+  shoot: [" "],
+  refill: ["r"],
+  nextTool: ["q"],
+  previousTool: ["e"],
+  pause: ["p", "escape"],
+  ...(Object.fromEntries(
+    TOOL_IDS.map((tool) => [`equip:${tool}`, [TOOLS[tool].key]]),
+  ) as Record<`equip:${ToolId}`, string[]>),
+};
+
+const BINDINGS_STORAGE_KEY = "wildfirefighters:bindings";
+
+export function loadBindings(): KeyBindings {
+  try {
+    const stored = window.localStorage.getItem(BINDINGS_STORAGE_KEY);
+    if (!stored) return DEFAULT_BINDINGS;
+    const parsed = JSON.parse(stored) as Partial<KeyBindings>;
+    const bindings = { ...DEFAULT_BINDINGS };
+    for (const { action } of INPUT_ACTIONS) {
+      const keys = parsed[action];
+      if (Array.isArray(keys) && keys.every((key) => typeof key === "string")) {
+        bindings[action] = keys;
+      }
+    }
+    return bindings;
+  } catch (error) {
+    console.error("Failed to load key bindings:", error);
+    return DEFAULT_BINDINGS;
+  }
+}
+
+export function saveBindings(bindings: KeyBindings): void {
+  try {
+    window.localStorage.setItem(BINDINGS_STORAGE_KEY, JSON.stringify(bindings));
+  } catch (error) {
+    console.error("Failed to save key bindings:", error);
+  }
+}
+
+// Make a key the only one for an action, taking it away from any other action it was bound to
+export function bindKey(
+  bindings: KeyBindings,
+  action: InputAction,
+  key: string,
+): KeyBindings {
+  const next = { ...bindings };
+  for (const { action: other } of INPUT_ACTIONS) {
+    next[other] = next[other].filter((bound) => bound !== key);
+  }
+  next[action] = [key];
+  return next;
+}
+
+export function actionsForKey(
+  bindings: KeyBindings,
+  key: string,
+): InputAction[] {
+  return INPUT_ACTIONS.filter(({ action }) =>
+    bindings[action].includes(key),
+  ).map(({ action }) => action);
+}
+
+export function isActionHeld(
+  bindings: KeyBindings,
+  heldKeys: Set<string>,
+  action: InputAction,
+): boolean {
+  return bindings[action].some((key) => heldKeys.has(key));
+}
+
+const KEY_LABELS: Record<string, string> = {
+  " ": "Space",
+  arrowup: "↑",
+  arrowdown: "↓",
+  arrowleft: "←",
+  arrowright: "→",
+  escape: "Esc",
+};
+
+export function keyLabel(key: string): string {
+  return KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+}
+
+// All of an action's keys for hints, e.g. "W / ↑"
+export function bindingLabel(
+  bindings: KeyBindings,
+  action: InputAction,
+): string {
+  return bindings[action].map(keyLabel).join(" / ") || "unbound";
+}
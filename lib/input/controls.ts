@@ -0,0 +1,156 @@
+import type { ToolId } from "@/lib/game/equipment";
+import { quantizeAxis } from "@/lib/game/input-log";
+import {
+  TURN_SPEED,
+  type PlayerInput,
+  type PlayerState,
+} from "@/lib/game/player";
+import type { RefillStation } from "@/lib/game/types";
+import { isActionHeld, type InputAction, type KeyBindings } from "./bindings";
+import type { GamepadReading } from "./gamepad";
+
+/**
+ * Turns held keys, a gamepad, the mouse and touch buttons into one
+ * `PlayerInput` for the simulation.
+ *
+ * The simulation can only turn so fast, so mouse-look queues up how far the
+ * mouse has moved and works it off over the following ticks at up to full
+ * turning speed.
+ */
+
+export interface ControlSources {
+  bindings: KeyBindings;
+  heldKeys: Set<string>;
+  gamepad: GamepadReading | null;
+  // The on-screen use button on touch screens
+  touchShooting: boolean;
+}
+
+export interface MouseLook {
+  // Queue a pointer-locked mouse movement, in pixels
+  move(movementX: number): void;
+  // Turn input that works off the queue over the given seconds of simulation
+  turnFor(seconds: number): number;
+  clear(): void;
+}
+
+// Radians of turning per pixel of mouse movement
+const MOUSE_SENSITIVITY = 0.004;
+// Don't let a wild swipe queue up more than half a turn
+const MAX_QUEUED_LOOK = Math.PI;
+// Keep turning towards a station until facing it this closely, in radians,
+// and only walk once facing it within the wider angle
+const FACING_TOLERANCE = 0.05;
+const WALKING_ANGLE = 0.6;
+
+function digitalAxis(negative: boolean, positive: boolean): number {
+  if (negative === positive) return 0;
+  return negative ? -1 : 1;
+}
+
+function clampAxis(value: number): number {
+  return Math.max(-1, Math.min(1, value));
+}
+
+export function createMouseLook(): MouseLook {
+  // Radians still to turn; positive turns left like the turn input
+  let queued = 0;
+
+  return {
+    move(movementX) {
+      queued = Math.max(
+        -MAX_QUEUED_LOOK,
+        Math.min(MAX_QUEUED_LOOK, queued - movementX * MOUSE_SENSITIVITY),
+      );
+    },
+
+    turnFor(seconds) {
+      const fullTurn = TURN_SPEED * seconds;
+      if (fullTurn <= 0) return 0;
+      // Leftovers smaller than the finest turn step would only overshoot
+      if (Math.abs(queued) < fullTurn / 8) {
+        queued = 0;
+        return 0;
+      }
+      const turn = quantizeAxis(clampAxis(queued / fullTurn));
+      queued -= turn * fullTurn;
+      return turn;
+    },
+
+    clear() {
+      queued = 0;
+    },
+  };
+}
+
+export function isHeld(
+  { bindings, heldKeys, gamepad }: ControlSources,
+  action: InputAction,
+): boolean {
+  return (
+    isActionHeld(bindings, heldKeys, action) ||
+    (gamepad?.held.has(action) ?? false)
+  );
+}
+
+// Keys and gamepad together; keys win over a stick pushed the other way
+export function combineInput(
+  sources: ControlSources,
+  tool: ToolId,
+): PlayerInput {
+  const held = (action: InputAction): boolean => isHeld(sources, action);
+  const pad = sources.gamepad;
+  return {
+    moveX: clampAxis(
+      digitalAxis(held("strafeLeft"), held("strafeRight")) || (pad?.moveX ?? 0),
+    ),
+    moveZ: clampAxis(
+      digitalAxis(held("forward"), held("back")) || (pad?.moveZ ?? 0),
+    ),
+    turn: clampAxis(
+      digitalAxis(held("turnRight"), held("turnLeft")) || (pad?.turn ?? 0),
+    ),
+    shooting: held("shoot") || sources.touchShooting,
+    tool,
+  };
+}
+
+// Turn towards the nearest refill station and walk to it once facing it, until standing in it
+export function steerToStation(
+  player: PlayerState,
+  stations: RefillStation[],
+  seconds: number,
+): Pick<PlayerInput, "turn" | "moveZ"> {
+  let nearest: RefillStation | null = null;
+  let nearestDistance = Infinity;
+  for (const station of stations) {
+    const distance = Math.hypot(
+      station.position.x - player.position.x,
+      station.position.z - player.position.z,
+    );
+    if (distance < nearestDistance) {
+      nearest = station;
+      nearestDistance = distance;
+    }
+  }
+  if (!nearest || nearestDistance < nearest.radius / 2) {
+    return { turn: 0, moveZ: 0 };
+  }
+
+  // Players face -z at rotation 0 and +x at a quarter turn
+  const heading = Math.atan2(
+    nearest.position.x - player.position.x,
+    player.position.z - nearest.position.z,
+  );
+  let offset = heading - player.rotation;
+  offset = Math.atan2(Math.sin(offset), Math.cos(offset));
+
+  const fullTurn = TURN_SPEED * seconds;
+  return {
+    turn:
+      Math.abs(offset) < FACING_TOLERANCE || fullTurn <= 0
+        ? 0
+        : quantizeAxis(clampAxis(offset / fullTurn)),
+    moveZ: Math.abs(offset) < WALKING_ANGLE ? -1 : 0,
+  };
+}
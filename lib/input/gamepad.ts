@@ -0,0 +1,78 @@
+import type { InputAction } from "./bindings";
+
+/**
+ * Gamepad support through the Gamepad API, for pads with the standard layout.
+ *
+ * The left stick moves and strafes and the right stick turns, both analog.
+ * Browsers don't send gamepad events for sticks and buttons, so the reader is
+ * polled once per frame and reports buttons pressed since the last poll.
+ */
+
+export interface GamepadReading {
+  // Stick axes from -1 to 1, zero inside the dead zone
+  moveX: number;
+  moveZ: number;
+  turn: number;
+  // Actions whose button is down
+  held: Set<InputAction>;
+  // Actions whose button went down since the previous poll
+  pressed: InputAction[];
+}
+
+export interface GamepadReader {
+  // The first connected pad's state, or null without one
+  poll(): GamepadReading | null;
+}
+
+// Sticks rest slightly off centre; ignore anything smaller than this
+const DEAD_ZONE = 0.2;
+
+// Standard gamepad layout button indices
+const BUTTON_ACTIONS: [number, InputAction][] = [
+  [0, "shoot"], // A / cross
+  [7, "shoot"], // Right trigger
+  [2, "refill"], // X / square
+  [5, "nextTool"], // Right bumper
+  [4, "previousTool"], // Left bumper
+  [9, "pause"], // Start
+];
+
+// Rescale past the dead zone so the stick still reaches every speed from zero to full
+function stickAxis(value: number | undefined): number {
+  if (value === undefined || Math.abs(value) < DEAD_ZONE) return 0;
+  return (Math.sign(value) * (Math.abs(value) - DEAD_ZONE)) / (1 - DEAD_ZONE);
+}
+
+export function createGamepadReader(): GamepadReader {
+  let previouslyHeld = new Set<InputAction>();
+
+  return {
+    poll() {
+      const pads =
+        typeof navigator !== "undefined" && navigator.getGamepads
+          ? navigator.getGamepads()
+          : [];
+      const pad = Array.from(pads).find((candidate) => candidate?.connected);
+      if (!pad) {
+        previouslyHeld = new Set();
+        return null;
+      }
+
+      const held = new Set<InputAction>();
+      for (const [index, action] of BUTTON_ACTIONS) {
+        if (pad.buttons[index]?.pressed) held.add(action);
+      }
+      const pressed = [...held].filter((action) => !previouslyHeld.has(action));
+      previouslyHeld = held;
+
+      return {
+        moveX: stickAxis(pad.axes[0]),
+        moveZ: stickAxis(pad.axes[1]),
+        // Pushing the right stick right turns right, which is a negative turn
+        turn: -stickAxis(pad.axes[2]),
+        held,
+        pressed,
+      };
+    },
+  };
+}
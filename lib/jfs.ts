@@ -0,0 +1,124 @@
+import { createPublicKey, verify } from "crypto";
+
+/**
+ * JSON Farcaster Signatures, as sent by Farcaster clients to the webhook.
+ *
+ * A JFS is three base64url strings: a header naming the fid and the app key
+ * that signed, the payload, and an Ed25519 signature by that key over
+ * `header.payload`. Verifying the signature proves the payload came from the
+ * key; whether the key really belongs to the fid is a separate check against
+ * the Key Registry.
+ */
+
+export interface JfsHeader {
+  fid: number;
+  type: "app_key";
+  // Ed25519 public key as 0x-prefixed hex
+  key: `0x${string}`;
+}
+
+export interface JsonFarcasterSignature {
+  header: string;
+  payload: string;
+  signature: string;
+}
+
+export type JfsResult =
+  | { valid: true; header: JfsHeader; payload: unknown; signature: string }
+  | { valid: false; code: JfsErrorCode; error: string };
+
+export type JfsErrorCode =
+  | "invalid_envelope"
+  | "invalid_header"
+  | "invalid_payload"
+  | "invalid_signature";
+
+const ED25519_KEY_BYTES = 32;
+const ED25519_SIGNATURE_BYTES = 64;
+const BASE64URL = /^[A-Za-z0-9_-]+$/;
+
+function failure(code: JfsErrorCode, error: string): JfsResult {
+  return { valid: false, code, error };
+}
+
+function decodeJson(encoded: string): unknown {
+  return JSON.parse(Buffer.from(encoded, "base64url").toString("utf-8"));
+}
+
+function isJfsHeader(value: unknown): value is JfsHeader {
+  const header = value as JfsHeader;
+  return (
+    typeof header === "object" &&
+    header !== null &&
+    Number.isInteger(header.fid) &&
+    header.fid > 0 &&
+    header.type === "app_key" &&
+    typeof header.key === "string" &&
+    new RegExp(`^0x[0-9a-fA-F]{${ED25519_KEY_BYTES * 2}}$`).test(header.key)
+  );
+}
+
+// Decode a JFS and check its signature; throws nothing, so bad input can't become a 500
+export function verifyJfs(raw: unknown): JfsResult {
+  const jfs = raw as JsonFarcasterSignature;
+  if (
+    typeof jfs !== "object" ||
+    jfs === null ||
+    ![jfs.header, jfs.payload, jfs.signature].every(
+      (part) => typeof part === "string" && BASE64URL.test(part),
+    )
+  ) {
+    return failure(
+      "invalid_envelope",
+      "Expected header, payload and signature as base64url strings",
+    );
+  }
+
+  let header: unknown;
+  try {
+    header = decodeJson(jfs.header);
+  } catch {
+    return failure("invalid_header", "Header is not valid JSON");
+  }
+  if (!isJfsHeader(header)) {
+    return failure(
+      "invalid_header",
+      "Header must have a fid, type app_key and an Ed25519 key",
+    );
+  }
+
+  let payload: unknown;
+  try {
+    payload = decodeJson(jfs.payload);
+  } catch {
+    return failure("invalid_payload", "Payload is not valid JSON");
+  }
+
+  const signature = Buffer.from(jfs.signature, "base64url");
+  if (signature.length !== ED25519_SIGNATURE_BYTES) {
+    return failure("invalid_signature", "Signature has the wrong length");
+  }
+  const signed = Buffer.from(`${jfs.header}.${jfs.payload}`, "utf-8");
+  let matches: boolean;
+  try {
+    const publicKey = createPublicKey({
+      key: {
+        kty: "OKP",
+        crv: "Ed25519",
+        x: Buffer.from(header.key.slice(2), "hex").toString("base64url"),
+      },
+      format: "jwk",
+    });
+    matches = verify(null, signed, publicKey, signature);
+  } catch {
+    matches = false;
+  }
+  if (!matches) {
+    return failure(
+      "invalid_signature",
+      "Signature does not match the header's key",
+    );
+  }
+
+  return { valid: true, header, payload, signature: jfs.signature };
+}
@@ -0,0 +1,80 @@
+import { createPublicClient, http } from "viem";
+import { optimism } from "viem/chains";
+
+/**
+ * Checks that an app key is registered and active for a fid.
+ *
+ * The default reader asks the Key Registry contract on Optimism. Anything
+ * that runs without network, such as tests or local tools, can swap in its
+ * own reader with `setKeyRegistryReader`.
+ */
+
+// Whether the key is an active signing key of the fid
+export type KeyRegistryReader = (
+  fid: number,
+  key: `0x${string}`,
+) => Promise<boolean>;
+
+const KEY_REGISTRY_ADDRESS = "0x00000000Fc1237824fb747aBDE0FF18990E59b7e";
+
+const KEY_REGISTRY_ABI = [
+  {
+    inputs: [
+      { name: "fid", type: "uint256" },
+      { name: "key", type: "bytes" },
+    ],
+    name: "keyDataOf",
+    outputs: [
+      {
+        components: [
+          { name: "state", type: "uint8" },
+          { name: "keyType", type: "uint32" },
+        ],
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+// Key Registry values for an added key and for Ed25519 keys
+const KEY_STATE_ADDED = 1;
+const KEY_TYPE_ED25519 = 1;
+
+export const onchainKeyRegistryReader: KeyRegistryReader = async (fid, key) => {
+  const client = createPublicClient({
+    chain: optimism,
+    transport: http(),
+  });
+
+  try {
+    const result = await client.readContract({
+      address: KEY_REGISTRY_ADDRESS,
+      abi: KEY_REGISTRY_ABI,
+      functionName: "keyDataOf",
+      args: [BigInt(fid), key],
+    });
+
+    return (
+      result.state === KEY_STATE_ADDED && result.keyType === KEY_TYPE_ED25519
+    );
+  } catch (error) {
+    console.error("Key Registry verification failed:", error);
+    return false;
+  }
+};
+
+let reader: KeyRegistryReader = onchainKeyRegistryReader;
+
+export function setKeyRegistryReader(next: KeyRegistryReader): void {
+  reader = next;
+}
+
+export async function isActiveAppKey(
+  fid: number,
+  key: `0x${string}`,
+): Promise<boolean> {
+  return await reader(fid, key);
+}
@@ -0,0 +1,131 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterAll, afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createFileStore,
+  createMemoryStore,
+  storeKey,
+  type KeyValueStore,
+} from "./kv-store";
+
+const directory = mkdtempSync(join(tmpdir(), "kv-store-"));
+let files = 0;
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+afterAll(() => {
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describe.each([
+  ["memory", () => createMemoryStore()],
+  ["file", () => createFileStore(join(directory, `store-${files++}.json`))],
+] as const)("%s store", (_, createStore: () => KeyValueStore) => {
+  it("only sets an existing key without nx", async () => {
+    const store = createStore();
+    expect(await store.set("key", { a: 1 }, { nx: true })).toBe(true);
+    expect(await store.set("key", { a: 2 }, { nx: true })).toBe(false);
+    expect(await store.get("key")).toEqual({ a: 1 });
+    expect(await store.set("key", { a: 3 })).toBe(true);
+    expect(await store.get("key")).toEqual({ a: 3 });
+  });
+
+  it("expires values and collections", async () => {
+    vi.useFakeTimers();
+    const store = createStore();
+    await store.set("value", 1, { ex: 10 });
+    expect(await store.incr("count")).toBe(1);
+    expect(await store.incr("count")).toBe(2);
+    await store.expire("count", 10);
+    await store.zadd("zset", 1, "a");
+    await store.expire("zset", 10);
+    await store.hset("hash", { field: 1 });
+    await store.expire("hash", 20);
+
+    vi.advanceTimersByTime(10_000);
+    expect(await store.get("value")).toBeNull();
+    expect(await store.incr("count")).toBe(1);
+    expect(await store.zscore("zset", "a")).toBeNull();
+    expect(await store.hget("hash", "field")).toBe(1);
+  });
+
+  it("orders sorted sets by score, then member", async () => {
+    const store = createStore();
+    await store.zadd("board", 10, "b");
+    await store.zadd("board", 30, "c");
+    await store.zadd("board", 10, "a");
+    await store.zadd("board", 20, "d");
+
+    expect(await store.zrange("board", 0, -1)).toEqual(["a", "b", "d", "c"]);
+    expect(await store.zrange("board", 0, 1, { rev: true })).toEqual([
+      "c",
+      "d",
+    ]);
+    expect(await store.zrevrank("board", "b")).toBe(2);
+    expect(await store.zrevrank("board", "missing")).toBeNull();
+    expect(await store.zrangebyscore("board", 10, 20)).toEqual(["a", "b", "d"]);
+
+    expect(await store.zadd("board", 5, "a", { gt: true })).toBe(false);
+    expect(await store.zadd("board", 10, "a")).toBe(false);
+    expect(await store.zscore("board", "a")).toBe(10);
+
+    expect(await store.zrem("board", "d")).toBe(true);
+    expect(await store.zrem("board", "d")).toBe(false);
+    // Keep at most ten, which is everything
+    await store.zremrangebyrank("board", 0, -11);
+    expect(await store.zrange("board", 0, -1)).toEqual(["a", "b", "c"]);
+    // Keep the two highest
+    await store.zremrangebyrank("board", 0, -3);
+    expect(await store.zrange("board", 0, -1)).toEqual(["b", "c"]);
+    await store.zremrangebyscore("board", 0, 10);
+    expect(await store.zrange("board", 0, -1)).toEqual(["c"]);
+  });
+
+  it("keeps hashes by field", async () => {
+    const store = createStore();
+    expect(await store.hgetall("hash")).toBeNull();
+    expect(await store.hsetnx("hash", "first", { n: 1 })).toBe(true);
+    expect(await store.hsetnx("hash", "first", { n: 2 })).toBe(false);
+    await store.hset("hash", { second: 2 });
+
+    expect(await store.hmget("hash", ["second", "none", "first"])).toEqual([
+      2,
+      null,
+      { n: 1 },
+    ]);
+    expect(await store.hgetall("hash")).toEqual({ first: { n: 1 }, second: 2 });
+  });
+
+  it("caps lists from the newest end", async () => {
+    const store = createStore();
+    for (const entry of [1, 2, 3, 4]) await store.lpush("log", entry);
+    await store.ltrim("log", 0, 1);
+    await store.lpush("log", 5);
+    await store.ltrim("log", 0, 1);
+    expect(await store.lrange("log", 0, -1)).toEqual([5, 4]);
+  });
+});
+
+describe("file store", () => {
+  it("picks up where the last process left off", async () => {
+    const path = join(directory, "reopened.json");
+    const first = createFileStore(path);
+    await first.set("user", { token: "abc" });
+    await first.zadd("board", 5, "7");
+    await first.hset("hash", { field: "value" });
+
+    const second = createFileStore(path);
+    expect(await second.get("user")).toEqual({ token: "abc" });
+    expect(await second.zscore("board", "7")).toBe(5);
+    expect(await second.hget("hash", "field")).toBe("value");
+  });
+});
+
+describe("storeKey", () => {
+  it("namespaces keys by the app", () => {
+    expect(storeKey("user", 1)).toMatch(/^[^:]+:user:1$/);
+  });
+});
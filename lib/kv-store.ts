@@ -0,0 +1,446 @@
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import type { Redis } from "@upstash/redis";
+import { redis } from "./redis";
+
+/**
+ * Key-value storage for all server state: notification details, scores,
+ * saves, campaigns and the rest. Keys are namespaced per app with `storeKey`.
+ *
+ * Upstash is used when REDIS_URL and REDIS_TOKEN are set. Without them the
+ * store lives in memory, or in a JSON file when KV_STORE=file (the default in
+ * development), so webhooks and notifications keep working offline.
+ * KV_STORE=upstash|memory|file picks one explicitly; tests and local tools can
+ * swap in their own store with `setKeyValueStore`.
+ */
+
+export interface KeyValueStore {
+  get<T>(key: string): Promise<T | null>;
+  // One value per key, null where there is none
+  mget<T>(keys: string[]): Promise<(T | null)[]>;
+  // ex expires the key after that many seconds; with nx an existing key is left alone and false returned
+  set<T>(
+    key: string,
+    value: T,
+    options?: { ex?: number; nx?: boolean },
+  ): Promise<boolean>;
+  del(key: string): Promise<void>;
+  expire(key: string, seconds: number): Promise<void>;
+  // Add one to a counter that starts at zero; the new count
+  incr(key: string): Promise<number>;
+  sadd(key: string, member: string | number): Promise<void>;
+  srem(key: string, member: string | number): Promise<void>;
+  smembers(key: string): Promise<string[]>;
+  // Sorted sets, ordered by score and then by member. zadd is true if the
+  // member was added or its score changed; with gt it never lowers a score
+  zadd(
+    key: string,
+    score: number,
+    member: string,
+    options?: { gt?: boolean },
+  ): Promise<boolean>;
+  zscore(key: string, member: string): Promise<number | null>;
+  // 0-based position counting from the highest score, null for non-members
+  zrevrank(key: string, member: string): Promise<number | null>;
+  // Members at positions start to stop inclusive, negative ones counting from the end; rev starts from the highest score
+  zrange(
+    key: string,
+    start: number,
+    stop: number,
+    options?: { rev?: boolean },
+  ): Promise<string[]>;
+  // Members scored min to max inclusive, lowest first
+  zrangebyscore(key: string, min: number, max: number): Promise<string[]>;
+  // False if the member wasn't there
+  zrem(key: string, member: string): Promise<boolean>;
+  zremrangebyscore(key: string, min: number, max: number): Promise<void>;
+  zremrangebyrank(key: string, start: number, stop: number): Promise<void>;
+  hset(key: string, fields: Record<string, unknown>): Promise<void>;
+  // False if the field was already set
+  hsetnx(key: string, field: string, value: unknown): Promise<boolean>;
+  hget<T>(key: string, field: string): Promise<T | null>;
+  // One value per field, null where there is none
+  hmget<T>(key: string, fields: string[]): Promise<(T | null)[]>;
+  // Every field, or null when the hash doesn't exist
+  hgetall<T>(key: string): Promise<Record<string, T> | null>;
+  lpush(key: string, value: unknown): Promise<void>;
+  // Items at positions start to stop inclusive, negative ones counting from the end
+  lrange<T>(key: string, start: number, stop: number): Promise<T[]>;
+  // Keep positions start to stop inclusive, negative ones counting from the end
+  ltrim(key: string, start: number, stop: number): Promise<void>;
+}
+
+export type KeyValueStoreKind = "upstash" | "memory" | "file";
+
+const DEFAULT_STORE_FILE = ".data/kv.json";
+// How often a memory or file store drops keys that expired without being read again
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+const keyPrefix = process.env.NEXT_PUBLIC_ONCHAINKIT_PROJECT_NAME ?? "minikit";
+
+// A key in the app's namespace, e.g. storeKey("user", fid) is "<app>:user:<fid>"
+export function storeKey(...parts: (string | number)[]): string {
+  return [keyPrefix, ...parts].join(":");
+}
+
+export function createUpstashStore(client: Redis): KeyValueStore {
+  return {
+    get: async (key) => await client.get(key),
+    mget: async <T>(keys: string[]) =>
+      keys.length ? await client.mget<(T | null)[]>(...keys) : [],
+    set: async (key, value, options) => {
+      const { ex, nx } = options ?? {};
+      let result: unknown;
+      if (nx) {
+        result = await client.set(key, value, ex ? { nx, ex } : { nx });
+      } else if (ex) {
+        result = await client.set(key, value, { ex });
+      } else {
+        result = await client.set(key, value);
+      }
+      return result === "OK";
+    },
+    del: async (key) => {
+      await client.del(key);
+    },
+    expire: async (key, seconds) => {
+      await client.expire(key, seconds);
+    },
+    incr: async (key) => await client.incr(key),
+    sadd: async (key, member) => {
+      await client.sadd(key, member);
+    },
+    srem: async (key, member) => {
+      await client.srem(key, member);
+    },
+    smembers: async (key) =>
+      (await client.smembers<unknown[]>(key)).map(String),
+    zadd: async (key, score, member, options) =>
+      (await client.zadd(
+        key,
+        options?.gt ? { gt: true, ch: true } : { ch: true },
+        { score, member },
+      )) === 1,
+    zscore: async (key, member) => await client.zscore(key, member),
+    zrevrank: async (key, member) => await client.zrevrank(key, member),
+    zrange: async (key, start, stop, options) =>
+      (
+        await client.zrange<unknown[]>(key, start, stop, {
+          rev: options?.rev,
+        })
+      ).map(String),
+    zrangebyscore: async (key, min, max) =>
+      (await client.zrange<unknown[]>(key, min, max, { byScore: true })).map(
+        String,
+      ),
+    zrem: async (key, member) => (await client.zrem(key, member)) === 1,
+    zremrangebyscore: async (key, min, max) => {
+      await client.zremrangebyscore(key, min, max);
+    },
+    zremrangebyrank: async (key, start, stop) => {
+      await client.zremrangebyrank(key, start, stop);
+    },
+    hset: async (key, fields) => {
+      await client.hset(key, fields);
+    },
+    hsetnx: async (key, field, value) =>
+      (await client.hsetnx(key, field, value)) === 1,
+    hget: async (key, field) => await client.hget(key, field),
+    hmget: async <T>(key: string, fields: string[]) => {
+      if (!fields.length) return [];
+      const values = await client.hmget<Record<string, T>>(key, ...fields);
+      return fields.map((field) => values?.[field] ?? null);
+    },
+    hgetall: async (key) => await client.hgetall(key),
+    lpush: async (key, value) => {
+      await client.lpush(key, value);
+    },
+    lrange: async (key, start, stop) => await client.lrange(key, start, stop),
+    ltrim: async (key, start, stop) => {
+      await client.ltrim(key, start, stop);
+    },
+  };
+}
+
+// Everything a memory or file store holds, in a shape that survives JSON
+interface StoreData {
+  values: Record<string, { value: unknown; expiresAt?: number }>;
+  sets: Record<string, string[]>;
+  // Member to score
+  zsets: Record<string, Record<string, number>>;
+  hashes: Record<string, Record<string, unknown>>;
+  lists: Record<string, unknown[]>;
+  // When sets, sorted sets, hashes and lists expire; values keep theirs alongside
+  expiries: Record<string, number>;
+}
+
+function emptyStoreData(): StoreData {
+  return {
+    values: {},
+    sets: {},
+    zsets: {},
+    hashes: {},
+    lists: {},
+    expiries: {},
+  };
+}
+
+// Copied through JSON, so later changes to the caller's object aren't stored
+function copy<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+// Items at positions start to stop inclusive, negative ones counting from the end, as Redis ranges work
+function range<T>(items: T[], start: number, stop: number): T[] {
+  const from = start < 0 ? Math.max(0, items.length + start) : start;
+  const to = stop < 0 ? items.length + stop : stop;
+  return to < from ? [] : items.slice(from, to + 1);
+}
+
+// A store over plain data; onChange runs after every write
+function createDataStore(
+  data: StoreData,
+  onChange: () => void = () => {},
+): KeyValueStore {
+  let sweptAt = 0;
+
+  const remove = (key: string): void => {
+    delete data.values[key];
+    delete data.sets[key];
+    delete data.zsets[key];
+    delete data.hashes[key];
+    delete data.lists[key];
+    delete data.expiries[key];
+  };
+
+  // Drop the key once it has expired; every operation checks first
+  const live = (key: string): string => {
+    const expiresAt = data.values[key]?.expiresAt ?? data.expiries[key];
+    if (expiresAt !== undefined && expiresAt <= Date.now()) remove(key);
+    return key;
+  };
+
+  const changed = (): void => {
+    // Keys that are never read again, like old rate limit windows, would otherwise pile up
+    if (Date.now() - sweptAt >= SWEEP_INTERVAL_MS) {
+      sweptAt = Date.now();
+      for (const key of Object.keys(data.values)) live(key);
+      for (const key of Object.keys(data.expiries)) live(key);
+    }
+    onChange();
+  };
+
+  const read = <T>(key: string): T | null =>
+    (data.values[live(key)]?.value as T | undefined) ?? null;
+
+  // Members from the lowest score to the highest, ties by member
+  const sorted = (key: string): string[] =>
+    Object.entries(data.zsets[live(key)] ?? {})
+      .sort(([a, x], [b, y]) => x - y || (a < b ? -1 : a > b ? 1 : 0))
+      .map(([member]) => member);
+
+  const zremove = (key: string, members: string[]): void => {
+    const zset = data.zsets[key];
+    if (!zset) return;
+    members.forEach((member) => delete zset[member]);
+    if (!Object.keys(zset).length) delete data.zsets[key];
+  };
+
+  return {
+    get: async (key) => read(key),
+    mget: async (keys) => keys.map((key) => read(key)),
+    set: async (key, value, options) => {
+      if (options?.nx && read(key) !== null) return false;
+      remove(key);
+      data.values[key] = {
+        value: copy(value),
+        expiresAt: options?.ex ? Date.now() + options.ex * 1000 : undefined,
+      };
+      changed();
+      return true;
+    },
+    del: async (key) => {
+      remove(key);
+      changed();
+    },
+    expire: async (key, seconds) => {
+      const expiresAt = Date.now() + seconds * 1000;
+      if (data.values[live(key)]) {
+        data.values[key].expiresAt = expiresAt;
+      } else if (
+        data.sets[key] ||
+        data.zsets[key] ||
+        data.hashes[key] ||
+        data.lists[key]
+      ) {
+        data.expiries[key] = expiresAt;
+      }
+      changed();
+    },
+    incr: async (key) => {
+      const entry = data.values[live(key)];
+      const count = Number(entry?.value ?? 0) + 1;
+      data.values[key] = { value: count, expiresAt: entry?.expiresAt };
+      changed();
+      return count;
+    },
+    sadd: async (key, member) => {
+      const members = new Set(data.sets[live(key)]).add(String(member));
+      data.sets[key] = [...members];
+      changed();
+    },
+    srem: async (key, member) => {
+      data.sets[key] = (data.sets[live(key)] ?? []).filter(
+        (existing) => existing !== String(member),
+      );
+      if (!data.sets[key].length) delete data.sets[key];
+      changed();
+    },
+    smembers: async (key) => [...(data.sets[live(key)] ?? [])],
+    zadd: async (key, score, member, options) => {
+      const current = data.zsets[live(key)]?.[member];
+      if (current === score) return false;
+      if (options?.gt && current !== undefined && score < current) {
+        return false;
+      }
+      data.zsets[key] = { ...data.zsets[key], [member]: score };
+      changed();
+      return true;
+    },
+    zscore: async (key, member) => data.zsets[live(key)]?.[member] ?? null,
+    zrevrank: async (key, member) => {
+      const index = sorted(key).reverse().indexOf(member);
+      return index === -1 ? null : index;
+    },
+    zrange: async (key, start, stop, options) => {
+      const members = sorted(key);
+      return range(options?.rev ? members.reverse() : members, start, stop);
+    },
+    zrangebyscore: async (key, min, max) =>
+      sorted(key).filter((member) => {
+        const score = data.zsets[key][member];
+        return score >= min && score <= max;
+      }),
+    zrem: async (key, member) => {
+      if (data.zsets[live(key)]?.[member] === undefined) return false;
+      zremove(key, [member]);
+      changed();
+      return true;
+    },
+    zremrangebyscore: async (key, min, max) => {
+      const scores = data.zsets[live(key)] ?? {};
+      zremove(
+        key,
+        Object.keys(scores).filter(
+          (member) => scores[member] >= min && scores[member] <= max,
+        ),
+      );
+      changed();
+    },
+    zremrangebyrank: async (key, start, stop) => {
+      zremove(key, range(sorted(key), start, stop));
+      changed();
+    },
+    hset: async (key, fields) => {
+      data.hashes[live(key)] = { ...data.hashes[key], ...copy(fields) };
+      changed();
+    },
+    hsetnx: async (key, field, value) => {
+      const hash = data.hashes[live(key)] ?? {};
+      if (field in hash) return false;
+      data.hashes[key] = { ...hash, [field]: copy(value) };
+      changed();
+      return true;
+    },
+    hget: async <T>(key: string, field: string) =>
+      (data.hashes[live(key)]?.[field] as T | undefined) ?? null,
+    hmget: async <T>(key: string, fields: string[]) =>
+      fields.map(
+        (field) => (data.hashes[live(key)]?.[field] as T | undefined) ?? null,
+      ),
+    hgetall: async <T>(key: string) =>
+      (data.hashes[live(key)] as Record<string, T> | undefined) ?? null,
+    lpush: async (key, value) => {
+      data.lists[live(key)] = [copy(value), ...(data.lists[key] ?? [])];
+      changed();
+    },
+    lrange: async <T>(key: string, start: number, stop: number) =>
+      range(data.lists[live(key)] ?? [], start, stop) as T[],
+    ltrim: async (key, start, stop) => {
+      const list = range(data.lists[live(key)] ?? [], start, stop);
+      if (list.length) {
+        data.lists[key] = list;
+      } else {
+        remove(key);
+      }
+      changed();
+    },
+  };
+}
+
+export function createMemoryStore(): KeyValueStore {
+  return createDataStore(emptyStoreData());
+}
+
+// A store kept in a JSON file, rewritten after every change; for one local process only
+export function createFileStore(path: string): KeyValueStore {
+  let data = emptyStoreData();
+  try {
+    // Files written before a kind of key existed lack its section
+    data = { ...data, ...JSON.parse(readFileSync(path, "utf-8")) };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.warn(`Could not read ${path}, starting with an empty store`);
+    }
+  }
+
+  return createDataStore(data, () => {
+    mkdirSync(dirname(path), { recursive: true });
+    // Write then rename, so a crash mid-write can't leave half a file
+    writeFileSync(`${path}.tmp`, JSON.stringify(data));
+    renameSync(`${path}.tmp`, path);
+  });
+}
+
+function defaultStoreKind(): KeyValueStoreKind {
+  const configured = process.env.KV_STORE;
+  if (
+    configured === "upstash" ||
+    configured === "memory" ||
+    configured === "file"
+  ) {
+    return configured;
+  }
+  if (configured) {
+    console.warn(
+      `Unknown KV_STORE ${configured}, expected upstash, memory or file`,
+    );
+  }
+  if (redis) return "upstash";
+  return process.env.NODE_ENV === "development" ? "file" : "memory";
+}
+
+function createDefaultStore(): KeyValueStore {
+  const kind = defaultStoreKind();
+  if (kind === "upstash") {
+    if (redis) return createUpstashStore(redis);
+    console.warn(
+      "KV_STORE=upstash needs REDIS_URL and REDIS_TOKEN, using memory",
+    );
+  }
+  if (kind === "file") {
+    return createFileStore(process.env.KV_STORE_FILE || DEFAULT_STORE_FILE);
+  }
+  return createMemoryStore();
+}
+
+let store: KeyValueStore | null = null;
+
+export function getKeyValueStore(): KeyValueStore {
+  store ??= createDefaultStore();
+  return store;
+}
+
+export function setKeyValueStore(next: KeyValueStore): void {
+  store = next;
+}
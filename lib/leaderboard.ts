@@ -0,0 +1,243 @@
+import { utcDay } from "@/lib/game/daily";
+import { isInputLog, type InputLog } from "@/lib/game/input-log";
+import { FREE_PLAY_LEVEL_ID, getLevel } from "@/lib/game/levels";
+import { normalizeSeed } from "@/lib/game/seed";
+import { getKeyValueStore, storeKey } from "./kv-store";
+
+/**
+ * Score leaderboards.
+ *
+ * Campaign levels share one board per level; free play forests get a board
+ * per seed. Each board exists once per day, once per ISO week and once for
+ * all time, and keeps only a player's best run.
+ */
+
+export const LEADERBOARD_PERIODS = ["daily", "weekly", "all-time"] as const;
+
+export type LeaderboardPeriod = (typeof LEADERBOARD_PERIODS)[number];
+
+export type LeaderboardScope =
+  | { kind: "level"; levelId: string }
+  | { kind: "seed"; seed: string };
+
+export interface ScoreSubmission {
+  fid: number;
+  username?: string;
+  levelId: string;
+  seed: string;
+  points: number;
+  stars: number;
+  timeElapsed: number;
+  treesSavedPercent: number;
+  // Played with one-touch fire rules
+  hardcore: boolean;
+  submittedAt: number;
+}
+
+export interface LeaderboardEntry extends ScoreSubmission {
+  // 1-based position on the board
+  rank: number;
+}
+
+// A submission as posted by the client, with the inputs needed to verify it
+export interface ScoreClaim {
+  submission: ScoreSubmission;
+  inputs: InputLog;
+}
+
+export type LeaderboardRanks = Record<LeaderboardPeriod, number | null>;
+
+// Expire finished daily and weekly boards a while after they close
+const PERIOD_TTL_SECONDS: Record<LeaderboardPeriod, number | null> = {
+  daily: 3 * 24 * 60 * 60,
+  weekly: 15 * 24 * 60 * 60,
+  "all-time": null,
+};
+
+export const MAX_LEADERBOARD_LIMIT = 50;
+
+export function isLeaderboardPeriod(
+  value: unknown,
+): value is LeaderboardPeriod {
+  return LEADERBOARD_PERIODS.includes(value as LeaderboardPeriod);
+}
+
+// Campaign runs share their level's board; free play runs are ranked per forest
+export function scopeForRun(levelId: string, seed: string): LeaderboardScope {
+  return levelId === FREE_PLAY_LEVEL_ID
+    ? { kind: "seed", seed }
+    : { kind: "level", levelId };
+}
+
+// UTC day, or the ISO week the day falls in
+function periodId(period: LeaderboardPeriod, date: Date): string {
+  if (period === "all-time") return "all";
+  if (period === "daily") return utcDay(date);
+
+  const day = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+  // Thursday of the same week decides which year the week belongs to
+  day.setUTCDate(day.getUTCDate() + 3 - ((day.getUTCDay() + 6) % 7));
+  const yearStart = Date.UTC(day.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((day.getTime() - yearStart) / 86400000 + 1) / 7);
+  return `${day.getUTCFullYear()}-W${String(week).padStart(2, "0")}`;
+}
+
+function getBoardKey(
+  scope: LeaderboardScope,
+  period: LeaderboardPeriod,
+  date: Date,
+): string {
+  const scopeId =
+    scope.kind === "level" ? `level:${scope.levelId}` : `seed:${scope.seed}`;
+  return storeKey("leaderboard", scopeId, period, periodId(period, date));
+}
+
+function getEntriesKey(boardKey: string): string {
+  return `${boardKey}:entries`;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+// Validate an untrusted submission body for the authenticated fid; throws with a message suitable for a 400 response
+export function parseScoreClaim(raw: unknown, fid: number): ScoreClaim {
+  if (typeof raw !== "object" || raw === null) {
+    throw new Error("Invalid score submission: expected an object");
+  }
+  const body = raw as Record<string, unknown>;
+
+  if (body.fid !== undefined && body.fid !== fid) {
+    throw new Error(
+      "Invalid score submission: fid is not the signed-in player",
+    );
+  }
+  const level = getLevel(
+    typeof body.levelId === "string" ? body.levelId : null,
+  );
+  if (!level) {
+    throw new Error("Invalid score submission: unknown level");
+  }
+  const seed = normalizeSeed(typeof body.seed === "string" ? body.seed : null);
+  if (!seed || (level.seed && seed !== level.seed)) {
+    throw new Error("Invalid score submission: seed does not match the level");
+  }
+  for (const field of [
+    "points",
+    "stars",
+    "timeElapsed",
+    "treesSavedPercent",
+  ] as const) {
+    if (!isFiniteNumber(body[field]) || (body[field] as number) < 0) {
+      throw new Error(`Invalid score submission: ${field} must be a number`);
+    }
+  }
+  if (body.hardcore !== undefined && typeof body.hardcore !== "boolean") {
+    throw new Error("Invalid score submission: hardcore must be a boolean");
+  }
+  if (body.username !== undefined && typeof body.username !== "string") {
+    throw new Error("Invalid score submission: username must be a string");
+  }
+  if (!isInputLog(body.inputs)) {
+    throw new Error("Invalid score submission: inputs must be an input log");
+  }
+
+  const submission: ScoreSubmission = {
+    fid,
+    username: (body.username as string | undefined)?.slice(0, 64),
+    levelId: level.id,
+    seed,
+    points: Math.round(body.points as number),
+    stars: Math.min(3, Math.round(body.stars as number)),
+    timeElapsed: body.timeElapsed as number,
+    treesSavedPercent: Math.min(100, body.treesSavedPercent as number),
+    hardcore: body.hardcore === true,
+    submittedAt: Date.now(),
+  };
+  return { submission, inputs: body.inputs };
+}
+
+async function submitToBoard(
+  boardKey: string,
+  period: LeaderboardPeriod,
+  submission: ScoreSubmission,
+): Promise<number | null> {
+  const store = getKeyValueStore();
+  const member = String(submission.fid);
+
+  const best = await store.zscore(boardKey, member);
+  if (best === null || submission.points > best) {
+    await store.zadd(boardKey, submission.points, member);
+    await store.hset(getEntriesKey(boardKey), { [member]: submission });
+
+    const ttl = PERIOD_TTL_SECONDS[period];
+    if (ttl !== null) {
+      await store.expire(boardKey, ttl);
+      await store.expire(getEntriesKey(boardKey), ttl);
+    }
+  }
+
+  const rank = await store.zrevrank(boardKey, member);
+  return rank === null ? null : rank + 1;
+}
+
+// Record a run on every period's board and return the player's rank on each
+export async function submitScore(
+  submission: ScoreSubmission,
+  date: Date = new Date(),
+): Promise<LeaderboardRanks> {
+  const scope = scopeForRun(submission.levelId, submission.seed);
+  const ranks = {} as LeaderboardRanks;
+
+  for (const period of LEADERBOARD_PERIODS) {
+    ranks[period] = await submitToBoard(
+      getBoardKey(scope, period, date),
+      period,
+      submission,
+    );
+  }
+
+  return ranks;
+}
+
+export async function getLeaderboard(
+  scope: LeaderboardScope,
+  period: LeaderboardPeriod,
+  limit: number,
+  date: Date = new Date(),
+): Promise<LeaderboardEntry[]> {
+  const store = getKeyValueStore();
+  const boardKey = getBoardKey(scope, period, date);
+
+  const members = await store.zrange(boardKey, 0, limit - 1, { rev: true });
+  const entries = await store.hmget<ScoreSubmission>(
+    getEntriesKey(boardKey),
+    members,
+  );
+  return members.flatMap((_, index) => {
+    const entry = entries[index];
+    return entry ? [{ ...entry, rank: index + 1 }] : [];
+  });
+}
+
+// A single player's standing, whether or not it made the top of the board
+export async function getLeaderboardEntry(
+  scope: LeaderboardScope,
+  period: LeaderboardPeriod,
+  fid: number,
+  date: Date = new Date(),
+): Promise<LeaderboardEntry | null> {
+  const store = getKeyValueStore();
+  const boardKey = getBoardKey(scope, period, date);
+
+  const member = String(fid);
+  const rank = await store.zrevrank(boardKey, member);
+  if (rank === null) return null;
+  const entry = await store.hget<ScoreSubmission>(
+    getEntriesKey(boardKey),
+    member,
+  );
+  return entry ? { ...entry, rank: rank + 1 } : null;
+}
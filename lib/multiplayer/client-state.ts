@@ -0,0 +1,75 @@
+import type { SimulationState } from "@/lib/game/engine";
+import type { FireMap } from "@/lib/game/types";
+import type { PlayerSnapshot, RoomSnapshot } from "./protocol";
+
+/**
+ * Rebuild a viewable world from a room snapshot.
+ *
+ * Clients never simulate co-op rounds themselves. They keep the untouched
+ * world for the room's level and seed and lay each snapshot over it, so the
+ * renderers and HUD can treat a co-op round like a solo one.
+ */
+
+export interface CoopView {
+  state: SimulationState;
+  // Everyone in the round except the local player
+  teammates: PlayerSnapshot[];
+  // Whether the local player's hose is running, as the room saw it
+  spraying: boolean;
+}
+
+export function applyRoomSnapshot(
+  base: SimulationState,
+  snapshot: RoomSnapshot,
+  playerId: string,
+): CoopView {
+  const fires: FireMap = new Map();
+  for (const [key, x, z, intensity] of snapshot.fires) {
+    fires.set(key, { x, z, intensity, spreadTime: 0 });
+  }
+
+  const embers = snapshot.embers.map(([x, z, age, flightTime]) => ({
+    x,
+    z,
+    vx: 0,
+    vz: 0,
+    age,
+    flightTime,
+  }));
+
+  const fuel = new Map(base.fuel);
+  for (const [key, type, load, burnt] of snapshot.fuel) {
+    if (fuel.has(key)) fuel.set(key, { type, load, burnt });
+  }
+
+  const self = snapshot.players.find((player) => player.id === playerId);
+  const player = self
+    ? {
+        ...base.player,
+        position: self.position,
+        rotation: self.rotation,
+        waterLevel: self.waterLevel,
+        health: self.health,
+        equipment: self.equipment,
+      }
+    : base.player;
+
+  return {
+    state: {
+      ...base,
+      player,
+      fires,
+      embers,
+      fuel,
+      tick: snapshot.tick,
+      timeElapsed: snapshot.timeElapsed,
+      gameStatus: snapshot.gameStatus,
+      endReason: snapshot.endReason,
+      score: snapshot.score,
+      windDirection: snapshot.windDirection,
+      windSpeed: snapshot.windSpeed,
+    },
+    teammates: snapshot.players.filter((player) => player.id !== playerId),
+    spraying: self?.spraying ?? false,
+  };
+}
@@ -0,0 +1,122 @@
+import type { LevelDefinition } from "@/lib/game/levels";
+import type { ClientMessage, ServerMessage } from "./protocol";
+import { createGameRoom, type GameRoom } from "./room";
+
+/**
+ * Client side of a co-op room.
+ *
+ * `connectWebSocket` talks to the multiplayer server; `connectLocalRoom`
+ * hosts the room in the same process, which is enough for trying co-op
+ * without a server and for exercising rooms in tests.
+ */
+
+export interface RoomConnection {
+  send(message: ClientMessage): void;
+  close(): void;
+}
+
+export interface ConnectionHandlers {
+  onMessage(message: ServerMessage): void;
+  onClose?(): void;
+}
+
+// Rooms live at /rooms/<id>; the first player to connect picks the level and seed
+export function roomUrl(
+  serverUrl: string,
+  roomId: string,
+  levelId: string,
+  seed: string,
+): string {
+  const url = new URL(
+    `rooms/${encodeURIComponent(roomId)}`,
+    `${serverUrl.replace(/\/$/, "")}/`,
+  );
+  url.searchParams.set("level", levelId);
+  url.searchParams.set("seed", seed);
+  return url.toString();
+}
+
+export function connectWebSocket(
+  url: string,
+  { onMessage, onClose }: ConnectionHandlers,
+): RoomConnection {
+  const socket = new WebSocket(url);
+  // Messages sent before the socket opens go out as soon as it does
+  const pending: string[] = [];
+
+  socket.addEventListener("open", () => {
+    pending.splice(0).forEach((message) => socket.send(message));
+  });
+  socket.addEventListener("message", (event) => {
+    onMessage(JSON.parse(String(event.data)) as ServerMessage);
+  });
+  socket.addEventListener("close", () => onClose?.());
+
+  return {
+    send(message) {
+      const data = JSON.stringify(message);
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(data);
+      } else {
+        pending.push(data);
+      }
+    },
+    close() {
+      socket.close();
+    },
+  };
+}
+
+// Deliver messages asynchronously, like a socket would, so callers can't rely on re-entrancy
+export function connectLocalRoom(
+  room: GameRoom,
+  { onMessage, onClose }: ConnectionHandlers,
+): RoomConnection {
+  let open = true;
+  const session = room.connect({
+    send(message) {
+      // Round-trip through JSON so nothing is shared with the room's own state
+      const copy = JSON.parse(JSON.stringify(message)) as ServerMessage;
+      queueMicrotask(() => {
+        if (open) onMessage(copy);
+      });
+    },
+  });
+
+  return {
+    send(message) {
+      queueMicrotask(() => {
+        if (open) session.receive(message);
+      });
+    },
+    close() {
+      if (!open) return;
+      open = false;
+      session.disconnect();
+      onClose?.();
+    },
+  };
+}
+
+const localRooms = new Map<string, GameRoom>();
+
+// The in-process room for an id, created on first use and dropped once empty
+export function getLocalRoom(
+  roomId: string,
+  level: LevelDefinition,
+  seed: string,
+): GameRoom {
+  for (const [id, room] of localRooms) {
+    if (room.playerCount === 0 && room.phase !== "lobby") {
+      room.dispose();
+      localRooms.delete(id);
+    }
+  }
+
+  let room = localRooms.get(roomId);
+  if (!room) {
+    room = createGameRoom(roomId, level, seed);
+    localRooms.set(roomId, room);
+  }
+  return room;
+}
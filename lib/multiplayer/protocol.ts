@@ -0,0 +1,106 @@
+import type { EquipmentState, ToolId } from "@/lib/game/equipment";
+import type { FuelType } from "@/lib/game/fuel";
+import { isInputMask } from "@/lib/game/input-log";
+import type { EndReason } from "@/lib/game/round";
+import type { RoundScore } from "@/lib/game/scoring";
+import type { GameStatus, Vector3 } from "@/lib/game/types";
+
+/**
+ * Messages between co-op clients and the room that runs their round.
+ *
+ * Everything is plain JSON so the same messages travel over a WebSocket or
+ * straight through the in-process stand-in.
+ */
+
+export type ClientMessage =
+  | { type: "join"; name: string }
+  | { type: "start" }
+  // Input bit mask as produced by encodeInput
+  | { type: "input"; input: number };
+
+export interface LobbyPlayer {
+  id: string;
+  name: string;
+}
+
+export interface PlayerSnapshot extends LobbyPlayer {
+  position: Vector3;
+  rotation: number;
+  waterLevel: number;
+  health: number;
+  equipment: EquipmentState;
+  tool: ToolId;
+  spraying: boolean;
+  caught: boolean;
+}
+
+export interface RoomSnapshot {
+  tick: number;
+  timeElapsed: number;
+  gameStatus: GameStatus;
+  endReason: EndReason | null;
+  score: RoundScore | null;
+  windDirection: Vector3;
+  windSpeed: number;
+  players: PlayerSnapshot[];
+  // [cell key, x, z, intensity]
+  fires: [string, number, number, number][];
+  // [x, z, age, flight time]; enough to draw them, the room does the landing
+  embers: [number, number, number, number][];
+  // Only cells that have burned or been dug out: [cell key, fuel type, remaining load, burnt]
+  fuel: [string, FuelType, number, boolean][];
+}
+
+export type RoomPhase = "lobby" | "playing" | "ended";
+
+export type ServerMessage =
+  | {
+      type: "welcome";
+      roomId: string;
+      playerId: string;
+      levelId: string;
+      seed: string;
+    }
+  | {
+      type: "lobby";
+      phase: RoomPhase;
+      hostId: string | null;
+      players: LobbyPlayer[];
+    }
+  | { type: "snapshot"; snapshot: RoomSnapshot }
+  | { type: "error"; message: string };
+
+const MAX_NAME_LENGTH = 24;
+
+// Validate an untrusted message from a client; throws on anything malformed
+export function parseClientMessage(raw: string): ClientMessage {
+  let message: Record<string, unknown>;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    throw new Error("Invalid message: not JSON");
+  }
+  if (typeof message !== "object" || message === null) {
+    throw new Error("Invalid message: expected an object");
+  }
+
+  switch (message.type) {
+    case "join":
+      if (typeof message.name !== "string") {
+        throw new Error("Invalid message: join needs a name");
+      }
+      return {
+        type: "join",
+        name: message.name.trim().slice(0, MAX_NAME_LENGTH) || "Firefighter",
+      };
+    case "start":
+      return { type: "start" };
+    case "input":
+      if (!isInputMask(message.input)) {
+        throw new Error("Invalid message: input must be an input mask");
+      }
+      return { type: "input", input: message.input };
+    default:
+      throw new Error(`Invalid message: unknown type ${String(message.type)}`);
+  }
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { CAMPAIGN_LEVELS } from "@/lib/game/levels";
+import type { RoomSnapshot, ServerMessage } from "./protocol";
+import { createGameRoom } from "./room";
+
+// Two clients join a room with a manual clock; p1 sprays forward, p2 turns
+function playRoom(ticks: number): RoomSnapshot[][] {
+  const level = CAMPAIGN_LEVELS[0];
+  const room = createGameRoom("test", level, level.seed, { autoTick: false });
+  const received: RoomSnapshot[][] = [[], []];
+  const sessions = received.map((snapshots) =>
+    room.connect({
+      send(message: ServerMessage) {
+        if (message.type === "snapshot") snapshots.push(message.snapshot);
+      },
+    }),
+  );
+  sessions.forEach((session, index) =>
+    session.receive({ type: "join", name: `Player ${index + 1}` }),
+  );
+  sessions[0].receive({ type: "start" });
+
+  for (let tick = 0; tick < ticks; tick++) {
+    sessions[0].receive({ type: "input", input: tick < 40 ? 65 : 0 });
+    sessions[1].receive({ type: "input", input: 16 });
+    room.step();
+  }
+  room.dispose();
+  return received;
+}
+
+describe("game room", () => {
+  it("sends every client the same snapshots", () => {
+    const [first, second] = playRoom(60);
+    expect(first.length).toBeGreaterThan(1);
+    expect(second).toEqual(first);
+  });
+
+  it("plays out the same for the same input stream", () => {
+    expect(playRoom(90)).toEqual(playRoom(90));
+  });
+});
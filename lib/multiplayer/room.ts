@@ -0,0 +1,246 @@
+import { SIM_TIMESTEP } from "@/lib/game/constants";
+import {
+  createCoopSimulation,
+  MAX_COOP_PLAYERS,
+  stepCoopSimulation,
+  type CoopState,
+} from "@/lib/game/coop";
+import type { FuelMap } from "@/lib/game/fuel";
+import { isToolSpraying } from "@/lib/game/equipment";
+import { decodeInput } from "@/lib/game/input-log";
+import type { LevelDefinition } from "@/lib/game/levels";
+import { IDLE_INPUT, type PlayerInput } from "@/lib/game/player";
+import type {
+  ClientMessage,
+  LobbyPlayer,
+  RoomPhase,
+  RoomSnapshot,
+  ServerMessage,
+} from "./protocol";
+
+/**
+ * Server-authoritative co-op room.
+ *
+ * The room owns the only copy of the simulation: clients send inputs and get
+ * snapshots back. It knows nothing about sockets, so the WebSocket server and
+ * the in-process stand-in drive it the same way.
+ */
+
+// Broadcast a snapshot every this many ticks (15 per second)
+export const SNAPSHOT_INTERVAL_TICKS = 2;
+
+export interface RoomClient {
+  send(message: ServerMessage): void;
+}
+
+// One connection's view of the room
+export interface RoomSession {
+  receive(message: ClientMessage): void;
+  disconnect(): void;
+}
+
+export interface GameRoom {
+  readonly id: string;
+  readonly level: LevelDefinition;
+  readonly seed: string;
+  readonly phase: RoomPhase;
+  readonly playerCount: number;
+  connect(client: RoomClient): RoomSession;
+  // Advance the round by one tick; called by the room's own timer unless autoTick is off
+  step(): void;
+  dispose(): void;
+}
+
+interface Member extends LobbyPlayer {
+  client: RoomClient;
+  input: PlayerInput;
+}
+
+export function createGameRoom(
+  id: string,
+  level: LevelDefinition,
+  seed: string,
+  { autoTick = true }: { autoTick?: boolean } = {},
+): GameRoom {
+  const members = new Map<string, Member>();
+  let nextPlayerNumber = 1;
+  let hostId: string | null = null;
+  let phase: RoomPhase = "lobby";
+  let state: CoopState | null = null;
+  // Fuel at the start of the round; cells are replaced rather than mutated, so changed ones differ by reference
+  let initialFuel: FuelMap = new Map();
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const broadcast = (message: ServerMessage): void => {
+    for (const member of members.values()) member.client.send(message);
+  };
+
+  const broadcastLobby = (): void => {
+    broadcast({
+      type: "lobby",
+      phase,
+      hostId,
+      players: [...members.values()].map(({ id, name }) => ({ id, name })),
+    });
+  };
+
+  const snapshot = (current: CoopState): RoomSnapshot => {
+    const fuel: RoomSnapshot["fuel"] = [];
+    for (const [key, cell] of current.fuel) {
+      if (cell !== initialFuel.get(key)) {
+        fuel.push([key, cell.type, cell.load, cell.burnt]);
+      }
+    }
+
+    return {
+      tick: current.tick,
+      timeElapsed: current.timeElapsed,
+      gameStatus: current.gameStatus,
+      endReason: current.endReason,
+      score: current.score,
+      windDirection: current.windDirection,
+      windSpeed: current.windSpeed,
+      players: current.players.map((player) => ({
+        id: player.id,
+        name: player.name,
+        position: player.state.position,
+        rotation: player.state.rotation,
+        waterLevel: player.state.waterLevel,
+        health: player.state.health,
+        equipment: player.state.equipment,
+        tool: player.input.tool,
+        spraying: isToolSpraying(
+          player.state,
+          player.input,
+          current.refillStations,
+        ),
+        caught: player.caught,
+      })),
+      fires: [...current.fires].map(([key, fire]) => [
+        key,
+        fire.x,
+        fire.z,
+        fire.intensity,
+      ]),
+      embers: current.embers.map((ember) => [
+        ember.x,
+        ember.z,
+        ember.age,
+        ember.flightTime,
+      ]),
+      fuel,
+    };
+  };
+
+  const stopTimer = (): void => {
+    if (timer) clearInterval(timer);
+    timer = null;
+  };
+
+  const step = (): void => {
+    if (phase !== "playing" || !state) return;
+
+    const inputs: Record<string, PlayerInput> = {};
+    for (const member of members.values()) inputs[member.id] = member.input;
+    state = stepCoopSimulation(state, inputs);
+
+    const ended = state.gameStatus !== "playing";
+    if (ended || state.tick % SNAPSHOT_INTERVAL_TICKS === 0) {
+      broadcast({ type: "snapshot", snapshot: snapshot(state) });
+    }
+    if (ended) {
+      phase = "ended";
+      stopTimer();
+      broadcastLobby();
+    }
+  };
+
+  const start = (): void => {
+    state = createCoopSimulation(level, seed, [...members.values()]);
+    initialFuel = state.fuel;
+    for (const member of members.values()) member.input = IDLE_INPUT;
+    phase = "playing";
+    broadcastLobby();
+    broadcast({ type: "snapshot", snapshot: snapshot(state) });
+    if (autoTick) timer = setInterval(step, SIM_TIMESTEP * 1000);
+  };
+
+  const connect = (client: RoomClient): RoomSession => {
+    let member: Member | null = null;
+    const fail = (message: string) => client.send({ type: "error", message });
+
+    return {
+      receive(message) {
+        if (message.type === "join") {
+          if (member) return fail("Already joined");
+          if (phase === "playing") return fail("This round is under way");
+          if (members.size >= MAX_COOP_PLAYERS) return fail("Room is full");
+
+          member = {
+            id: `p${nextPlayerNumber++}`,
+            name: message.name,
+            client,
+            input: IDLE_INPUT,
+          };
+          members.set(member.id, member);
+          hostId ??= member.id;
+          client.send({
+            type: "welcome",
+            roomId: id,
+            playerId: member.id,
+            levelId: level.id,
+            seed,
+          });
+          broadcastLobby();
+          return;
+        }
+
+        if (!member) return fail("Join the room first");
+        if (message.type === "start") {
+          if (member.id !== hostId) return fail("Only the host can start");
+          if (phase === "playing") return fail("Already playing");
+          start();
+        } else if (message.type === "input") {
+          member.input = decodeInput(message.input);
+        }
+      },
+
+      disconnect() {
+        if (!member) return;
+        members.delete(member.id);
+        const leftId = member.id;
+        member = null;
+
+        // Whoever drops out mid-round is out of the round too
+        if (state && phase === "playing") {
+          state = {
+            ...state,
+            players: state.players.map((player) =>
+              player.id === leftId
+                ? { ...player, caught: true, input: IDLE_INPUT }
+                : player,
+            ),
+          };
+        }
+        if (hostId === leftId) hostId = members.keys().next().value ?? null;
+        if (!members.size) stopTimer();
+        broadcastLobby();
+      },
+    };
+  };
+
+  return {
+    id,
+    level,
+    seed,
+    get phase() {
+      return phase;
+    },
+    get playerCount() {
+      return members.size;
+    },
+    connect,
+    step,
+    dispose: stopTimer,
+  };
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { utcDay } from "@/lib/game/daily";
+import type { LeaderboardEntry } from "./leaderboard";
+import { getCampaign, scheduleRecordBeaten } from "./notification-campaigns";
+
+function leaderOf(fid: number): LeaderboardEntry {
+  return {
+    fid,
+    levelId: "first-sparks",
+    seed: "first-sparks",
+    points: 900,
+    stars: 3,
+    timeElapsed: 80,
+    treesSavedPercent: 100,
+    hardcore: false,
+    submittedAt: 0,
+    rank: 1,
+  };
+}
+
+const scope = { kind: "level", levelId: "first-sparks" } as const;
+
+describe("scheduleRecordBeaten", () => {
+  it("tells the previous leader once per board per day", async () => {
+    const leader = leaderOf(101);
+    expect(
+      await scheduleRecordBeaten({ scope, leader, submitterFid: 202 }),
+    ).toBe(true);
+    expect(
+      await scheduleRecordBeaten({ scope, leader, submitterFid: 303 }),
+    ).toBe(false);
+
+    const campaign = await getCampaign(
+      `record-beaten:first-sparks:101:${utcDay()}`,
+    );
+    expect(campaign?.audience).toEqual({ kind: "fids", fids: [101] });
+  });
+
+  it("never notifies players who beat their own record", async () => {
+    const leader = leaderOf(404);
+    expect(
+      await scheduleRecordBeaten({ scope, leader, submitterFid: 404 }),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,288 @@
+import { utcDay } from "@/lib/game/daily";
+import { getLevel } from "@/lib/game/levels";
+import type { LeaderboardEntry, LeaderboardScope } from "./leaderboard";
+import { getKeyValueStore, storeKey } from "./kv-store";
+import { getNotificationSubscribers } from "./notification";
+import {
+  sendFrameNotifications,
+  type BatchNotificationResult,
+} from "./notification-client";
+
+/**
+ * Notification campaigns: one notification for many fids, sent now or at a
+ * scheduled time.
+ *
+ * A campaign's id is stable for what it announces, e.g. one per Daily Fire,
+ * and doubles as the notificationId, so scheduling the same campaign twice is
+ * a no-op and clients drop a repeat delivery. Due campaigns are sent by the
+ * campaign cron; each is taken off the schedule by exactly one run before it
+ * is sent.
+ */
+
+const appName = process.env.NEXT_PUBLIC_ONCHAINKIT_PROJECT_NAME;
+
+// Keep finished campaigns around for a month for inspection and dedupe
+const CAMPAIGN_TTL_SECONDS = 30 * 24 * 60 * 60;
+// Farcaster limits notification ids to this length
+const MAX_CAMPAIGN_ID_LENGTH = 128;
+
+export type CampaignAudience =
+  | { kind: "subscribers" }
+  | { kind: "fids"; fids: number[] };
+
+export interface CampaignDefinition {
+  id: string;
+  title: string;
+  body: string;
+  targetUrl?: string;
+  audience: CampaignAudience;
+  // Milliseconds since the epoch; anything not in the future goes out on the next run
+  sendAt: number;
+}
+
+export interface Campaign extends CampaignDefinition {
+  status: "scheduled" | "sending" | "sent";
+  scheduledAt: number;
+  sentAt: number | null;
+  result: BatchNotificationResult | null;
+}
+
+function getCampaignKey(id: string): string {
+  return storeKey("campaign", id);
+}
+
+// Ids of scheduled campaigns, scored by when they are due
+function getScheduleKey(): string {
+  return storeKey("campaigns", "scheduled");
+}
+
+export function isCampaignId(value: unknown): value is string {
+  return (
+    typeof value === "string" &&
+    value.length > 0 &&
+    value.length <= MAX_CAMPAIGN_ID_LENGTH &&
+    /^[\w:.-]+$/.test(value)
+  );
+}
+
+function invalid(message: string): never {
+  throw new Error(`Invalid campaign: ${message}`);
+}
+
+// Validate a campaign posted by an internal caller; sendAt defaults to now
+export function parseCampaignDefinition(raw: unknown): CampaignDefinition {
+  if (typeof raw !== "object" || raw === null) invalid("expected an object");
+  const { id, title, body, targetUrl, audience, sendAt } = raw as Record<
+    string,
+    unknown
+  >;
+
+  if (!isCampaignId(id)) {
+    invalid(
+      `id must be 1-${MAX_CAMPAIGN_ID_LENGTH} letters, digits, _, :, . or -`,
+    );
+  }
+  if (typeof title !== "string" || !title.trim() || title.length > 32) {
+    invalid("title must be 1-32 characters");
+  }
+  if (typeof body !== "string" || !body.trim() || body.length > 128) {
+    invalid("body must be 1-128 characters");
+  }
+  if (targetUrl !== undefined && typeof targetUrl !== "string") {
+    invalid("targetUrl must be a string");
+  }
+  if (sendAt !== undefined && !Number.isFinite(sendAt)) {
+    invalid("sendAt must be a timestamp in milliseconds");
+  }
+
+  const { kind, fids } = (audience ?? {}) as Record<string, unknown>;
+  if (
+    kind !== "subscribers" &&
+    !(
+      kind === "fids" &&
+      Array.isArray(fids) &&
+      fids.length > 0 &&
+      fids.every((fid) => Number.isInteger(fid) && fid > 0)
+    )
+  ) {
+    invalid(
+      'audience must be { kind: "subscribers" } or { kind: "fids", fids: [...] }',
+    );
+  }
+
+  return {
+    id,
+    title,
+    body,
+    targetUrl,
+    audience:
+      kind === "subscribers"
+        ? { kind }
+        : { kind: "fids", fids: fids as number[] },
+    sendAt: (sendAt as number | undefined) ?? Date.now(),
+  };
+}
+
+export async function getCampaign(id: string): Promise<Campaign | null> {
+  return await getKeyValueStore().get<Campaign>(getCampaignKey(id));
+}
+
+async function saveCampaign(campaign: Campaign): Promise<void> {
+  await getKeyValueStore().set(getCampaignKey(campaign.id), campaign, {
+    ex: CAMPAIGN_TTL_SECONDS,
+  });
+}
+
+// Schedule a campaign; false if one with the same id was already scheduled or sent
+export async function scheduleCampaign(
+  definition: CampaignDefinition,
+): Promise<boolean> {
+  if (!isCampaignId(definition.id)) {
+    throw new Error(`Invalid campaign id ${definition.id}`);
+  }
+  const campaign: Campaign = {
+    ...definition,
+    status: "scheduled",
+    scheduledAt: Date.now(),
+    sentAt: null,
+    result: null,
+  };
+
+  const store = getKeyValueStore();
+  const created = await store.set(getCampaignKey(campaign.id), campaign, {
+    nx: true,
+    ex: CAMPAIGN_TTL_SECONDS,
+  });
+  if (!created) return false;
+  await store.zadd(getScheduleKey(), campaign.sendAt, campaign.id);
+  return true;
+}
+
+// Take the due campaigns off the schedule; each id is only ever handed to one caller
+async function takeDueCampaigns(now: number): Promise<string[]> {
+  const store = getKeyValueStore();
+  const ids = await store.zrangebyscore(getScheduleKey(), 0, now);
+  const taken: string[] = [];
+  for (const id of ids) {
+    if (await store.zrem(getScheduleKey(), id)) taken.push(id);
+  }
+  return taken;
+}
+
+async function sendCampaign(campaign: Campaign): Promise<Campaign> {
+  await saveCampaign({ ...campaign, status: "sending" });
+
+  const fids =
+    campaign.audience.kind === "subscribers"
+      ? await getNotificationSubscribers()
+      : campaign.audience.fids;
+  const result = await sendFrameNotifications({
+    notificationId: campaign.id,
+    title: campaign.title,
+    body: campaign.body,
+    targetUrl: campaign.targetUrl,
+    fids,
+  });
+
+  const sent: Campaign = {
+    ...campaign,
+    status: "sent",
+    sentAt: Date.now(),
+    result,
+  };
+  await saveCampaign(sent);
+  return sent;
+}
+
+// Send every campaign that is due; run by the campaign cron
+export async function runDueCampaigns(
+  now: number = Date.now(),
+): Promise<Campaign[]> {
+  const sent: Campaign[] = [];
+  for (const id of await takeDueCampaigns(now)) {
+    const campaign = await getCampaign(id);
+    if (!campaign) continue;
+    try {
+      sent.push(await sendCampaign(campaign));
+    } catch (error) {
+      console.error(`Campaign ${id} failed:`, error);
+    }
+  }
+  return sent;
+}
+
+// Schedule a campaign for right now and send it straight away
+export async function sendCampaignNow(
+  definition: Omit<CampaignDefinition, "sendAt">,
+): Promise<Campaign | null> {
+  const now = Date.now();
+  if (!(await scheduleCampaign({ ...definition, sendAt: now }))) {
+    return null;
+  }
+  const sent = await runDueCampaigns(now);
+  return sent.find((campaign) => campaign.id === definition.id) ?? null;
+}
+
+export function dailyFireCampaign(
+  day: string,
+): Omit<CampaignDefinition, "sendAt"> {
+  return {
+    id: `daily-fire:${day}`,
+    title: "🔥 The Daily Fire is live",
+    body: `A new forest is burning in ${appName ?? "the game"}. You get one ranked attempt today!`,
+    audience: { kind: "subscribers" },
+  };
+}
+
+// Tell a player someone took their all-time record; at most one per board per day
+export function recordBeatenCampaign({
+  fid,
+  boardId,
+  boardName,
+  day,
+  sendAt,
+}: {
+  fid: number;
+  boardId: string;
+  boardName: string;
+  day: string;
+  sendAt: number;
+}): CampaignDefinition {
+  return {
+    id: `record-beaten:${boardId}:${fid}:${day}`,
+    title: "🏆 Your record was beaten",
+    body: `Someone took the top spot on ${boardName}. Come and win it back!`,
+    audience: { kind: "fids", fids: [fid] },
+    sendAt,
+  };
+}
+
+// Wait a little before telling a player their record fell, in case they're retaking it already
+const RECORD_BEATEN_DELAY_MS = 15 * 60 * 1000;
+
+// Let the previous all-time leader know a signed-in player took their record; false if nothing was scheduled
+export async function scheduleRecordBeaten({
+  scope,
+  leader,
+  submitterFid,
+}: {
+  scope: LeaderboardScope;
+  leader: LeaderboardEntry;
+  // Only ever the fid from a verified Quick Auth token
+  submitterFid: number;
+}): Promise<boolean> {
+  if (leader.fid === submitterFid) return false;
+
+  const level = scope.kind === "level" ? getLevel(scope.levelId) : null;
+  return await scheduleCampaign(
+    recordBeatenCampaign({
+      fid: leader.fid,
+      boardId: level
+        ? level.id
+        : `seed-${scope.kind === "seed" ? scope.seed : ""}`,
+      boardName: level ? level.name : "your free play forest",
+      day: utcDay(),
+      sendAt: Date.now() + RECORD_BEATEN_DELAY_MS,
+    }),
+  );
+}
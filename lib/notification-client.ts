@@ -1,67 +1,361 @@
 import {
-  MiniAppNotificationDetails,
   type SendNotificationRequest,
   sendNotificationResponseSchema,
 } from "@farcaster/frame-sdk";
-import { getUserNotificationDetails } from "@/lib/notification";
+import {
+  getNotificationDetailsForFids,
+  removeInvalidNotificationToken,
+} from "@/lib/notification";
+import {
+  getDelivery,
+  queueRetry,
+  recordRecipients,
+  startDelivery,
+  takeDueRetries,
+  type DeliveryMessage,
+  type RecipientStatus,
+} from "@/lib/notification-deliveries";
 
 const appUrl = process.env.NEXT_PUBLIC_URL || "";
 
-type SendFrameNotificationResult =
+// The Farcaster notification API takes at most this many tokens per request
+const MAX_TOKENS_PER_REQUEST = 100;
+
+// Retries back off from a minute, doubling up to an hour between attempts
+const RETRY_BASE_SECONDS = 60;
+const RETRY_MAX_SECONDS = 60 * 60;
+// Attempts per recipient, the first send included, before giving up
+const MAX_ATTEMPTS = 6;
+
+// How one request to a client's notification URL went
+type PostResult =
   | {
-      state: "error";
-      error: unknown;
+      ok: true;
+      successfulTokens: string[];
+      invalidTokens: string[];
+      rateLimitedTokens: string[];
     }
+  | {
+      ok: false;
+      // Rate limited as a whole, the client failed or it couldn't be reached
+      retryable: boolean;
+      // Seconds, from the client's Retry-After header
+      retryAfter?: number;
+      error: string;
+    };
+
+async function postNotification(
+  url: string,
+  request: SendNotificationRequest,
+): Promise<PostResult> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(request),
+    });
+  } catch (error) {
+    return {
+      ok: false,
+      retryable: true,
+      error: error instanceof Error ? error.message : "Request failed",
+    };
+  }
+
+  // Error bodies aren't always JSON, so only parse once the status says it worked
+  if (!response.ok) {
+    const retryAfter = Number(response.headers.get("retry-after"));
+    return {
+      ok: false,
+      retryable: response.status === 429 || response.status >= 500,
+      retryAfter: retryAfter > 0 ? retryAfter : undefined,
+      error: `Client responded with status ${response.status}`,
+    };
+  }
+
+  let json: unknown;
+  try {
+    json = await response.json();
+  } catch {
+    return { ok: false, retryable: false, error: "Response is not JSON" };
+  }
+  const responseBody = sendNotificationResponseSchema.safeParse(json);
+  if (!responseBody.success) {
+    return {
+      ok: false,
+      retryable: false,
+      error: `Unexpected response: ${responseBody.error.message}`,
+    };
+  }
+
+  return { ok: true, ...responseBody.data.result };
+}
+
+function retryDelaySeconds(attempts: number): number {
+  return Math.min(
+    RETRY_MAX_SECONDS,
+    RETRY_BASE_SECONDS * 2 ** Math.max(0, attempts - 1),
+  );
+}
+
+// Send a message to some of its recipients, record how it went for each and queue retries
+async function deliver(
+  message: DeliveryMessage,
+  fids: number[],
+  previousAttempts: Map<number, number> = new Map(),
+): Promise<Map<number, RecipientStatus>> {
+  await startDelivery(message);
+
+  const now = Date.now();
+  const statuses = new Map<number, RecipientStatus>();
+  const attempted = (fid: number) => ({
+    attempts: (previousAttempts.get(fid) ?? 0) + 1,
+    lastAttemptAt: now,
+  });
+  const retryLater = async (
+    fid: number,
+    error: string,
+    retryAfter: number = 0,
+  ) => {
+    const { attempts } = attempted(fid);
+    if (attempts >= MAX_ATTEMPTS) {
+      statuses.set(fid, {
+        state: "failed",
+        ...attempted(fid),
+        error: `Gave up after ${attempts} attempts: ${error}`,
+      });
+      return;
+    }
+    const nextAttemptAt =
+      now + Math.max(retryDelaySeconds(attempts), retryAfter) * 1000;
+    statuses.set(fid, {
+      state: "retrying",
+      ...attempted(fid),
+      nextAttemptAt,
+      error,
+    });
+    await queueRetry(
+      { notificationId: message.notificationId, fid },
+      nextAttemptAt,
+    );
+  };
+
+  // Clients each have their own notification URL; group tokens by it
+  const details = await getNotificationDetailsForFids(fids);
+  const byUrl = new Map<string, Map<string, number>>();
+  for (const fid of fids) {
+    const entry = details.get(fid);
+    if (!entry) {
+      statuses.set(fid, { state: "no_token", ...attempted(fid) });
+      continue;
+    }
+    const tokens = byUrl.get(entry.url) ?? new Map<string, number>();
+    tokens.set(entry.token, fid);
+    byUrl.set(entry.url, tokens);
+  }
+
+  for (const [url, fidsByToken] of byUrl) {
+    const tokens = [...fidsByToken.keys()];
+    for (
+      let start = 0;
+      start < tokens.length;
+      start += MAX_TOKENS_PER_REQUEST
+    ) {
+      const batch = tokens.slice(start, start + MAX_TOKENS_PER_REQUEST);
+      const result = await postNotification(url, {
+        ...message,
+        tokens: batch,
+      });
+
+      if (!result.ok) {
+        console.error(`Notification batch to ${url} failed: ${result.error}`);
+        for (const token of batch) {
+          const fid = fidsByToken.get(token)!;
+          if (result.retryable) {
+            await retryLater(fid, result.error, result.retryAfter);
+          } else {
+            statuses.set(fid, {
+              state: "failed",
+              ...attempted(fid),
+              error: result.error,
+            });
+          }
+        }
+        continue;
+      }
+
+      for (const token of result.successfulTokens) {
+        const fid = fidsByToken.get(token);
+        if (fid !== undefined) {
+          statuses.set(fid, { state: "delivered", ...attempted(fid) });
+        }
+      }
+      for (const token of result.rateLimitedTokens) {
+        const fid = fidsByToken.get(token);
+        if (fid !== undefined) await retryLater(fid, "Rate limited");
+      }
+      for (const token of result.invalidTokens) {
+        const fid = fidsByToken.get(token);
+        if (fid !== undefined) {
+          statuses.set(fid, { state: "invalid_token", ...attempted(fid) });
+          await removeInvalidNotificationToken(fid, token);
+        }
+      }
+      // Tokens the client left out of every list can't be accounted for
+      for (const token of batch) {
+        const fid = fidsByToken.get(token)!;
+        if (!statuses.has(fid)) {
+          statuses.set(fid, {
+            state: "failed",
+            ...attempted(fid),
+            error: "Missing from the client's response",
+          });
+        }
+      }
+    }
+  }
+
+  await recordRecipients(message.notificationId, statuses);
+  return statuses;
+}
+
+export type SendFrameNotificationResult = { notificationId: string } & (
+  | { state: "success" }
   | { state: "no_token" }
-  | { state: "rate_limit" }
-  | { state: "success" };
+  // The client reported the token invalid and it was removed
+  | { state: "invalid_token" }
+  // Rate limited or the client failed; it is queued to be sent again
+  | { state: "retrying"; nextAttemptAt: number }
+  | { state: "error"; error: string }
+);
 
 export async function sendFrameNotification({
   fid,
   title,
   body,
-  notificationDetails,
+  notificationId = crypto.randomUUID(),
 }: {
   fid: number;
   title: string;
   body: string;
-  notificationDetails?: MiniAppNotificationDetails | null;
+  notificationId?: string;
 }): Promise<SendFrameNotificationResult> {
-  if (!notificationDetails) {
-    notificationDetails = await getUserNotificationDetails(fid);
-  }
-  if (!notificationDetails) {
-    return { state: "no_token" };
+  const statuses = await deliver(
+    { notificationId, title, body, targetUrl: appUrl },
+    [fid],
+  );
+  const status = statuses.get(fid)!;
+
+  switch (status.state) {
+    case "delivered":
+      return { notificationId, state: "success" };
+    case "no_token":
+    case "invalid_token":
+      return { notificationId, state: status.state };
+    case "retrying":
+      return {
+        notificationId,
+        state: "retrying",
+        nextAttemptAt: status.nextAttemptAt!,
+      };
+    case "failed":
+      return {
+        notificationId,
+        state: "error",
+        error: status.error ?? "Unknown error",
+      };
   }
+}
 
-  const response = await fetch(notificationDetails.url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      notificationId: crypto.randomUUID(),
-      title,
-      body,
-      targetUrl: appUrl,
-      tokens: [notificationDetails.token],
-    } satisfies SendNotificationRequest),
-  });
+export interface BatchNotification {
+  // Stable per notification, so clients drop repeats of the same one
+  notificationId: string;
+  title: string;
+  body: string;
+  targetUrl?: string;
+  fids: number[];
+}
 
-  const responseJson = await response.json();
+export interface BatchNotificationResult {
+  sent: number;
+  // Rate limited or the client failed; queued to be sent again
+  retrying: number;
+  failed: number;
+  // Tokens the client reported invalid, now removed
+  invalid: number;
+  // Fids without notification details
+  noToken: number;
+}
 
-  if (response.status === 200) {
-    const responseBody = sendNotificationResponseSchema.safeParse(responseJson);
-    if (responseBody.success === false) {
-      return { state: "error", error: responseBody.error.errors };
-    }
+function summarize(
+  statuses: Iterable<RecipientStatus>,
+  result: BatchNotificationResult = {
+    sent: 0,
+    retrying: 0,
+    failed: 0,
+    invalid: 0,
+    noToken: 0,
+  },
+): BatchNotificationResult {
+  for (const { state } of statuses) {
+    if (state === "delivered") result.sent++;
+    else if (state === "retrying") result.retrying++;
+    else if (state === "failed") result.failed++;
+    else if (state === "invalid_token") result.invalid++;
+    else result.noToken++;
+  }
+  return result;
+}
 
-    if (responseBody.data.result.rateLimitedTokens.length) {
-      return { state: "rate_limit" };
-    }
+// Send one notification to many fids, one request per client URL and batch of tokens
+export async function sendFrameNotifications({
+  notificationId,
+  title,
+  body,
+  targetUrl = appUrl,
+  fids,
+}: BatchNotification): Promise<BatchNotificationResult> {
+  const statuses = await deliver({ notificationId, title, body, targetUrl }, [
+    ...new Set(fids),
+  ]);
+  return summarize(statuses.values());
+}
 
-    return { state: "success" };
+// Send again to every recipient whose backoff is over; run by the delivery retry cron
+export async function retryNotificationDeliveries(
+  now: number = Date.now(),
+): Promise<BatchNotificationResult> {
+  const fidsById = new Map<string, number[]>();
+  for (const { notificationId, fid } of await takeDueRetries(now)) {
+    fidsById.set(notificationId, [
+      ...(fidsById.get(notificationId) ?? []),
+      fid,
+    ]);
   }
 
-  return { state: "error", error: responseJson };
+  const result = summarize([]);
+  for (const [notificationId, fids] of fidsById) {
+    // Records outlive any backoff, so a missing one was deleted on purpose
+    const delivery = await getDelivery(notificationId);
+    if (!delivery) continue;
+
+    const { title, body, targetUrl } = delivery;
+    const previousAttempts = new Map(
+      fids.map((fid) => [fid, delivery.recipients[fid]?.attempts ?? 0]),
+    );
+    try {
+      const statuses = await deliver(
+        { notificationId, title, body, targetUrl },
+        fids,
+        previousAttempts,
+      );
+      summarize(statuses.values(), result);
+    } catch (error) {
+      console.error(`Retrying notification ${notificationId} failed:`, error);
+    }
+  }
+  return result;
 }
@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createMemoryStore, setKeyValueStore } from "./kv-store";
+import {
+  getDelivery,
+  listDeliveries,
+  MAX_INDEXED_DELIVERIES,
+  recordRecipients,
+  startDelivery,
+} from "./notification-deliveries";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function message(notificationId: string) {
+  return { notificationId, title: "Title", body: "Body", targetUrl: "" };
+}
+
+beforeEach(() => {
+  setKeyValueStore(createMemoryStore());
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date("2026-03-01T12:00:00Z"));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("notification deliveries", () => {
+  it("keeps a record for a month after its last update", async () => {
+    await startDelivery(message("kept"));
+    await startDelivery(message("expired"));
+    vi.advanceTimersByTime(20 * DAY_MS);
+    await recordRecipients(
+      "kept",
+      new Map([[1, { state: "delivered", attempts: 1, lastAttemptAt: 0 }]]),
+    );
+
+    vi.advanceTimersByTime(15 * DAY_MS);
+    await startDelivery(message("later"));
+    expect(await getDelivery("kept")).not.toBeNull();
+    expect(await getDelivery("expired")).toBeNull();
+  });
+
+  it("indexes only the most recent deliveries", async () => {
+    for (let i = 0; i < MAX_INDEXED_DELIVERIES + 5; i++) {
+      await startDelivery(message(`bulk-${i}`));
+      vi.advanceTimersByTime(1);
+    }
+
+    const deliveries = await listDeliveries(MAX_INDEXED_DELIVERIES + 10);
+    expect(deliveries).toHaveLength(MAX_INDEXED_DELIVERIES);
+    expect(deliveries[0].notificationId).toBe(
+      `bulk-${MAX_INDEXED_DELIVERIES + 4}`,
+    );
+    expect(await getDelivery("bulk-0")).toBeNull();
+  });
+});
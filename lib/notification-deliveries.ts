@@ -0,0 +1,168 @@
+import { getKeyValueStore, storeKey } from "./kv-store";
+
+/**
+ * Delivery records for sent notifications, and the queue of recipients
+ * waiting to be retried.
+ *
+ * Each notificationId gets a record of what was sent and how delivery went
+ * for every recipient fid, kept for a month after its last update so the
+ * delivery history can be inspected; the index of recent deliveries keeps
+ * the latest MAX_INDEXED_DELIVERIES. Recipients a client rate limited, or whose send failed on the
+ * client's side, wait in the retry queue until their backoff is over.
+ */
+
+const DELIVERY_TTL_SECONDS = 30 * 24 * 60 * 60;
+export const MAX_INDEXED_DELIVERIES = 1000;
+
+export type RecipientState =
+  | "delivered"
+  // Waiting in the retry queue
+  | "retrying"
+  // Out of retries, or refused outright by the client
+  | "failed"
+  // The client reported the token invalid and it was removed
+  | "invalid_token"
+  | "no_token";
+
+export interface RecipientStatus {
+  state: RecipientState;
+  attempts: number;
+  lastAttemptAt: number;
+  nextAttemptAt?: number;
+  error?: string;
+}
+
+export interface DeliveryMessage {
+  notificationId: string;
+  title: string;
+  body: string;
+  targetUrl: string;
+}
+
+export interface Delivery extends DeliveryMessage {
+  createdAt: number;
+  updatedAt: number;
+  recipients: Record<number, RecipientStatus>;
+}
+
+export interface PendingRetry {
+  notificationId: string;
+  fid: number;
+}
+
+// Hash of the message under "message" and each recipient's status under their fid
+function getDeliveryKey(notificationId: string): string {
+  return storeKey("delivery", notificationId);
+}
+
+// notificationIds scored by when delivery started, newest last
+function getDeliveryIndexKey(): string {
+  return storeKey("deliveries");
+}
+
+// "<notificationId>|<fid>" scored by when the recipient is due another attempt
+function getRetryQueueKey(): string {
+  return storeKey("delivery", "retries");
+}
+
+function retryMember({ notificationId, fid }: PendingRetry): string {
+  return `${notificationId}|${fid}`;
+}
+
+function parseRetryMember(member: string): PendingRetry {
+  const separator = member.lastIndexOf("|");
+  return {
+    notificationId: member.slice(0, separator),
+    fid: Number(member.slice(separator + 1)),
+  };
+}
+
+// Store what is being sent; repeat sends of the same notificationId keep the original record
+export async function startDelivery(message: DeliveryMessage): Promise<void> {
+  const store = getKeyValueStore();
+  const now = Date.now();
+  const key = getDeliveryKey(message.notificationId);
+  const created = await store.hsetnx(key, "message", {
+    ...message,
+    createdAt: now,
+  });
+  if (!created) return;
+
+  await store.expire(key, DELIVERY_TTL_SECONDS);
+  const index = getDeliveryIndexKey();
+  await store.zadd(index, now, message.notificationId);
+  await store.zremrangebyscore(index, 0, now - DELIVERY_TTL_SECONDS * 1000);
+  // Records that fall off the index go with it, so the cap bounds storage too
+  const overflow = await store.zrange(index, 0, -MAX_INDEXED_DELIVERIES - 1);
+  for (const notificationId of overflow) {
+    await store.del(getDeliveryKey(notificationId));
+  }
+  await store.zremrangebyrank(index, 0, -MAX_INDEXED_DELIVERIES - 1);
+}
+
+export async function recordRecipients(
+  notificationId: string,
+  statuses: Map<number, RecipientStatus>,
+): Promise<void> {
+  if (!statuses.size) return;
+
+  const store = getKeyValueStore();
+  const key = getDeliveryKey(notificationId);
+  await store.hset(key, {
+    ...Object.fromEntries(statuses),
+    updatedAt: Date.now(),
+  });
+  await store.expire(key, DELIVERY_TTL_SECONDS);
+}
+
+export async function getDelivery(
+  notificationId: string,
+): Promise<Delivery | null> {
+  const fields = await getKeyValueStore().hgetall<unknown>(
+    getDeliveryKey(notificationId),
+  );
+  if (!fields?.message) return null;
+
+  const { message, updatedAt, ...recipients } = fields;
+  const { createdAt, ...rest } = message as DeliveryMessage & {
+    createdAt: number;
+  };
+  return {
+    ...rest,
+    createdAt,
+    updatedAt: Number(updatedAt ?? createdAt),
+    recipients: recipients as Record<number, RecipientStatus>,
+  };
+}
+
+// The most recent deliveries, newest first
+export async function listDeliveries(limit: number): Promise<Delivery[]> {
+  const ids = await getKeyValueStore().zrange(
+    getDeliveryIndexKey(),
+    0,
+    limit - 1,
+    { rev: true },
+  );
+  const deliveries = await Promise.all(ids.map(getDelivery));
+  return deliveries.filter((delivery): delivery is Delivery => !!delivery);
+}
+
+export async function queueRetry(
+  retry: PendingRetry,
+  dueAt: number,
+): Promise<void> {
+  await getKeyValueStore().zadd(getRetryQueueKey(), dueAt, retryMember(retry));
+}
+
+// Take the recipients whose backoff is over off the queue; each is only ever handed to one caller
+export async function takeDueRetries(now: number): Promise<PendingRetry[]> {
+  const store = getKeyValueStore();
+  const members = await store.zrangebyscore(getRetryQueueKey(), 0, now);
+  const taken: PendingRetry[] = [];
+  for (const member of members) {
+    if (await store.zrem(getRetryQueueKey(), member)) {
+      taken.push(parseRetryMember(member));
+    }
+  }
+  return taken;
+}
@@ -1,21 +1,19 @@
 import type { MiniAppNotificationDetails } from "@farcaster/frame-sdk";
-import { redis } from "./redis";
-
-const notificationServiceKey =
-  process.env.NEXT_PUBLIC_ONCHAINKIT_PROJECT_NAME ?? "minikit";
+import { getKeyValueStore, storeKey } from "./kv-store";
 
 function getUserNotificationDetailsKey(fid: number): string {
-  return `${notificationServiceKey}:user:${fid}`;
+  return storeKey("user", fid);
+}
+
+// Set of every fid with notification details stored, for broadcasts
+function getSubscribersKey(): string {
+  return storeKey("subscribers");
 }
 
 export async function getUserNotificationDetails(
   fid: number,
 ): Promise<MiniAppNotificationDetails | null> {
-  if (!redis) {
-    return null;
-  }
-
-  return await redis.get<MiniAppNotificationDetails>(
+  return await getKeyValueStore().get<MiniAppNotificationDetails>(
     getUserNotificationDetailsKey(fid),
   );
 }
@@ -24,19 +22,46 @@ export async function setUserNotificationDetails(
   fid: number,
   notificationDetails: MiniAppNotificationDetails,
 ): Promise<void> {
-  if (!redis) {
-    return;
-  }
-
-  await redis.set(getUserNotificationDetailsKey(fid), notificationDetails);
+  const store = getKeyValueStore();
+  await store.set(getUserNotificationDetailsKey(fid), notificationDetails);
+  await store.sadd(getSubscribersKey(), fid);
 }
 
 export async function deleteUserNotificationDetails(
   fid: number,
 ): Promise<void> {
-  if (!redis) {
-    return;
-  }
+  const store = getKeyValueStore();
+  await store.del(getUserNotificationDetailsKey(fid));
+  await store.srem(getSubscribersKey(), fid);
+}
 
-  await redis.del(getUserNotificationDetailsKey(fid));
+export async function getNotificationSubscribers(): Promise<number[]> {
+  const fids = await getKeyValueStore().smembers(getSubscribersKey());
+  return fids.map(Number);
+}
+
+// Stored details for many fids at once; fids without any are left out
+export async function getNotificationDetailsForFids(
+  fids: number[],
+): Promise<Map<number, MiniAppNotificationDetails>> {
+  const details = new Map<number, MiniAppNotificationDetails>();
+  const stored = await getKeyValueStore().mget<MiniAppNotificationDetails>(
+    fids.map(getUserNotificationDetailsKey),
+  );
+  fids.forEach((fid, index) => {
+    const entry = stored[index];
+    if (entry) details.set(fid, entry);
+  });
+  return details;
+}
+
+// Forget a token the Farcaster client reported invalid, unless the fid has registered a new one since
+export async function removeInvalidNotificationToken(
+  fid: number,
+  token: string,
+): Promise<void> {
+  const current = await getUserNotificationDetails(fid);
+  if (current?.token === token) {
+    await deleteUserNotificationDetails(fid);
+  }
 }
@@ -0,0 +1,53 @@
+import { getKeyValueStore, storeKey } from "./kv-store";
+
+/**
+ * Audit trail of every request to /api/notify, whether it was sent, refused
+ * or failed. Entries go to the server log and to a capped list in the
+ * key-value store.
+ */
+
+// Oldest entries fall off the list past this many
+const MAX_AUDIT_ENTRIES = 1000;
+
+export type NotifyAuditOutcome =
+  | "sent"
+  | "no_token"
+  | "invalid_token"
+  | "queued"
+  | "error"
+  | "unauthenticated"
+  | "forbidden"
+  | "invalid"
+  | "throttled";
+
+export interface NotifyAuditEntry {
+  at: number;
+  // Who made the request, as described by describeNotifyCaller, if known
+  caller: string | null;
+  // The fid the notification was for, if the request got that far
+  fid: number | null;
+  title: string | null;
+  outcome: NotifyAuditOutcome;
+  status: number;
+  detail?: string;
+  ip: string | null;
+}
+
+function getAuditLogKey(): string {
+  return storeKey("notify", "audit");
+}
+
+export async function recordNotifyAudit(
+  entry: NotifyAuditEntry,
+): Promise<void> {
+  console.info("notify audit", JSON.stringify(entry));
+
+  try {
+    const store = getKeyValueStore();
+    await store.lpush(getAuditLogKey(), entry);
+    await store.ltrim(getAuditLogKey(), 0, MAX_AUDIT_ENTRIES - 1);
+  } catch (error) {
+    // A lost audit entry shouldn't fail the request; the server log still has it
+    console.error("Failed to store notify audit entry:", error);
+  }
+}
@@ -0,0 +1,181 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { bearerToken, verifyQuickAuthToken } from "./player-auth";
+
+/**
+ * Who may send notifications through /api/notify, and what they may send.
+ *
+ * Internal callers (cron jobs, admin scripts) authenticate with the shared
+ * secret or a short-lived admin token signed with it, and may notify any fid.
+ * Players authenticate with a Farcaster Quick Auth token, issued after Sign
+ * In With Farcaster, and may only notify themselves. Nobody can supply
+ * notification details: sends always go to the token the fid registered
+ * through the webhook, so the endpoint can't be used as a relay.
+ */
+
+export type NotifyCaller =
+  | { kind: "internal"; name: string }
+  | { kind: "user"; fid: number };
+
+export interface NotifyRequest {
+  fid: number;
+  title: string;
+  body: string;
+}
+
+export type NotifyAuthResult =
+  | { authenticated: true; caller: NotifyCaller }
+  | { authenticated: false; status: 401 | 503; error: string };
+
+// Limits the Farcaster clients enforce on notifications
+const MAX_TITLE_LENGTH = 32;
+const MAX_BODY_LENGTH = 128;
+
+// Admin tokens are refused once they are older than this, whatever they claim
+const MAX_ADMIN_TOKEN_TTL_SECONDS = 24 * 60 * 60;
+
+// A base64url payload and its base64url signature
+const ADMIN_TOKEN_PATTERN = /^[\w-]+\.[\w-]+$/;
+
+function invalid(message: string): never {
+  throw new Error(`Invalid notification: ${message}`);
+}
+
+export function parseNotifyRequest(raw: unknown): NotifyRequest {
+  if (typeof raw !== "object" || raw === null) invalid("expected an object");
+  const { fid, notification, ...rest } = raw as Record<string, unknown>;
+  if (Object.keys(rest).length) {
+    invalid(`unexpected fields ${Object.keys(rest).join(", ")}`);
+  }
+  if (!Number.isInteger(fid) || (fid as number) <= 0) {
+    invalid("fid must be a positive integer");
+  }
+  if (typeof notification !== "object" || notification === null) {
+    invalid("missing notification");
+  }
+
+  const { title, body, ...extra } = notification as Record<string, unknown>;
+  if (Object.keys(extra).length) {
+    invalid(
+      `notification may only have a title and body, not ${Object.keys(extra).join(", ")}`,
+    );
+  }
+  if (
+    typeof title !== "string" ||
+    !title.trim() ||
+    title.length > MAX_TITLE_LENGTH
+  ) {
+    invalid(`title must be 1-${MAX_TITLE_LENGTH} characters`);
+  }
+  if (
+    typeof body !== "string" ||
+    !body.trim() ||
+    body.length > MAX_BODY_LENGTH
+  ) {
+    invalid(`body must be 1-${MAX_BODY_LENGTH} characters`);
+  }
+
+  return { fid: fid as number, title, body };
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+// A token for an internal caller, e.g. a one-off broadcast script, valid for the given seconds
+export function createAdminToken(
+  name: string,
+  ttlSeconds: number,
+  secret = process.env.NOTIFY_API_SECRET,
+): string {
+  if (!secret) throw new Error("NOTIFY_API_SECRET is not configured");
+  const now = Math.floor(Date.now() / 1000);
+  const payload = Buffer.from(
+    JSON.stringify({ sub: name, iat: now, exp: now + ttlSeconds }),
+  ).toString("base64url");
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+function unauthenticated(
+  error: string,
+  status: 401 | 503 = 401,
+): NotifyAuthResult {
+  return { authenticated: false, status, error };
+}
+
+// Null unless the token is an admin token signed with the secret
+function verifyAdminToken(
+  token: string,
+  secret: string,
+): NotifyAuthResult | null {
+  if (!ADMIN_TOKEN_PATTERN.test(token)) return null;
+  const [payload, signature] = token.split(".");
+  if (!safeEqual(signature, sign(payload, secret))) return null;
+
+  let claims: { sub?: unknown; iat?: unknown; exp?: unknown };
+  try {
+    claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+  } catch {
+    return unauthenticated("Invalid admin token");
+  }
+  const now = Math.floor(Date.now() / 1000);
+  if (
+    typeof claims.sub !== "string" ||
+    typeof claims.iat !== "number" ||
+    typeof claims.exp !== "number" ||
+    claims.exp <= now ||
+    claims.exp - claims.iat > MAX_ADMIN_TOKEN_TTL_SECONDS
+  ) {
+    return unauthenticated("Admin token has expired");
+  }
+  return {
+    authenticated: true,
+    caller: { kind: "internal", name: claims.sub },
+  };
+}
+
+// Identify the caller from the request's bearer token
+export async function authenticateNotifyCaller(
+  request: Request,
+): Promise<NotifyAuthResult> {
+  const token = bearerToken(request);
+  if (!token) {
+    return unauthenticated("Missing bearer token");
+  }
+
+  // Tried in a fixed order: the shared secret, an admin token signed with it, then Quick Auth
+  const secret = process.env.NOTIFY_API_SECRET;
+  if (secret && safeEqual(token, secret)) {
+    return {
+      authenticated: true,
+      caller: { kind: "internal", name: "shared-secret" },
+    };
+  }
+  const admin = secret ? verifyAdminToken(token, secret) : null;
+  if (admin) return admin;
+
+  const player = await verifyQuickAuthToken(token);
+  if (player.authenticated) {
+    return { authenticated: true, caller: { kind: "user", fid: player.fid } };
+  }
+  return player.status === 503
+    ? player
+    : unauthenticated("Invalid bearer token");
+}
+
+// Players may only notify themselves
+export function canNotify(caller: NotifyCaller, fid: number): boolean {
+  return caller.kind === "internal" || caller.fid === fid;
+}
+
+// The caller as it appears in rate limit keys and the audit log
+export function describeNotifyCaller(caller: NotifyCaller): string {
+  return caller.kind === "internal"
+    ? `internal:${caller.name}`
+    : `fid:${caller.fid}`;
+}
@@ -0,0 +1,81 @@
+import { createClient } from "@farcaster/quick-auth";
+
+/**
+ * Which player a request comes from.
+ *
+ * Players sign in with Farcaster Quick Auth and send the token as a bearer
+ * token; the fid is only ever taken from a verified token, never from the
+ * request body. Tests and local tools can swap in their own verifier with
+ * `setQuickAuthVerifier`.
+ */
+
+// The fid a token was issued to; throws if the token is not valid for the domain
+export type QuickAuthVerifier = (
+  token: string,
+  domain: string,
+) => Promise<number>;
+
+export type PlayerAuthResult =
+  | { authenticated: true; fid: number }
+  | { authenticated: false; status: 401 | 503; error: string };
+
+const quickAuth = createClient();
+
+export const farcasterQuickAuthVerifier: QuickAuthVerifier = async (
+  token,
+  domain,
+) => {
+  const payload = await quickAuth.verifyJwt({ token, domain });
+  return Number(payload.sub);
+};
+
+let verifier: QuickAuthVerifier = farcasterQuickAuthVerifier;
+
+export function setQuickAuthVerifier(next: QuickAuthVerifier): void {
+  verifier = next;
+}
+
+export function bearerToken(request: Request): string | null {
+  const header = request.headers.get("authorization");
+  return header?.startsWith("Bearer ") ? header.slice(7).trim() || null : null;
+}
+
+export async function verifyQuickAuthToken(
+  token: string,
+): Promise<PlayerAuthResult> {
+  const appUrl = process.env.NEXT_PUBLIC_URL;
+  if (!appUrl) {
+    return {
+      authenticated: false,
+      status: 503,
+      error: "NEXT_PUBLIC_URL is not configured",
+    };
+  }
+
+  try {
+    const fid = await verifier(token, new URL(appUrl).hostname);
+    if (!Number.isInteger(fid) || fid <= 0) throw new Error("No fid");
+    return { authenticated: true, fid };
+  } catch {
+    return {
+      authenticated: false,
+      status: 401,
+      error: "Invalid Quick Auth token",
+    };
+  }
+}
+
+// The player behind the request's Quick Auth token
+export async function authenticatePlayer(
+  request: Request,
+): Promise<PlayerAuthResult> {
+  const token = bearerToken(request);
+  if (!token) {
+    return {
+      authenticated: false,
+      status: 401,
+      error: "Sign in with Farcaster to continue",
+    };
+  }
+  return await verifyQuickAuthToken(token);
+}
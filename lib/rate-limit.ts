@@ -0,0 +1,49 @@
+import { getKeyValueStore, storeKey } from "./kv-store";
+
+/**
+ * Fixed-window rate limits for the API routes.
+ *
+ * Each limit counts hits per key in windows of a fixed length, in the
+ * key-value store so every server instance shares the count.
+ */
+
+export interface RateLimit {
+  // Hits allowed per window
+  limit: number;
+  windowSeconds: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  // Seconds until the current window ends and the count starts over
+  retryAfter: number;
+}
+
+function getRateLimitKey(name: string, window: number): string {
+  return storeKey("ratelimit", name, window);
+}
+
+// Count a hit against a limit; the hit is refused once the window's limit is used up
+export async function consumeRateLimit(
+  name: string,
+  { limit, windowSeconds }: RateLimit,
+): Promise<RateLimitResult> {
+  const now = Date.now();
+  const windowMs = windowSeconds * 1000;
+  const window = Math.floor(now / windowMs);
+  const retryAfter = Math.ceil(((window + 1) * windowMs - now) / 1000);
+  const key = getRateLimitKey(name, window);
+
+  const store = getKeyValueStore();
+  const count = await store.incr(key);
+  if (count === 1) {
+    await store.expire(key, windowSeconds);
+  }
+
+  return {
+    allowed: count <= limit,
+    remaining: Math.max(0, limit - count),
+    retryAfter,
+  };
+}
@@ -0,0 +1,95 @@
+import * as THREE from "three";
+import type { GroundHeight } from "@/lib/game/terrain";
+
+/**
+ * Splashes for water bomber drops.
+ *
+ * Each drop is a disc draped over the ground that spreads out and fades over
+ * a moment, then is removed; the simulation has already applied the drop by
+ * the time it shows.
+ */
+export interface DropRenderer {
+  drop(x: number, z: number, radius: number): void;
+  update(deltaTime: number): void;
+  dispose(): void;
+}
+
+const SPLASH_DURATION = 1.2;
+const SPLASH_SEGMENTS = 32;
+// Keep the splash just above the ground so it doesn't flicker into it
+const SPLASH_LIFT = 0.1;
+
+interface Splash {
+  mesh: THREE.Mesh<THREE.CircleGeometry, THREE.MeshBasicMaterial>;
+  x: number;
+  z: number;
+  radius: number;
+  age: number;
+}
+
+function disposeSplash(scene: THREE.Scene, splash: Splash): void {
+  splash.mesh.geometry.dispose();
+  splash.mesh.material.dispose();
+  scene.remove(splash.mesh);
+}
+
+export function createDropRenderer(
+  scene: THREE.Scene,
+  groundHeight: GroundHeight,
+): DropRenderer {
+  // Unit disc lying flat; each splash scales it and lifts every vertex onto the ground
+  const unitDisc = new THREE.CircleGeometry(1, SPLASH_SEGMENTS);
+  unitDisc.rotateX(-Math.PI / 2);
+  const unitPositions = unitDisc.attributes.position;
+  let splashes: Splash[] = [];
+
+  const shapeSplash = (splash: Splash, scale: number): void => {
+    const positions = splash.mesh.geometry.attributes.position;
+    for (let index = 0; index < positions.count; index++) {
+      const x = splash.x + unitPositions.getX(index) * scale;
+      const z = splash.z + unitPositions.getZ(index) * scale;
+      positions.setXYZ(index, x, groundHeight(x, z) + SPLASH_LIFT, z);
+    }
+    positions.needsUpdate = true;
+    splash.mesh.geometry.computeBoundingSphere();
+  };
+
+  return {
+    drop(x, z, radius) {
+      const mesh = new THREE.Mesh(
+        unitDisc.clone(),
+        new THREE.MeshBasicMaterial({
+          color: 0x87ceeb,
+          transparent: true,
+          opacity: 0.7,
+          depthWrite: false,
+          side: THREE.DoubleSide,
+        }),
+      );
+      scene.add(mesh);
+      const splash = { mesh, x, z, radius, age: 0 };
+      shapeSplash(splash, radius * 0.4);
+      splashes.push(splash);
+    },
+
+    update(deltaTime) {
+      splashes = splashes.filter((splash) => {
+        splash.age += deltaTime;
+        const t = splash.age / SPLASH_DURATION;
+        if (t >= 1) {
+          disposeSplash(scene, splash);
+          return false;
+        }
+        shapeSplash(splash, splash.radius * (0.4 + 0.6 * t));
+        splash.mesh.material.opacity = 0.7 * (1 - t);
+        return true;
+      });
+    },
+
+    dispose() {
+      for (const splash of splashes) disposeSplash(scene, splash);
+      splashes = [];
+      unitDisc.dispose();
+    },
+  };
+}
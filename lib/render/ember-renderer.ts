@@ -0,0 +1,74 @@
+import * as THREE from "three";
+import { emberHeight, type Ember } from "@/lib/game/embers";
+import type { GroundHeight } from "@/lib/game/terrain";
+
+/**
+ * Glowing embers on their way downwind.
+ *
+ * There are only ever a handful in flight, so each sync simply rewrites one
+ * point per ember, lifted along the arc the simulation gives it.
+ */
+export interface EmberRenderer {
+  sync(embers: Ember[]): void;
+  dispose(): void;
+}
+
+const INITIAL_CAPACITY = 32;
+
+function createEmberGeometry(capacity: number): THREE.BufferGeometry {
+  const geometry = new THREE.BufferGeometry();
+  const positions = new THREE.BufferAttribute(
+    new Float32Array(capacity * 3),
+    3,
+  );
+  positions.setUsage(THREE.DynamicDrawUsage);
+  geometry.setAttribute("position", positions);
+  geometry.setDrawRange(0, 0);
+  return geometry;
+}
+
+export function createEmberRenderer(
+  scene: THREE.Scene,
+  groundHeight: GroundHeight,
+): EmberRenderer {
+  let capacity = INITIAL_CAPACITY;
+  const material = new THREE.PointsMaterial({
+    color: 0xff7a1a,
+    size: 0.35,
+    transparent: true,
+    depthWrite: false,
+    blending: THREE.AdditiveBlending,
+  });
+  const points = new THREE.Points(createEmberGeometry(capacity), material);
+  points.frustumCulled = false;
+  scene.add(points);
+
+  return {
+    sync(embers) {
+      if (embers.length > capacity) {
+        while (capacity < embers.length) capacity *= 2;
+        points.geometry.dispose();
+        points.geometry = createEmberGeometry(capacity);
+      }
+
+      const attribute = points.geometry.getAttribute(
+        "position",
+      ) as THREE.BufferAttribute;
+      const positions = attribute.array as Float32Array;
+      embers.forEach((ember, index) => {
+        positions[index * 3] = ember.x;
+        positions[index * 3 + 1] =
+          groundHeight(ember.x, ember.z) + emberHeight(ember);
+        positions[index * 3 + 2] = ember.z;
+      });
+      attribute.needsUpdate = true;
+      points.geometry.setDrawRange(0, embers.length);
+    },
+
+    dispose() {
+      scene.remove(points);
+      points.geometry.dispose();
+      material.dispose();
+    },
+  };
+}
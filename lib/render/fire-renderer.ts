@@ -0,0 +1,195 @@
+import * as THREE from "three";
+import type { GroundHeight } from "@/lib/game/terrain";
+import type { FireMap } from "@/lib/game/types";
+
+/**
+ * Thin Three.js adapter over the headless fire simulation.
+ *
+ * Every burning cell is an instance of one shared particle cloud, drawn in a
+ * single call. The only per-fire data is its position and intensity, written
+ * into a pooled instance buffer on sync; the particles themselves rise,
+ * sway and cool in the vertex shader, so the CPU does no per-particle work.
+ */
+export interface FireRenderer {
+  sync(fires: FireMap): void;
+  // Advance the flame animation; call once per frame
+  update(deltaTime: number): void;
+  dispose(): void;
+}
+
+const PARTICLES_PER_FIRE = 120;
+// Fires the instance buffer holds before it has to grow
+const INITIAL_CAPACITY = 256;
+// Values per instance: x, z, intensity, ground height
+const INSTANCE_STRIDE = 4;
+
+const vertexShader = /* glsl */ `
+  uniform float uTime;
+  uniform float uScale;
+  // x and z: spot in the unit disc, y: starting phase of the particle's rise
+  attribute float seed;
+  attribute vec4 fire;
+  varying float vLife;
+  varying float vIntensity;
+
+  void main() {
+    float intensity = fire.z;
+    // Vary the phase by cell so neighbouring fires don't flicker in lockstep
+    float cellPhase = fract(sin(dot(fire.xy, vec2(12.9898, 78.233))) * 43758.5453);
+    float life = fract(position.y + cellPhase + uTime * (0.3 + seed * 0.4));
+
+    vec3 local = vec3(position.x, 0.0, position.z) * 1.5 * (1.0 - life * 0.6);
+    local.x += sin(uTime * 3.0 + seed * 20.0 + cellPhase * 6.28) * 0.15 * life;
+    local.y = life * 3.0;
+
+    vec4 mvPosition = modelViewMatrix * vec4(local * intensity + vec3(fire.x, fire.w, fire.y), 1.0);
+    gl_PointSize = (0.2 + seed * 0.3) * (0.6 + 0.4 * intensity) * uScale / -mvPosition.z;
+    gl_Position = projectionMatrix * mvPosition;
+
+    vLife = life;
+    vIntensity = intensity;
+  }
+`;
+
+const fragmentShader = /* glsl */ `
+  uniform sampler2D uMap;
+  varying float vLife;
+  varying float vIntensity;
+
+  void main() {
+    vec4 texel = texture2D(uMap, gl_PointCoord);
+    // Yellow at the base, cooling to red as the particle rises
+    vec3 color = mix(vec3(1.0, 0.8 * vIntensity, 0.1), vec3(1.0, 0.1, 0.0), vLife);
+    gl_FragColor = vec4(color * texel.rgb, texel.a * (1.0 - vLife) * 0.8);
+  }
+`;
+
+function createFireTexture(): THREE.Texture {
+  const canvas = document.createElement("canvas");
+  canvas.width = 16;
+  canvas.height = 16;
+  const context = canvas.getContext("2d")!;
+  const gradient = context.createRadialGradient(8, 8, 0, 8, 8, 8);
+  gradient.addColorStop(0, "rgba(255,255,255,1)");
+  gradient.addColorStop(0.2, "rgba(255,255,0,1)");
+  gradient.addColorStop(0.4, "rgba(255,128,0,1)");
+  gradient.addColorStop(1, "rgba(255,0,0,0)");
+  context.fillStyle = gradient;
+  context.fillRect(0, 0, 16, 16);
+  return new THREE.CanvasTexture(canvas);
+}
+
+// One fire's particle cloud, shared by every instance
+function createParticleAttributes(): {
+  position: THREE.BufferAttribute;
+  seed: THREE.BufferAttribute;
+} {
+  const positions = new Float32Array(PARTICLES_PER_FIRE * 3);
+  const seeds = new Float32Array(PARTICLES_PER_FIRE);
+
+  for (let p = 0; p < PARTICLES_PER_FIRE; p++) {
+    const radius = Math.sqrt(Math.random());
+    const angle = Math.random() * Math.PI * 2;
+    positions[p * 3] = Math.cos(angle) * radius;
+    positions[p * 3 + 1] = Math.random();
+    positions[p * 3 + 2] = Math.sin(angle) * radius;
+    seeds[p] = Math.random();
+  }
+
+  return {
+    position: new THREE.BufferAttribute(positions, 3),
+    seed: new THREE.BufferAttribute(seeds, 1),
+  };
+}
+
+function createFireGeometry(
+  particles: ReturnType<typeof createParticleAttributes>,
+  capacity: number,
+): THREE.InstancedBufferGeometry {
+  const geometry = new THREE.InstancedBufferGeometry();
+  geometry.setAttribute("position", particles.position);
+  geometry.setAttribute("seed", particles.seed);
+  const instances = new THREE.InstancedBufferAttribute(
+    new Float32Array(capacity * INSTANCE_STRIDE),
+    INSTANCE_STRIDE,
+  );
+  instances.setUsage(THREE.DynamicDrawUsage);
+  geometry.setAttribute("fire", instances);
+  geometry.instanceCount = 0;
+  return geometry;
+}
+
+export function createFireRenderer(
+  scene: THREE.Scene,
+  groundHeight: GroundHeight,
+): FireRenderer {
+  const texture = createFireTexture();
+  const particles = createParticleAttributes();
+  let capacity = INITIAL_CAPACITY;
+
+  const material = new THREE.ShaderMaterial({
+    uniforms: {
+      uTime: { value: 0 },
+      uScale: { value: 1 },
+      uMap: { value: texture },
+    },
+    vertexShader,
+    fragmentShader,
+    transparent: true,
+    depthWrite: false,
+    blending: THREE.AdditiveBlending,
+  });
+
+  const points = new THREE.Points(
+    createFireGeometry(particles, capacity),
+    material,
+  );
+  // Particles are placed in the shader, so the geometry's bounds mean nothing
+  points.frustumCulled = false;
+  const drawingBufferSize = new THREE.Vector2();
+  points.onBeforeRender = (renderer) => {
+    // Same point size attenuation as PointsMaterial
+    material.uniforms.uScale.value =
+      renderer.getDrawingBufferSize(drawingBufferSize).y / 2;
+  };
+  scene.add(points);
+
+  return {
+    sync(fires) {
+      if (fires.size > capacity) {
+        // Grow the pool; the particle attributes carry over, the instances are rewritten below
+        while (capacity < fires.size) capacity *= 2;
+        points.geometry.dispose();
+        points.geometry = createFireGeometry(particles, capacity);
+      }
+
+      const instances = points.geometry.getAttribute(
+        "fire",
+      ) as THREE.InstancedBufferAttribute;
+      const data = instances.array as Float32Array;
+      let offset = 0;
+      for (const fire of fires.values()) {
+        data[offset] = fire.x;
+        data[offset + 1] = fire.z;
+        data[offset + 2] = fire.intensity;
+        data[offset + 3] = groundHeight(fire.x, fire.z);
+        offset += INSTANCE_STRIDE;
+      }
+
+      instances.updateRange = { offset: 0, count: offset };
+      instances.needsUpdate = true;
+      points.geometry.instanceCount = fires.size;
+    },
+
+    update(deltaTime) {
+      material.uniforms.uTime.value += deltaTime;
+    },
+
+    dispose() {
+      scene.remove(points);
+      points.geometry.dispose();
+      material.dispose();
+      texture.dispose();
+    },
+  };
+}
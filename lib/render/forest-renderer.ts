@@ -0,0 +1,171 @@
+import * as THREE from "three";
+import { GRID_SIZE } from "@/lib/game/constants";
+import { cellKey } from "@/lib/game/fire-simulation";
+import { charLevel, type FuelMap } from "@/lib/game/fuel";
+import type { GroundHeight } from "@/lib/game/terrain";
+import type { Tree } from "@/lib/game/types";
+
+/**
+ * Three.js adapter for trees and ground fuel.
+ *
+ * Trees darken as their cell's fuel is consumed and collapse to stumps once
+ * the cell burns out; burnt and bare cells are shown as tiles draped over
+ * the ground.
+ */
+export interface ForestRenderer {
+  build(trees: Tree[], fuel: FuelMap): void;
+  sync(fuel: FuelMap): void;
+  dispose(): void;
+}
+
+interface TreeMeshes {
+  tree: Tree;
+  // Ground height at the trunk
+  ground: number;
+  trunk: THREE.Mesh<THREE.CylinderGeometry, THREE.MeshLambertMaterial>;
+  foliage: THREE.Mesh<THREE.ConeGeometry, THREE.MeshLambertMaterial>;
+}
+
+const TRUNK_COLOR = new THREE.Color(0x8b4513); // Brown
+const FOLIAGE_COLOR = new THREE.Color(0x228b22); // Forest green
+const CHARRED_COLOR = new THREE.Color(0x1a1a1a);
+const STUMP_HEIGHT = 0.5;
+
+// One grid cell's worth of ground, following the terrain at its corners
+function createTileGeometry(
+  i: number,
+  j: number,
+  groundHeight: GroundHeight,
+): THREE.PlaneGeometry {
+  const geometry = new THREE.PlaneGeometry(GRID_SIZE, GRID_SIZE);
+  geometry.rotateX(-Math.PI / 2);
+  geometry.translate((i + 0.5) * GRID_SIZE, 0, (j + 0.5) * GRID_SIZE);
+
+  const positions = geometry.attributes.position;
+  for (let index = 0; index < positions.count; index++) {
+    positions.setY(
+      index,
+      groundHeight(positions.getX(index), positions.getZ(index)) + 0.02,
+    );
+  }
+  geometry.computeVertexNormals();
+  return geometry;
+}
+
+export function createForestRenderer(
+  scene: THREE.Scene,
+  groundHeight: GroundHeight,
+): ForestRenderer {
+  let treeMeshes: TreeMeshes[] = [];
+  const groundTiles = new Map<string, THREE.Mesh>();
+
+  const scorchedMaterial = new THREE.MeshLambertMaterial({ color: 0x2b2118 });
+  const bareMaterial = new THREE.MeshLambertMaterial({ color: 0x7a6648 });
+
+  const setGroundTile = (key: string, material: THREE.Material): void => {
+    const existing = groundTiles.get(key);
+    if (existing) {
+      existing.material = material;
+      return;
+    }
+
+    const [i, j] = key.split("-").map(Number);
+    const tile = new THREE.Mesh(
+      createTileGeometry(i, j, groundHeight),
+      material,
+    );
+    tile.receiveShadow = true;
+    scene.add(tile);
+    groundTiles.set(key, tile);
+  };
+
+  const clear = (): void => {
+    for (const { trunk, foliage } of treeMeshes) {
+      for (const mesh of [trunk, foliage]) {
+        mesh.geometry.dispose();
+        mesh.material.dispose();
+        scene.remove(mesh);
+      }
+    }
+    treeMeshes = [];
+
+    for (const tile of groundTiles.values()) {
+      tile.geometry.dispose();
+      scene.remove(tile);
+    }
+    groundTiles.clear();
+  };
+
+  return {
+    build(trees, fuel) {
+      clear();
+
+      for (const tree of trees) {
+        const fullRadius = tree.radius / 0.8; // Convert back from collision radius
+        const ground = groundHeight(tree.x, tree.z);
+
+        // Tree trunk
+        const trunk = new THREE.Mesh(
+          new THREE.CylinderGeometry(0.2, 0.3, 1.5, 8),
+          new THREE.MeshLambertMaterial({ color: TRUNK_COLOR }),
+        );
+        trunk.position.set(tree.x, ground + 0.75, tree.z);
+        trunk.castShadow = true;
+        trunk.receiveShadow = true;
+        scene.add(trunk);
+
+        // Tree foliage (green cone)
+        const foliage = new THREE.Mesh(
+          new THREE.ConeGeometry(fullRadius, tree.height, 8),
+          new THREE.MeshLambertMaterial({ color: FOLIAGE_COLOR }),
+        );
+        foliage.position.set(tree.x, ground + 1.5 + tree.height / 2, tree.z);
+        foliage.castShadow = true;
+        foliage.receiveShadow = true;
+        scene.add(foliage);
+
+        treeMeshes.push({ tree, ground, trunk, foliage });
+      }
+
+      for (const [key, cell] of fuel) {
+        if (cell.type === "bare") {
+          setGroundTile(key, bareMaterial);
+        }
+      }
+
+      this.sync(fuel);
+    },
+
+    sync(fuel) {
+      for (const { tree, ground, trunk, foliage } of treeMeshes) {
+        const cell = fuel.get(cellKey(tree.x, tree.z));
+        const char = charLevel(cell);
+
+        foliage.material.color.copy(FOLIAGE_COLOR).lerp(CHARRED_COLOR, char);
+        trunk.material.color.copy(TRUNK_COLOR).lerp(CHARRED_COLOR, char);
+
+        if (cell?.burnt) {
+          // Burnt out: only a short stump remains
+          foliage.visible = false;
+          trunk.scale.y = STUMP_HEIGHT / 1.5;
+          trunk.position.y = ground + STUMP_HEIGHT / 2;
+        }
+      }
+
+      for (const [key, cell] of fuel) {
+        if (cell.burnt && groundTiles.get(key)?.material !== scorchedMaterial) {
+          setGroundTile(key, scorchedMaterial);
+        } else if (cell.type === "bare" && !groundTiles.has(key)) {
+          // Firebreaks dug during the round
+          setGroundTile(key, bareMaterial);
+        }
+      }
+    },
+
+    dispose() {
+      clear();
+      scorchedMaterial.dispose();
+      bareMaterial.dispose();
+    },
+  };
+}
@@ -0,0 +1,245 @@
+import * as THREE from "three";
+import { smokeExposure } from "@/lib/game/health";
+import type { GroundHeight } from "@/lib/game/terrain";
+import type { FireMap, WindConditions } from "@/lib/game/types";
+
+/**
+ * Smoke plumes and the haze they leave around the player.
+ *
+ * Like the fire renderer, each burning cell is an instance of one shared puff
+ * cloud that rises and drifts downwind in the vertex shader. Standing in the
+ * smoke the simulation already hurts the player with thickens the scene fog,
+ * so visibility drops where breathing does.
+ */
+export interface SmokeRenderer {
+  sync(fires: FireMap, wind: WindConditions): void;
+  // Advance the plumes and ease the fog towards the smoke at the viewer's position
+  update(deltaTime: number, viewer: { x: number; z: number }): void;
+  dispose(): void;
+}
+
+const PUFFS_PER_FIRE = 16;
+const INITIAL_CAPACITY = 256;
+// Values per instance: x, z, intensity, ground height
+const INSTANCE_STRIDE = 4;
+const SMOKE_COLOR = new THREE.Color(0x6b6b6b);
+// Fog distances at the thickest haze
+const HAZE_FOG_NEAR = 2;
+const HAZE_FOG_FAR = 18;
+// Smoke exposure that counts as the thickest haze
+const FULL_HAZE_EXPOSURE = 0.5;
+// How fast the haze follows the player in and out of smoke, per second
+const HAZE_EASING = 1.5;
+
+const vertexShader = /* glsl */ `
+  uniform float uTime;
+  uniform float uScale;
+  // Wind direction scaled by speed
+  uniform vec2 uWind;
+  attribute float seed;
+  attribute vec4 fire;
+  varying float vLife;
+  varying float vIntensity;
+
+  void main() {
+    float cellPhase = fract(sin(dot(fire.xy, vec2(12.9898, 78.233))) * 43758.5453);
+    float life = fract(position.y + cellPhase + uTime * (0.06 + seed * 0.04));
+
+    // Puffs spread as they climb and are pushed further downwind the longer they last
+    vec3 local = vec3(position.x, 0.0, position.z) * (0.5 + life * 2.5);
+    local.y = 1.5 + life * 9.0;
+    local.xz += uWind * life * life * 8.0;
+
+    vec4 mvPosition = modelViewMatrix * vec4(local + vec3(fire.x, fire.w, fire.y), 1.0);
+    gl_PointSize = (1.5 + life * 4.0) * uScale / -mvPosition.z;
+    gl_Position = projectionMatrix * mvPosition;
+
+    vLife = life;
+    vIntensity = fire.z;
+  }
+`;
+
+const fragmentShader = /* glsl */ `
+  uniform sampler2D uMap;
+  uniform vec3 uColor;
+  varying float vLife;
+  varying float vIntensity;
+
+  void main() {
+    vec4 texel = texture2D(uMap, gl_PointCoord);
+    // Fade in above the flames and out as the puff thins
+    float alpha = smoothstep(0.0, 0.15, vLife) * (1.0 - vLife) * 0.35 * vIntensity;
+    gl_FragColor = vec4(uColor, texel.a * alpha);
+  }
+`;
+
+function createPuffTexture(): THREE.Texture {
+  const canvas = document.createElement("canvas");
+  canvas.width = 32;
+  canvas.height = 32;
+  const context = canvas.getContext("2d")!;
+  const gradient = context.createRadialGradient(16, 16, 0, 16, 16, 16);
+  gradient.addColorStop(0, "rgba(255,255,255,1)");
+  gradient.addColorStop(1, "rgba(255,255,255,0)");
+  context.fillStyle = gradient;
+  context.fillRect(0, 0, 32, 32);
+  return new THREE.CanvasTexture(canvas);
+}
+
+function createPuffAttributes(): {
+  position: THREE.BufferAttribute;
+  seed: THREE.BufferAttribute;
+} {
+  const positions = new Float32Array(PUFFS_PER_FIRE * 3);
+  const seeds = new Float32Array(PUFFS_PER_FIRE);
+
+  for (let p = 0; p < PUFFS_PER_FIRE; p++) {
+    const radius = Math.sqrt(Math.random());
+    const angle = Math.random() * Math.PI * 2;
+    positions[p * 3] = Math.cos(angle) * radius;
+    // Spread the starting phases evenly so a plume is never empty
+    positions[p * 3 + 1] = p / PUFFS_PER_FIRE;
+    positions[p * 3 + 2] = Math.sin(angle) * radius;
+    seeds[p] = Math.random();
+  }
+
+  return {
+    position: new THREE.BufferAttribute(positions, 3),
+    seed: new THREE.BufferAttribute(seeds, 1),
+  };
+}
+
+function createSmokeGeometry(
+  puffs: ReturnType<typeof createPuffAttributes>,
+  capacity: number,
+): THREE.InstancedBufferGeometry {
+  const geometry = new THREE.InstancedBufferGeometry();
+  geometry.setAttribute("position", puffs.position);
+  geometry.setAttribute("seed", puffs.seed);
+  const instances = new THREE.InstancedBufferAttribute(
+    new Float32Array(capacity * INSTANCE_STRIDE),
+    INSTANCE_STRIDE,
+  );
+  instances.setUsage(THREE.DynamicDrawUsage);
+  geometry.setAttribute("fire", instances);
+  geometry.instanceCount = 0;
+  return geometry;
+}
+
+export function createSmokeRenderer(
+  scene: THREE.Scene,
+  groundHeight: GroundHeight,
+): SmokeRenderer {
+  const texture = createPuffTexture();
+  const puffs = createPuffAttributes();
+  let capacity = INITIAL_CAPACITY;
+
+  const material = new THREE.ShaderMaterial({
+    uniforms: {
+      uTime: { value: 0 },
+      uScale: { value: 1 },
+      uWind: { value: new THREE.Vector2() },
+      uMap: { value: texture },
+      uColor: { value: SMOKE_COLOR },
+    },
+    vertexShader,
+    fragmentShader,
+    transparent: true,
+    depthWrite: false,
+  });
+
+  const points = new THREE.Points(
+    createSmokeGeometry(puffs, capacity),
+    material,
+  );
+  points.frustumCulled = false;
+  // Draw after the flames so the smoke sits over them
+  points.renderOrder = 1;
+  const drawingBufferSize = new THREE.Vector2();
+  points.onBeforeRender = (renderer) => {
+    material.uniforms.uScale.value =
+      renderer.getDrawingBufferSize(drawingBufferSize).y / 2;
+  };
+  scene.add(points);
+
+  // The clear-air look to return to once the player is out of the smoke
+  const fog = scene.fog instanceof THREE.Fog ? scene.fog : null;
+  const clearFog = fog && {
+    color: fog.color.clone(),
+    near: fog.near,
+    far: fog.far,
+  };
+  const background =
+    scene.background instanceof THREE.Color ? scene.background : null;
+  const clearBackground = background?.clone();
+
+  let fires: FireMap = new Map();
+  let wind: WindConditions = { direction: { x: 0, y: 0, z: 0 }, speed: 0 };
+  let haze = 0;
+
+  return {
+    sync(nextFires, nextWind) {
+      fires = nextFires;
+      wind = nextWind;
+      material.uniforms.uWind.value.set(
+        wind.direction.x * wind.speed,
+        wind.direction.z * wind.speed,
+      );
+
+      if (fires.size > capacity) {
+        while (capacity < fires.size) capacity *= 2;
+        points.geometry.dispose();
+        points.geometry = createSmokeGeometry(puffs, capacity);
+      }
+
+      const instances = points.geometry.getAttribute(
+        "fire",
+      ) as THREE.InstancedBufferAttribute;
+      const data = instances.array as Float32Array;
+      let offset = 0;
+      for (const fire of fires.values()) {
+        data[offset] = fire.x;
+        data[offset + 1] = fire.z;
+        data[offset + 2] = fire.intensity;
+        data[offset + 3] = groundHeight(fire.x, fire.z);
+        offset += INSTANCE_STRIDE;
+      }
+
+      instances.updateRange = { offset: 0, count: offset };
+      instances.needsUpdate = true;
+      points.geometry.instanceCount = fires.size;
+    },
+
+    update(deltaTime, viewer) {
+      material.uniforms.uTime.value += deltaTime;
+
+      const target = Math.min(
+        1,
+        smokeExposure(viewer, fires, wind) / FULL_HAZE_EXPOSURE,
+      );
+      haze += (target - haze) * Math.min(1, HAZE_EASING * deltaTime);
+
+      if (fog && clearFog) {
+        fog.color.copy(clearFog.color).lerp(SMOKE_COLOR, haze);
+        fog.near = THREE.MathUtils.lerp(clearFog.near, HAZE_FOG_NEAR, haze);
+        fog.far = THREE.MathUtils.lerp(clearFog.far, HAZE_FOG_FAR, haze);
+      }
+      if (background && clearBackground) {
+        background.copy(clearBackground).lerp(SMOKE_COLOR, haze);
+      }
+    },
+
+    dispose() {
+      if (fog && clearFog) {
+        fog.color.copy(clearFog.color);
+        fog.near = clearFog.near;
+        fog.far = clearFog.far;
+      }
+      if (background && clearBackground) background.copy(clearBackground);
+      scene.remove(points);
+      points.geometry.dispose();
+      material.dispose();
+      texture.dispose();
+    },
+  };
+}
@@ -0,0 +1,134 @@
+import * as THREE from "three";
+import { TOOLS } from "@/lib/game/equipment";
+import type { PlayerSnapshot } from "@/lib/multiplayer/protocol";
+
+/**
+ * Capsules and water jets for the other firefighters in a co-op room.
+ *
+ * Snapshots arrive a few times a second, so each teammate's mesh eases
+ * towards the latest reported position every frame instead of jumping.
+ */
+export interface TeammateRenderer {
+  sync(players: PlayerSnapshot[]): void;
+  // Ease meshes towards their targets and animate the spray; call once per frame
+  update(deltaTime: number): void;
+  dispose(): void;
+}
+
+const PLAYER_HEIGHT = 1.8;
+const JET_PARTICLES = 60;
+// Fraction of the remaining distance covered per second
+const SMOOTHING = 12;
+const TEAM_COLORS = [0x35a7ff, 0xffd23f, 0xb15eff, 0x3bceac];
+
+interface Teammate {
+  body: THREE.Mesh;
+  jet: THREE.Points;
+  target: PlayerSnapshot;
+}
+
+function createTeammate(scene: THREE.Scene, color: number): Teammate {
+  const body = new THREE.Mesh(
+    new THREE.CapsuleGeometry(0.5, PLAYER_HEIGHT),
+    new THREE.MeshLambertMaterial({ color }),
+  );
+  body.castShadow = true;
+  scene.add(body);
+
+  const jetGeometry = new THREE.BufferGeometry();
+  jetGeometry.setAttribute(
+    "position",
+    new THREE.BufferAttribute(new Float32Array(JET_PARTICLES * 3), 3),
+  );
+  const jet = new THREE.Points(
+    jetGeometry,
+    new THREE.PointsMaterial({
+      color: 0x87ceeb,
+      size: 0.1,
+      transparent: true,
+      opacity: 0.8,
+    }),
+  );
+  jet.visible = false;
+  scene.add(jet);
+
+  return { body, jet, target: null as unknown as PlayerSnapshot };
+}
+
+function disposeTeammate(scene: THREE.Scene, teammate: Teammate): void {
+  for (const object of [teammate.body, teammate.jet]) {
+    object.geometry.dispose();
+    (object.material as THREE.Material).dispose();
+    scene.remove(object);
+  }
+}
+
+export function createTeammateRenderer(scene: THREE.Scene): TeammateRenderer {
+  const teammates = new Map<string, Teammate>();
+  let colorIndex = 0;
+
+  return {
+    sync(players) {
+      const ids = new Set(players.map((player) => player.id));
+      for (const [id, teammate] of teammates) {
+        if (!ids.has(id)) {
+          disposeTeammate(scene, teammate);
+          teammates.delete(id);
+        }
+      }
+
+      for (const player of players) {
+        let teammate = teammates.get(player.id);
+        if (!teammate) {
+          teammate = createTeammate(
+            scene,
+            TEAM_COLORS[colorIndex++ % TEAM_COLORS.length],
+          );
+          teammate.body.position.set(
+            player.position.x,
+            player.position.y + PLAYER_HEIGHT / 2,
+            player.position.z,
+          );
+          teammates.set(player.id, teammate);
+        }
+        teammate.target = player;
+        // Caught teammates lie down where the fire got them
+        teammate.body.rotation.z = player.caught ? Math.PI / 2 : 0;
+      }
+    },
+
+    update(deltaTime) {
+      const blend = Math.min(1, SMOOTHING * deltaTime);
+
+      for (const { body, jet, target } of teammates.values()) {
+        body.position.x += (target.position.x - body.position.x) * blend;
+        body.position.y +=
+          (target.position.y + PLAYER_HEIGHT / 2 - body.position.y) * blend;
+        body.position.z += (target.position.z - body.position.z) * blend;
+        body.rotation.y = target.rotation;
+
+        jet.visible = target.spraying;
+        if (!target.spraying) continue;
+
+        const positions = jet.geometry.attributes.position
+          .array as Float32Array;
+        for (let i = 0; i < positions.length; i += 3) {
+          const angle = target.rotation + (Math.random() - 0.5) * 0.5;
+          const distance = Math.random() * TOOLS[target.tool].range;
+          positions[i] = body.position.x + Math.sin(angle) * distance;
+          positions[i + 1] =
+            body.position.y - PLAYER_HEIGHT / 2 + 1 + Math.random() * 2;
+          positions[i + 2] = body.position.z - Math.cos(angle) * distance;
+        }
+        jet.geometry.attributes.position.needsUpdate = true;
+      }
+    },
+
+    dispose() {
+      for (const teammate of teammates.values()) {
+        disposeTeammate(scene, teammate);
+      }
+      teammates.clear();
+    },
+  };
+}
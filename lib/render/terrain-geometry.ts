@@ -0,0 +1,20 @@
+import * as THREE from "three";
+import type { Terrain } from "@/lib/game/terrain";
+
+// Ground mesh for a terrain, one vertex per height sample, already lying flat in world space
+export function createTerrainGeometry(terrain: Terrain): THREE.BufferGeometry {
+  const segments = terrain.samplesPerSide - 1;
+  const geometry = new THREE.PlaneGeometry(
+    terrain.worldSize,
+    terrain.worldSize,
+    segments,
+    segments,
+  );
+  // Rows of the plane then run along x from -z to +z, the same order as the heights
+  geometry.rotateX(-Math.PI / 2);
+
+  const positions = geometry.attributes.position;
+  terrain.heights.forEach((height, index) => positions.setY(index, height));
+  geometry.computeVertexNormals();
+  return geometry;
+}
@@ -0,0 +1,31 @@
+import type { SavedGame } from "@/lib/game/save";
+import { getKeyValueStore, storeKey } from "./kv-store";
+
+/**
+ * Saved rounds by fid, so a game started on one device can be resumed on
+ * another. Each player keeps a single save.
+ */
+
+// Abandoned saves expire after a week
+const SAVE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+function getSaveKey(fid: number): string {
+  return storeKey("save", fid);
+}
+
+export async function getSavedGame(fid: number): Promise<SavedGame | null> {
+  return await getKeyValueStore().get<SavedGame>(getSaveKey(fid));
+}
+
+export async function storeSavedGame(
+  fid: number,
+  save: SavedGame,
+): Promise<void> {
+  await getKeyValueStore().set(getSaveKey(fid), save, {
+    ex: SAVE_TTL_SECONDS,
+  });
+}
+
+export async function deleteSavedGame(fid: number): Promise<void> {
+  await getKeyValueStore().del(getSaveKey(fid));
+}
@@ -0,0 +1,32 @@
+import { afterEach, beforeEach, vi } from "vitest";
+import {
+  farcasterQuickAuthVerifier,
+  setQuickAuthVerifier,
+} from "@/lib/player-auth";
+
+/**
+ * Quick Auth for route tests.
+ *
+ * Tokens are "fid-<fid>" and sign in as that fid; anything else is refused.
+ * Environment variables stubbed in a test are restored after it.
+ */
+
+export function quickAuthToken(fid: number): string {
+  return `fid-${fid}`;
+}
+
+// Install the test verifier around every test in the calling file
+export function useTestQuickAuth(): void {
+  beforeEach(() => {
+    vi.stubEnv("NEXT_PUBLIC_URL", "https://example.com");
+    setQuickAuthVerifier(async (token) => {
+      if (!token.startsWith("fid-")) throw new Error("Invalid token");
+      return Number(token.slice(4));
+    });
+  });
+
+  afterEach(() => {
+    setQuickAuthVerifier(farcasterQuickAuthVerifier);
+    vi.unstubAllEnvs();
+  });
+}
@@ -0,0 +1,170 @@
+import type { MiniAppNotificationDetails } from "@farcaster/frame-sdk";
+import { createHash } from "crypto";
+import { getKeyValueStore, storeKey } from "./kv-store";
+
+/**
+ * Mini app events delivered to the webhook, and protection against replayed
+ * ones.
+ *
+ * Signed events carry no nonce and signatures are deterministic, so a hash
+ * of the signature identifies the event: it is claimed before the event is
+ * handled, and a second delivery is acknowledged without being handled
+ * again. Events that carry a timestamp must be recent, and are claimed in
+ * order per fid so a replay can't undo a newer change. Events without one
+ * keep their claim for a month; a player who repeats an identical event in
+ * that time, such as removing the app twice, has the repeat dropped, which
+ * costs nothing because clients invalidate the token on removal and the next
+ * notification to it clears the details.
+ */
+
+export type WebhookEvent =
+  | {
+      event: "frame_added";
+      notificationDetails?: MiniAppNotificationDetails;
+    }
+  | { event: "frame_removed" }
+  | {
+      event: "notifications_enabled";
+      notificationDetails: MiniAppNotificationDetails;
+    }
+  | { event: "notifications_disabled" };
+
+export type WebhookEventResult =
+  // timestamp in milliseconds, when the event has one
+  | { valid: true; event: WebhookEvent; timestamp?: number }
+  | {
+      valid: false;
+      code: "invalid_event" | "stale_event";
+      error: string;
+    };
+
+// How far an event's timestamp may be from now, either way
+const MAX_EVENT_AGE_SECONDS = 5 * 60;
+// Timestamped events older than this fail the age check anyway
+const TIMED_EVENT_TTL_SECONDS = 2 * MAX_EVENT_AGE_SECONDS;
+const UNTIMED_EVENT_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+function getNonceKey(nonce: string): string {
+  return storeKey("webhook", "nonce", nonce);
+}
+
+// Sorted set holding the fid's latest claimed event time as its only member's score
+function getLatestEventKey(fid: number): string {
+  return storeKey("webhook", "latest", fid);
+}
+
+function isNotificationDetails(
+  value: unknown,
+): value is MiniAppNotificationDetails {
+  const details = value as MiniAppNotificationDetails;
+  if (typeof details !== "object" || details === null) return false;
+  if (typeof details.token !== "string" || !details.token) return false;
+  try {
+    return new URL(details.url).protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+export function parseWebhookEvent(payload: unknown): WebhookEventResult {
+  const invalid = (error: string): WebhookEventResult => ({
+    valid: false,
+    code: "invalid_event",
+    error,
+  });
+  if (typeof payload !== "object" || payload === null) {
+    return invalid("Payload must be an object");
+  }
+  const { event, notificationDetails, timestamp } = payload as Record<
+    string,
+    unknown
+  >;
+
+  // Timestamps may be in seconds or milliseconds
+  let sentAt: number | undefined;
+  if (timestamp !== undefined) {
+    if (typeof timestamp !== "number" || !Number.isFinite(timestamp)) {
+      return invalid("timestamp must be a number");
+    }
+    sentAt = timestamp > 1e12 ? timestamp : timestamp * 1000;
+    if (Math.abs(Date.now() - sentAt) > MAX_EVENT_AGE_SECONDS * 1000) {
+      return {
+        valid: false,
+        code: "stale_event",
+        error: "Event timestamp is too far from now",
+      };
+    }
+  }
+
+  switch (event) {
+    case "frame_added":
+      if (
+        notificationDetails !== undefined &&
+        !isNotificationDetails(notificationDetails)
+      ) {
+        return invalid("notificationDetails must have an https url and token");
+      }
+      return {
+        valid: true,
+        event: {
+          event,
+          notificationDetails: notificationDetails as
+            | MiniAppNotificationDetails
+            | undefined,
+        },
+        timestamp: sentAt,
+      };
+    case "notifications_enabled":
+      if (!isNotificationDetails(notificationDetails)) {
+        return invalid("notificationDetails must have an https url and token");
+      }
+      return {
+        valid: true,
+        event: { event, notificationDetails },
+        timestamp: sentAt,
+      };
+    case "frame_removed":
+    case "notifications_disabled":
+      return { valid: true, event: { event }, timestamp: sentAt };
+    default:
+      return invalid(`Unknown event ${String(event)}`);
+  }
+}
+
+export function eventNonce(signature: string): string {
+  return createHash("sha256").update(signature).digest("hex");
+}
+
+// Claim an event before handling it; false if it was already delivered
+export async function claimWebhookEvent(
+  nonce: string,
+  timestamp: number | undefined,
+): Promise<boolean> {
+  return await getKeyValueStore().set(getNonceKey(nonce), Date.now(), {
+    nx: true,
+    ex:
+      timestamp === undefined
+        ? UNTIMED_EVENT_TTL_SECONDS
+        : TIMED_EVENT_TTL_SECONDS,
+  });
+}
+
+// Give the claim back when handling failed, so the client's retry goes through
+export async function releaseWebhookEvent(nonce: string): Promise<void> {
+  await getKeyValueStore().del(getNonceKey(nonce));
+}
+
+// Raise the fid's latest event time in one atomic step; false if a later event was already claimed
+export async function claimEventOrder(
+  fid: number,
+  timestamp: number,
+): Promise<boolean> {
+  const store = getKeyValueStore();
+  const key = getLatestEventKey(fid);
+  if (await store.zadd(key, timestamp, "latest", { gt: true })) {
+    await store.expire(key, TIMED_EVENT_TTL_SECONDS);
+    return true;
+  }
+  // Left alone: a later event holds the key, or another from the same moment
+  return (await store.zscore(key, "latest")) === timestamp;
+}
@@ -0,0 +1,82 @@
+import WebSocket from "ws";
+import { getLevel } from "@/lib/game/levels";
+import { normalizeSeed } from "@/lib/game/seed";
+import {
+  parseClientMessage,
+  type ServerMessage,
+} from "@/lib/multiplayer/protocol";
+import { createGameRoom, type GameRoom } from "@/lib/multiplayer/room";
+
+/**
+ * Co-op WebSocket server.
+ *
+ * Next.js route handlers can't upgrade connections, so rooms run in this
+ * small standalone process (`npm run multiplayer`). Clients connect to
+ * /rooms/<id>?level=<level>&seed=<seed>; the first connection creates the room.
+ */
+
+const port = Number(process.env.MULTIPLAYER_PORT ?? 3001);
+const rooms = new Map<string, GameRoom>();
+
+const ROOM_PATH = /^\/rooms\/([a-z0-9-]{1,32})$/i;
+
+function reject(socket: WebSocket, message: string): void {
+  socket.send(
+    JSON.stringify({ type: "error", message } satisfies ServerMessage),
+  );
+  socket.close();
+}
+
+function roomFor(roomId: string, params: URLSearchParams): GameRoom | null {
+  const existing = rooms.get(roomId);
+  if (existing) return existing;
+
+  const level = getLevel(params.get("level"));
+  const seed = level?.seed || normalizeSeed(params.get("seed"));
+  if (!level || !seed) return null;
+
+  const room = createGameRoom(roomId, level, seed);
+  rooms.set(roomId, room);
+  return room;
+}
+
+const server = new WebSocket.Server({ port });
+
+server.on("connection", (socket, request) => {
+  const url = new URL(request.url ?? "/", "http://localhost");
+  const roomId = ROOM_PATH.exec(url.pathname)?.[1]?.toLowerCase();
+  if (!roomId) return reject(socket, "Unknown room path");
+
+  const room = roomFor(roomId, url.searchParams);
+  if (!room) return reject(socket, "A known level and seed are required");
+
+  const session = room.connect({
+    send(message) {
+      if (socket.readyState === WebSocket.OPEN)
+        socket.send(JSON.stringify(message));
+    },
+  });
+
+  socket.on("message", (data) => {
+    try {
+      session.receive(parseClientMessage(data.toString()));
+    } catch (error) {
+      socket.send(
+        JSON.stringify({
+          type: "error",
+          message: error instanceof Error ? error.message : "Unknown error",
+        } satisfies ServerMessage),
+      );
+    }
+  });
+
+  socket.on("close", () => {
+    session.disconnect();
+    if (room.playerCount === 0) {
+      room.dispose();
+      rooms.delete(roomId);
+    }
+  });
+});
+
+console.log(`Co-op server listening on ws://localhost:${port}`);